@@ -0,0 +1,10 @@
+/** @type {import('jest').Config} */
+export default {
+    preset: 'ts-jest/presets/default-esm',
+    testEnvironment: 'node',
+    roots: ['<rootDir>/src'],
+    // Sources import each other with ".js" suffixes, as NodeNext requires
+    moduleNameMapper: {
+        '^(\\.{1,2}/.*)\\.js$': '$1'
+    }
+};
@@ -0,0 +1,93 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { CodeAnalyzer, collectIssues } from './CodeAnalyzer.js';
+import { loadConfig } from '../config/loader.js';
+
+const main = [
+    "import { fetchUser } from './api';",
+    '',
+    'export async function loadAll(ids: string[]) {',
+    '    for (const id of ids) {',
+    '        await fetchUser(id);',
+    '    }',
+    '}',
+    ''
+].join('\n');
+
+const syncApi = 'export function fetchUser(id: string) {\n    return { id };\n}\n';
+const asyncApi = 'export async function fetchUser(id: string) {\n    return { id };\n}\n';
+
+describe('AnalysisCache', () => {
+    let projectDir: string;
+
+    beforeEach(async () => {
+        projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tsa-cache-'));
+        await fs.mkdir(path.join(projectDir, 'src'));
+        await fs.writeFile(path.join(projectDir, 'tsconfig.json'), JSON.stringify({
+            compilerOptions: { target: 'ES2022', module: 'NodeNext', strict: true },
+            include: ['src']
+        }));
+        await fs.writeFile(path.join(projectDir, 'src/main.ts'), main);
+        await fs.writeFile(path.join(projectDir, 'src/api.ts'), syncApi);
+    });
+
+    afterEach(async () => {
+        await fs.rm(projectDir, { recursive: true, force: true });
+    });
+
+    async function analyze(analyzer = new CodeAnalyzer()) {
+        const result = await analyzer.analyzeProject(projectDir, await loadConfig(projectDir));
+        return collectIssues(result).filter(issue => issue.ruleId === 'perf/await-in-loop');
+    }
+
+    it('reuses results while neither a file nor its imports change', async () => {
+        await analyze();
+        const analyzer = new CodeAnalyzer();
+        await analyze(analyzer);
+
+        expect(analyzer.getCacheStats()).toMatchObject({ misses: 0 });
+    });
+
+    it('re-analyzes a file when a file it imports changes', async () => {
+        expect(await analyze()).toEqual([]);
+
+        await fs.writeFile(path.join(projectDir, 'src/api.ts'), asyncApi);
+        const issues = await analyze();
+
+        expect(issues).toEqual([expect.objectContaining({ file: path.join(projectDir, 'src/main.ts'), startLine: 5 })]);
+    });
+
+    it('discards results when the compiler options change', async () => {
+        await analyze();
+        await fs.writeFile(path.join(projectDir, 'tsconfig.json'), JSON.stringify({
+            compilerOptions: { target: 'ES2022', module: 'NodeNext', strict: false },
+            include: ['src']
+        }));
+        const analyzer = new CodeAnalyzer();
+        await analyze(analyzer);
+
+        expect(analyzer.getCacheStats()).toMatchObject({ hits: 0 });
+    });
+
+    it('re-analyzes files when an ambient declaration file changes', async () => {
+        await fs.writeFile(path.join(projectDir, 'src/main.ts'), main.replace("import { fetchUser } from './api';\n", ''));
+        await fs.writeFile(path.join(projectDir, 'src/api.ts'), 'export {};\n');
+        await fs.writeFile(path.join(projectDir, 'src/globals.d.ts'), 'declare function fetchUser(id: string): { id: string };\n');
+        expect(await analyze()).toEqual([]);
+
+        await fs.writeFile(path.join(projectDir, 'src/globals.d.ts'), 'declare function fetchUser(id: string): Promise<{ id: string }>;\n');
+
+        expect(await analyze()).toHaveLength(1);
+    });
+
+    it('re-analyzes importers of a changed file in watch mode', async () => {
+        const analyzer = new CodeAnalyzer();
+        expect(await analyze(analyzer)).toEqual([]);
+
+        await fs.writeFile(path.join(projectDir, 'src/api.ts'), asyncApi);
+        const result = await analyzer.reanalyzeFiles([path.join(projectDir, 'src/api.ts')]);
+
+        expect(collectIssues(result).filter(issue => issue.ruleId === 'perf/await-in-loop')).toHaveLength(1);
+    });
+});
@@ -0,0 +1,259 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { createRequire } from 'module';
+import { Project, SourceFile, ts } from 'ts-morph';
+import { FileAnalysis } from './fileAnalysis.js';
+import { FileImport } from './DependencyAnalyzer.js';
+import { ResolvedConfig } from '../config/loader.js';
+import { ConfiguredRule } from '../rules/RuleRegistry.js';
+import logger from '../utils/logger.js';
+
+const require = createRequire(import.meta.url);
+const { version } = require('../../package.json');
+
+const CACHE_FILE_NAME = 'analysis-cache.json';
+// Bump when per-file results change for the same source, e.g. a metric is added or counted differently
+const CACHE_FORMAT = 5;
+
+interface CacheEntry {
+    // Hash of the file content the results below were computed from
+    hash: string;
+    // Hash of the project files it imports, directly or through other files.
+    // Type-aware rules read their declarations, so the analysis depends on them.
+    dependencyHash?: string;
+    analysis?: FileAnalysis;
+    imports?: FileImport[];
+}
+
+interface CacheFile {
+    key: string;
+    entries: Record<string, CacheEntry>;
+}
+
+export interface CacheStats {
+    hits: number;
+    misses: number;
+}
+
+// Per-file analyzer results and import lists, persisted between runs.
+// An entry is only reused while the file content is unchanged, analyzer
+// results only while the files it imports are unchanged too, and the
+// whole cache is dropped when the tool version, rule configuration,
+// compiler options or declaration files change.
+export class AnalysisCache {
+    private hits = 0;
+    private misses = 0;
+    private dirty = false;
+    private contentHashes = new Map<string, { text: string; hash: string }>();
+    // Dependency hashes per program; ts-morph creates a new program whenever a file changes
+    private dependencyHashes = new WeakMap<ts.Program, Map<string, string>>();
+
+    private constructor(
+        public readonly filePath: string,
+        private readonly key: string,
+        private readonly entries: Map<string, CacheEntry>
+    ) {}
+
+    public static async load(config: ResolvedConfig, rules: ConfiguredRule[], projects: Project[]): Promise<AnalysisCache> {
+        const filePath = path.join(getCacheDirectory(config), CACHE_FILE_NAME);
+        const key = createCacheKey(config, rules, projects);
+
+        let content: CacheFile | null = null;
+        try {
+            content = JSON.parse(await fs.readFile(filePath, 'utf8'));
+        } catch {
+            // Missing or corrupt cache: start from scratch
+        }
+
+        if (content?.key !== key) {
+            if (content) {
+                logger.info('Analysis cache is out of date, discarding it');
+            }
+            return new AnalysisCache(filePath, key, new Map());
+        }
+        return new AnalysisCache(filePath, key, new Map(Object.entries(content.entries)));
+    }
+
+    // Removes the cache directory; returns false when there was nothing to remove
+    public static async clear(config: ResolvedConfig): Promise<boolean> {
+        const directory = getCacheDirectory(config);
+        try {
+            await fs.access(directory);
+        } catch {
+            return false;
+        }
+        await fs.rm(directory, { recursive: true, force: true });
+        return true;
+    }
+
+    // Looks up an entry without counting it as a hit or miss
+    public has(sourceFile: SourceFile, section: 'analysis' | 'imports'): boolean {
+        return section === 'analysis'
+            ? this.findAnalysis(sourceFile) !== undefined
+            : this.getEntry(sourceFile)?.imports !== undefined;
+    }
+
+    public getAnalysis(sourceFile: SourceFile): FileAnalysis | undefined {
+        return this.count(this.findAnalysis(sourceFile));
+    }
+
+    public setAnalysis(sourceFile: SourceFile, analysis: FileAnalysis): void {
+        const entry = this.getOrCreateEntry(sourceFile);
+        entry.analysis = analysis;
+        entry.dependencyHash = this.hashDependencies(sourceFile);
+    }
+
+    // isCurrent can reject lists that are stale for reasons other than the
+    // file's own content, e.g. an imported file that was deleted since
+    public getImports(sourceFile: SourceFile, isCurrent: (imports: FileImport[]) => boolean = () => true): FileImport[] | undefined {
+        const imports = this.getEntry(sourceFile)?.imports;
+        return this.count(imports && isCurrent(imports) ? imports : undefined);
+    }
+
+    public setImports(sourceFile: SourceFile, imports: FileImport[]): void {
+        this.getOrCreateEntry(sourceFile).imports = imports;
+    }
+
+    public get stats(): CacheStats {
+        return { hits: this.hits, misses: this.misses };
+    }
+
+    // Forgets files that are no longer part of the project
+    public retain(filePaths: Set<string>): void {
+        for (const filePath of this.entries.keys()) {
+            if (!filePaths.has(filePath)) {
+                this.entries.delete(filePath);
+                this.dirty = true;
+            }
+        }
+    }
+
+    public async save(): Promise<void> {
+        if (!this.dirty) return;
+
+        const content: CacheFile = { key: this.key, entries: Object.fromEntries(this.entries) };
+        try {
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+            await fs.writeFile(this.filePath, JSON.stringify(content));
+            this.dirty = false;
+        } catch (error) {
+            // A read-only checkout should not fail the analysis
+            logger.warn(`Could not write analysis cache ${this.filePath}:`, error);
+        }
+    }
+
+    private count<T>(value: T | undefined): T | undefined {
+        if (value === undefined) {
+            this.misses++;
+        } else {
+            this.hits++;
+        }
+        return value;
+    }
+
+    private findAnalysis(sourceFile: SourceFile): FileAnalysis | undefined {
+        const entry = this.getEntry(sourceFile);
+        return entry?.analysis && entry.dependencyHash === this.hashDependencies(sourceFile) ? entry.analysis : undefined;
+    }
+
+    private getEntry(sourceFile: SourceFile): CacheEntry | undefined {
+        const entry = this.entries.get(sourceFile.getFilePath());
+        return entry?.hash === this.hashContent(sourceFile) ? entry : undefined;
+    }
+
+    private getOrCreateEntry(sourceFile: SourceFile): CacheEntry {
+        let entry = this.getEntry(sourceFile);
+        if (!entry) {
+            entry = { hash: this.hashContent(sourceFile) };
+            this.entries.set(sourceFile.getFilePath(), entry);
+        }
+        this.dirty = true;
+        return entry;
+    }
+
+    private hashContent(sourceFile: SourceFile): string {
+        const text = sourceFile.getFullText();
+        const known = this.contentHashes.get(sourceFile.getFilePath());
+        if (known?.text === text) {
+            return known.hash;
+        }
+        const hash = crypto.createHash('sha256').update(text).digest('hex');
+        this.contentHashes.set(sourceFile.getFilePath(), { text, hash });
+        return hash;
+    }
+
+    // Covers every project file reachable through imports, exports and
+    // import types. Packages in node_modules are left out.
+    private hashDependencies(sourceFile: SourceFile): string {
+        const program = sourceFile.getProject().getProgram().compilerObject;
+        let hashes = this.dependencyHashes.get(program);
+        if (!hashes) {
+            hashes = new Map();
+            this.dependencyHashes.set(program, hashes);
+        }
+        const known = hashes.get(sourceFile.getFilePath());
+        if (known) {
+            return known;
+        }
+
+        const seen = new Set<SourceFile>([sourceFile]);
+        const pending = [sourceFile];
+        while (pending.length > 0) {
+            for (const dependency of pending.pop()!.getReferencedSourceFiles()) {
+                if (!seen.has(dependency) && !dependency.isInNodeModules()) {
+                    seen.add(dependency);
+                    pending.push(dependency);
+                }
+            }
+        }
+        seen.delete(sourceFile);
+
+        const hash = crypto.createHash('sha256');
+        for (const dependency of Array.from(seen).sort((a, b) => a.getFilePath().localeCompare(b.getFilePath()))) {
+            hash.update(`${dependency.getFilePath()}\0${this.hashContent(dependency)}\0`);
+        }
+        const digest = hash.digest('hex');
+        hashes.set(sourceFile.getFilePath(), digest);
+        return digest;
+    }
+}
+
+function getCacheDirectory(config: ResolvedConfig): string {
+    return path.resolve(config.rootDir, config.cache.directory);
+}
+
+// Settings that all cached results depend on, besides the content of the
+// files checked per entry. Issues hold absolute paths, so the project
+// location is part of the key. Type-aware rules also depend on the
+// compiler options of each project and on the declaration files every
+// file sees without importing them (lib files, @types packages, ambient
+// .d.ts files), so those are hashed too.
+function createCacheKey(config: ResolvedConfig, rules: ConfiguredRule[], projects: Project[]): string {
+    return crypto
+        .createHash('sha256')
+        .update(JSON.stringify({
+            version,
+            format: CACHE_FORMAT,
+            rootDir: config.rootDir,
+            analysis: config.analysis,
+            plugins: config.plugins,
+            rules: rules.map(({ rule, severity, options }) => [rule.meta.id, severity, options]),
+            projects: projects.map(project => ({
+                compilerOptions: project.getCompilerOptions(),
+                declarations: hashDeclarationFiles(project)
+            }))
+        }))
+        .digest('hex');
+}
+
+function hashDeclarationFiles(project: Project): string {
+    const hash = crypto.createHash('sha256');
+    const files = project.getProgram().compilerObject.getSourceFiles()
+        .filter(file => file.isDeclarationFile)
+        .sort((a, b) => a.fileName.localeCompare(b.fileName));
+    for (const file of files) {
+        hash.update(`${file.fileName}\0${file.text}\0`);
+    }
+    return hash.digest('hex');
+}
@@ -0,0 +1,62 @@
+import { CodeAnalyzer, collectIssues } from './CodeAnalyzer.js';
+import { Baseline } from './Baseline.js';
+import { createInMemoryProject } from './project.js';
+import { createDefaultConfig } from '../config/loader.js';
+
+const pairs = [
+    'export function pairs(items: number[]) {',
+    '    for (const a of items) {',
+    '        for (const b of items) console.log(a, b);',
+    '    }',
+    '}',
+    ''
+].join('\n');
+
+async function analyze(text: string, baseline?: Baseline) {
+    return new CodeAnalyzer().analyzeSources({ 'src/pairs.ts': text }, { baseline });
+}
+
+describe('Baseline', () => {
+    it('keeps matching findings after lines are added above them', async () => {
+        const before = collectIssues(await analyze(pairs));
+        const baseline = Baseline.fromIssues('/tsa-baseline.json', before, '/');
+        expect(baseline.entries).toContainEqual(expect.objectContaining({ ruleId: 'perf/nested-loop', file: 'src/pairs.ts' }));
+
+        const result = await analyze(`// header\nimport './setup';\n\n${pairs}`, baseline);
+        expect(collectIssues(result).map(issue => issue.ruleId)).not.toContain('perf/nested-loop');
+        expect(result.baseline).toMatchObject({ baselined: before.length, fixed: 0 });
+    });
+
+    it('reports a second identical finding that is not in the baseline', async () => {
+        const baseline = Baseline.fromIssues('/tsa-baseline.json', collectIssues(await analyze(pairs)), '/');
+        const twice = pairs + pairs.replace('function pairs', 'function pairsAgain');
+
+        const nested = collectIssues(await analyze(twice, baseline)).filter(issue => issue.ruleId === 'perf/nested-loop');
+        expect(nested).toHaveLength(1);
+    });
+
+    it('counts entries whose finding was fixed', async () => {
+        const baseline = Baseline.fromIssues('/tsa-baseline.json', collectIssues(await analyze(pairs)), '/');
+        const result = await analyze('export const none = 1;\n', baseline);
+
+        expect(result.baseline?.fixed).toBe(baseline.entries.length);
+        expect(baseline.prune(collectIssues(result)).entries).toEqual([]);
+    });
+
+    it('only counts entries as fixed in the files that were analyzed', async () => {
+        const files = { '/src/pairs.ts': pairs, '/src/other.ts': pairs.replace('function pairs', 'function others') };
+        const baseline = Baseline.fromIssues('/tsa-baseline.json', collectIssues(await new CodeAnalyzer().analyzeSources(files)), '/');
+        files['/src/pairs.ts'] = 'export const none = 1;\n';
+
+        // As with --changed-since, where only the edited file is analyzed
+        const result = await new CodeAnalyzer().analyzeProject('/', createDefaultConfig('/'), {
+            project: createInMemoryProject(files),
+            files: ['/src/pairs.ts'],
+            baseline
+        });
+
+        const fixed = baseline.entries.filter(entry => entry.file === 'src/pairs.ts');
+        expect(fixed.length).toBeGreaterThan(0);
+        expect(result.baseline).toMatchObject({ baselined: 0, fixed: fixed.length });
+    });
+});
@@ -0,0 +1,130 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Issue } from './Issue.js';
+import { toPosix } from '../utils/glob.js';
+
+const BASELINE_VERSION = 1;
+
+export interface BaselineEntry {
+    fingerprint: string;
+    ruleId: string;
+    file: string;
+    message: string;
+}
+
+interface BaselineFile {
+    version: number;
+    entries: BaselineEntry[];
+}
+
+// Tracks which baseline entries have been seen during one analysis run.
+// Entries are a multiset: two identical findings need two entries.
+export class BaselineMatcher {
+    private remaining: Map<string, number>;
+    // The fingerprint includes the file, so identical entries share one
+    private files: Map<string, string>;
+    private matchedCount = 0;
+
+    constructor(entries: BaselineEntry[]) {
+        this.remaining = new Map();
+        this.files = new Map();
+        for (const entry of entries) {
+            this.remaining.set(entry.fingerprint, (this.remaining.get(entry.fingerprint) ?? 0) + 1);
+            this.files.set(entry.fingerprint, entry.file);
+        }
+    }
+
+    // Returns only the issues that are not covered by the baseline
+    public filter(issues: Issue[]): Issue[] {
+        return issues.filter(issue => {
+            const count = issue.fingerprint ? this.remaining.get(issue.fingerprint) ?? 0 : 0;
+            if (count === 0) {
+                return true;
+            }
+            this.remaining.set(issue.fingerprint!, count - 1);
+            this.matchedCount++;
+            return false;
+        });
+    }
+
+    public get matched(): number {
+        return this.matchedCount;
+    }
+
+    // Baseline entries that no current finding matched, i.e. fixed issues.
+    // Pass the analyzed files (relative to the root) when only some were
+    // analyzed; entries in other files were not checked and are not fixed.
+    public countUnmatched(isAnalyzed: (file: string) => boolean = () => true): number {
+        let total = 0;
+        this.remaining.forEach((count, fingerprint) => {
+            if (isAnalyzed(this.files.get(fingerprint)!)) total += count;
+        });
+        return total;
+    }
+}
+
+export class Baseline {
+    constructor(public readonly filePath: string, public readonly entries: BaselineEntry[]) {}
+
+    public static async load(filePath: string): Promise<Baseline> {
+        let content: BaselineFile;
+        try {
+            content = JSON.parse(await fs.readFile(filePath, 'utf8'));
+        } catch (error) {
+            throw new Error(`Cannot read baseline ${filePath}: ${error instanceof Error ? error.message : error}`);
+        }
+
+        if (content.version !== BASELINE_VERSION || !Array.isArray(content.entries)) {
+            throw new Error(`Unsupported baseline format in ${filePath}; recreate it with "tsa baseline create"`);
+        }
+
+        return new Baseline(filePath, content.entries);
+    }
+
+    public static fromIssues(filePath: string, issues: Issue[], rootDir: string): Baseline {
+        const entries = issues
+            .filter(issue => issue.fingerprint)
+            .map(issue => ({
+                fingerprint: issue.fingerprint!,
+                ruleId: issue.ruleId,
+                file: toPosix(path.relative(rootDir, issue.file)),
+                message: issue.message
+            }));
+        return new Baseline(filePath, entries);
+    }
+
+    public createMatcher(): BaselineMatcher {
+        return new BaselineMatcher(this.entries);
+    }
+
+    // Drops entries that no longer match a current finding. Never adds new ones.
+    public prune(issues: Issue[]): Baseline {
+        const available = new Map<string, number>();
+        for (const issue of issues) {
+            if (issue.fingerprint) {
+                available.set(issue.fingerprint, (available.get(issue.fingerprint) ?? 0) + 1);
+            }
+        }
+
+        const kept = this.entries.filter(entry => {
+            const count = available.get(entry.fingerprint) ?? 0;
+            if (count === 0) return false;
+            available.set(entry.fingerprint, count - 1);
+            return true;
+        });
+
+        return new Baseline(this.filePath, kept);
+    }
+
+    public async save(): Promise<void> {
+        // Sorted so that the committed file produces small, readable diffs
+        const entries = [...this.entries].sort((a, b) =>
+            a.file.localeCompare(b.file) ||
+            a.ruleId.localeCompare(b.ruleId) ||
+            a.fingerprint.localeCompare(b.fingerprint)
+        );
+        const content: BaselineFile = { version: BASELINE_VERSION, entries };
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(this.filePath, JSON.stringify(content, null, 2) + '\n');
+    }
+}
@@ -0,0 +1,176 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { AnalysisResult, CodeAnalyzer, collectIssues } from './CodeAnalyzer.js';
+import { createDefaultConfig, loadConfig } from '../config/loader.js';
+
+const nestedLoops = [
+    'export function pairs(items: number[]) {',
+    '    for (const a of items) {',
+    '        for (const b of items) {',
+    '            console.log(a, b);',
+    '        }',
+    '    }',
+    '}',
+    ''
+].join('\n');
+
+describe('CodeAnalyzer.analyzeSources', () => {
+    it('analyzes files that only exist in memory', async () => {
+        const result = await new CodeAnalyzer().analyzeSources({ 'src/pairs.ts': nestedLoops });
+
+        expect(result.summary.analyzedFiles).toBe(1);
+        expect(collectIssues(result)).toContainEqual(expect.objectContaining({
+            ruleId: 'perf/nested-loop',
+            file: '/src/pairs.ts',
+            startLine: 3
+        }));
+    });
+
+    it('resolves relative imports between the given files', async () => {
+        const result = await new CodeAnalyzer().analyzeSources({
+            'src/a.ts': "import { b } from './b';\nexport const a = () => b();\n",
+            'src/b.ts': "import { a } from './a';\nexport const b = () => a();\n"
+        });
+
+        expect(result.dependencies?.circularDependencies).toHaveLength(1);
+    });
+
+    it('applies the given config', async () => {
+        const config = createDefaultConfig('/');
+        config.rules = { 'perf/nested-loop': 'off' };
+        const result = await new CodeAnalyzer().analyzeSources({ 'src/pairs.ts': nestedLoops }, { config });
+
+        expect(collectIssues(result).map(issue => issue.ruleId)).not.toContain('perf/nested-loop');
+    });
+
+    it('rejects an empty file set', async () => {
+        await expect(new CodeAnalyzer().analyzeSources({})).rejects.toThrow('No source files given');
+    });
+});
+
+describe('CodeAnalyzer.analyzeProject in a workspace', () => {
+    let rootDir: string;
+
+    const tsconfig = JSON.stringify({
+        compilerOptions: { target: 'ES2022', module: 'ESNext', moduleResolution: 'bundler', strict: true },
+        include: ['src']
+    });
+
+    async function writeFiles(files: Record<string, string[]>) {
+        for (const [file, lines] of Object.entries(files)) {
+            await fs.mkdir(path.dirname(path.join(rootDir, file)), { recursive: true });
+            await fs.writeFile(path.join(rootDir, file), lines.join('\n') + '\n');
+        }
+    }
+
+    beforeEach(async () => {
+        rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tsa-workspace-'));
+        await writeFiles({
+            'package.json': [JSON.stringify({ name: 'root', private: true, workspaces: ['packages/*'] })],
+            'packages/a/package.json': [JSON.stringify({ name: 'a' })],
+            'packages/a/tsconfig.json': [tsconfig],
+            'packages/b/package.json': [JSON.stringify({ name: 'b' })],
+            'packages/b/tsconfig.json': [tsconfig]
+        });
+    });
+
+    afterEach(async () => {
+        await fs.rm(rootDir, { recursive: true, force: true });
+    });
+
+    async function analyze() {
+        const config = await loadConfig(rootDir);
+        config.cache.enabled = false;
+        return new CodeAnalyzer().analyzeProject(rootDir, config);
+    }
+
+    it('reports project rule findings in files imported by another package once', async () => {
+        await writeFiles({
+            'packages/b/src/cache.ts': [
+                'const cache = new Map<string, number>();',
+                'export function remember(key: string) { cache.set(key, Date.now()); }'
+            ],
+            'packages/a/src/main.ts': [
+                "import { remember } from '../../b/src/cache';",
+                "export function visit(page: string) { remember(page); }"
+            ]
+        });
+
+        const result = await analyze();
+
+        expect(collectIssues(result).filter(issue => issue.ruleId === 'memory/object-accumulation')).toEqual([
+            expect.objectContaining({ file: path.join(rootDir, 'packages/b/src/cache.ts'), startLine: 1 })
+        ]);
+        expect(result.packages?.find(pkg => pkg.name === 'b')?.summary.totalIssues).toBe(1);
+    });
+
+    it('reports a sync call in one package reached from a route in another once, as on the request path', async () => {
+        await writeFiles({
+            'packages/b/src/files.ts': [
+                "import fs from 'fs';",
+                "export function readTemplate(name: string) { return fs.readFileSync(name, 'utf8'); }",
+                'export async function warmUp() { readTemplate("index.html"); }'
+            ],
+            'packages/a/src/routes.ts': [
+                "import { readTemplate } from '../../b/src/files';",
+                'declare const app: { get(path: string, handler: (req: unknown, res: { send(body: string): void }) => void): void };',
+                "app.get('/', (req, res) => res.send(readTemplate('index.html')));"
+            ]
+        });
+
+        const result = await analyze();
+
+        expect(collectIssues(result).filter(issue => issue.ruleId === 'perf/blocking-sync-call')).toEqual([
+            expect.objectContaining({ file: path.join(rootDir, 'packages/b/src/files.ts'), startLine: 2, severity: 'high' })
+        ]);
+    });
+});
+
+describe('CodeAnalyzer.reanalyzeFiles', () => {
+    let projectDir: string;
+    const cacheFile = (lines: string[]) => fs.writeFile(path.join(projectDir, 'src/cache.ts'), lines.join('\n') + '\n');
+
+    beforeEach(async () => {
+        projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tsa-reanalyze-'));
+        await fs.mkdir(path.join(projectDir, 'src'));
+        await fs.writeFile(path.join(projectDir, 'tsconfig.json'), JSON.stringify({
+            compilerOptions: { target: 'ES2022', module: 'ESNext', moduleResolution: 'bundler', strict: true },
+            include: ['src']
+        }));
+        await fs.writeFile(path.join(projectDir, 'src/seen.ts'), [
+            'const seen = new Set<string>();',
+            'export function see(id: string) { seen.add(id); }',
+            ''
+        ].join('\n'));
+        await cacheFile([
+            'const cache = new Map<string, number>();',
+            'export function remember(key: string) { cache.set(key, Date.now()); }'
+        ]);
+    });
+
+    afterEach(async () => {
+        await fs.rm(projectDir, { recursive: true, force: true });
+    });
+
+    const accumulations = (result: AnalysisResult) => collectIssues(result)
+        .filter(issue => issue.ruleId === 'memory/object-accumulation')
+        .map(issue => path.basename(issue.file))
+        .sort();
+
+    it('can defer project rules, keeping their findings in unchanged files', async () => {
+        const config = await loadConfig(projectDir);
+        config.cache.enabled = false;
+        const analyzer = new CodeAnalyzer();
+        expect(accumulations(await analyzer.analyzeProject(projectDir, config))).toEqual(['cache.ts', 'seen.ts']);
+
+        await cacheFile([
+            '// Session cache',
+            'const cache = new Map<string, number>();',
+            'export function remember(key: string) { cache.set(key, Date.now()); }'
+        ]);
+        const changed = [path.join(projectDir, 'src/cache.ts')];
+        expect(accumulations(await analyzer.reanalyzeFiles(changed, { projectRules: false }))).toEqual(['seen.ts']);
+        expect(accumulations(await analyzer.reanalyzeFiles([]))).toEqual(['cache.ts', 'seen.ts']);
+    });
+});
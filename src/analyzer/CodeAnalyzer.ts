@@ -1,36 +1,44 @@
-import { Project, SourceFile } from 'ts-morph';
-import { PerformanceAnalyzer } from './PerformanceAnalyzer.js';
-import { MemoryLeakDetector } from './MemoryLeakDetector.js';
-import { DependencyAnalyzer } from './DependencyAnalyzer.js';
+import { CompilerOptions, Project, SourceFile } from 'ts-morph';
+import { PerformanceAnalysisResult, PerformanceAnalyzer } from './PerformanceAnalyzer.js';
+import { MemoryAnalysisResult, MemoryLeakDetector } from './MemoryLeakDetector.js';
+import { DependencyAnalysisResult, DependencyAnalyzer, FileImport } from './DependencyAnalyzer.js';
+import { AnalysisCache, CacheStats } from './AnalysisCache.js';
+import { analyzeSourceFile, FileAnalysis } from './fileAnalysis.js';
+import { canUseWorkers, runInWorkers, WorkerResult, WorkerTask } from './parallel.js';
+import { createInMemoryProject, createProject } from './project.js';
+import { discoverPackages, WorkspacePackage } from './workspaces.js';
+import { Issue, RuleCategory, Severity } from './Issue.js';
+import { SuppressedIssue, Suppressions } from './Suppressions.js';
+import { Baseline } from './Baseline.js';
+import { fingerprintIssues, SourceFileLookup } from './fingerprint.js';
 import logger from '../utils/logger.js';
+import { createDefaultConfig, ResolvedConfig } from '../config/loader.js';
+import { loadRules } from '../rules/loadPlugins.js';
+import { ConfiguredRule } from '../rules/RuleRegistry.js';
+import { Rule } from '../rules/types.js';
+import { createPathMatcher, toPosix } from '../utils/glob.js';
 import path from 'path';
 import fs from 'fs';
 
-interface AnalysisResult {
-    performance: {
-        issues: any[];
-        recommendations: string[];
-        metrics: {
-            cyclomaticComplexity: number;
-            maintainabilityIndex: number;
-            linesOfCode: number;
-        };
-    };
-    memoryLeaks: {
-        potentialLeaks: any[];
-        severity: 'low' | 'medium' | 'high';
-        suggestions: string[];
+export interface AnalysisResult {
+    performance?: PerformanceAnalysisResult;
+    memoryLeaks?: MemoryAnalysisResult;
+    dependencies?: DependencyAnalysisResult;
+    suppressions: {
+        suppressed: SuppressedIssue[];
+        unused: Issue[];
     };
-    dependencies: {
-        graph: any;
-        circularDependencies: string[][];
-        metrics: {
-            totalFiles: number;
-            averageDependencies: number;
-            maxDependencies: number;
-        };
+    baseline?: {
+        file: string;
+        // Findings hidden because they are recorded in the baseline
+        baselined: number;
+        // Baseline entries with no matching finding, removable with "tsa baseline prune"
+        fixed: number;
     };
+    // Per-package breakdown, present when a monorepo was analyzed
+    packages?: PackageResult[];
     summary: {
+        analyzedFiles: number;
         totalIssues: number;
         criticalIssues: number;
         overallHealth: 'good' | 'moderate' | 'poor';
@@ -38,66 +46,663 @@ interface AnalysisResult {
     };
 }
 
+export interface PackageResult {
+    name: string;
+    // Relative to the config root
+    dir: string;
+    tsconfig: string;
+    // Other workspace packages this package imports from
+    dependencies: string[];
+    metrics?: {
+        cyclomaticComplexity: number;
+        maintainabilityIndex: number;
+        linesOfCode: number;
+    };
+    summary: AnalysisResult['summary'];
+}
+
+export interface AnalyzeProjectOptions {
+    // Report only findings that are not recorded in this baseline
+    baseline?: Baseline;
+    // Absolute paths to restrict per-file analysis to (e.g. files changed in git).
+    // The dependency graph still covers the whole project.
+    files?: string[];
+    // Number of worker threads for per-file analysis; 1 runs in this thread
+    jobs?: number;
+    // Analyze this ts-morph project instead of building one from tsconfig.json,
+    // e.g. one from createInMemoryProject(). Workspace discovery, the on-disk
+    // cache and worker threads are not used.
+    project?: Project;
+}
+
+export interface AnalyzeSourcesOptions {
+    // Merged over the in-memory defaults (ES2022, ESNext modules, bundler resolution, strict)
+    compilerOptions?: CompilerOptions;
+    // Defaults to createDefaultConfig('/')
+    config?: ResolvedConfig;
+    baseline?: Baseline;
+}
+
+const SEVERITY_RANK: Record<Severity, number> = { low: 0, medium: 1, high: 2 };
+
+type AnalyzerResults = Omit<AnalysisResult, 'suppressions' | 'baseline' | 'summary' | 'packages'>;
+
+// One TypeScript project of a run; a monorepo has one per package
+interface PackageContext extends WorkspacePackage {
+    project: Project;
+}
+
+// State kept between analyzeProject() and reanalyzeFiles()
+interface AnalysisSession {
+    config: ResolvedConfig;
+    options: AnalyzeProjectOptions;
+    rules: ConfiguredRule[];
+    // Config the package projects are built with; in a monorepo "include"
+    // selects files across packages instead of replacing their tsconfig
+    projectConfig: ResolvedConfig;
+    packages: PackageContext[];
+    isWorkspace: boolean;
+    // The package each file is analyzed in. A file can appear in several
+    // projects (e.g. through imports) but is only analyzed once.
+    owners: Map<string, PackageContext>;
+    focus: Set<string> | null;
+    files: Map<string, FileAnalysis>;
+    cache: AnalysisCache | null;
+    // Results computed ahead of time by worker threads, consumed once
+    workerResults: Map<string, WorkerResult> | null;
+    // Findings of project-level rule hooks from the last run that ran them
+    projectIssues: { performance: Issue[]; memory: Issue[] } | null;
+}
+
+export interface ReanalyzeOptions {
+    // Re-run project-level rule hooks, which walk the whole project. When
+    // false the findings of the last run are kept, except in changed files.
+    projectRules?: boolean;
+}
+
+// Every finding in a result, in report order
+export function collectIssues(result: AnalysisResult): Issue[] {
+    return [
+        ...(result.performance?.issues ?? []),
+        ...(result.memoryLeaks?.potentialLeaks ?? []),
+        ...(result.dependencies?.issues ?? []),
+        ...result.suppressions.unused
+    ];
+}
+
+// Keeps the state of its last run for reanalyzeFiles(), so one instance
+// must not run several analyses at the same time
 export class CodeAnalyzer {
-    private project: Project;
     private performanceAnalyzer: PerformanceAnalyzer;
     private memoryLeakDetector: MemoryLeakDetector;
     private dependencyAnalyzer: DependencyAnalyzer;
+    private session: AnalysisSession | null = null;
 
     constructor() {
-        this.project = new Project();
         this.performanceAnalyzer = new PerformanceAnalyzer();
         this.memoryLeakDetector = new MemoryLeakDetector();
         this.dependencyAnalyzer = new DependencyAnalyzer();
     }
 
-    public async analyzeProject(projectPath: string): Promise<AnalysisResult> {
+    public async analyzeProject(
+        projectPath: string,
+        config: ResolvedConfig = createDefaultConfig(projectPath),
+        options: AnalyzeProjectOptions = {}
+    ): Promise<AnalysisResult> {
         try {
             // Validate project path
-            if (!fs.existsSync(projectPath)) {
+            if (!options.project && !fs.existsSync(projectPath)) {
                 throw new Error(`Project path does not exist: ${projectPath}`);
             }
 
             // Find tsconfig.json
-            const tsconfigPath = this.findTsConfig(projectPath);
-            if (!tsconfigPath) {
-                throw new Error('No tsconfig.json found in project');
+            let tsconfigPath: string | null = null;
+            let workspacePackages: WorkspacePackage[] = [];
+            if (!options.project) {
+                tsconfigPath = config.tsconfig
+                    ? path.resolve(config.rootDir, config.tsconfig)
+                    : this.findTsConfig(projectPath);
+                if (config.tsconfig && !fs.existsSync(tsconfigPath!)) {
+                    throw new Error(`tsconfig not found: ${tsconfigPath}`);
+                }
+
+                // Monorepo packages (workspaces or project references)
+                workspacePackages = config.workspaces ? discoverPackages(projectPath, tsconfigPath) : [];
+                if (workspacePackages.length === 0 && (!tsconfigPath || !fs.existsSync(tsconfigPath))) {
+                    throw new Error('No tsconfig.json found in project');
+                }
             }
 
-            logger.info(`Using tsconfig from: ${tsconfigPath}`);
-            this.project = new Project({
-                tsConfigFilePath: tsconfigPath
-            });
+            const rules = await loadRules(config);
+            logger.info(`Loaded ${rules.length} rules`);
 
-            // Run all analyzers
-            logger.info('Starting performance analysis...');
-            const performanceResults = await this.performanceAnalyzer.analyze(this.project);
+            const isWorkspace = workspacePackages.length > 0;
+            const session: AnalysisSession = {
+                config,
+                options,
+                rules,
+                projectConfig: isWorkspace ? { ...config, include: [] } : config,
+                packages: [],
+                isWorkspace,
+                owners: new Map(),
+                focus: options.files
+                    ? new Set(options.files.map(file => toPosix(path.resolve(file))))
+                    : null,
+                files: new Map(),
+                cache: null,
+                workerResults: null,
+                projectIssues: null
+            };
+            this.session = session;
 
-            logger.info('Starting memory leak detection...');
-            const memoryResults = await this.memoryLeakDetector.detect(this.project);
+            if (options.project) {
+                session.packages = [{ name: path.basename(projectPath), dir: projectPath, tsconfigPath: '', project: options.project }];
+            } else if (isWorkspace) {
+                logger.info(`Found ${workspacePackages.length} packages: ${workspacePackages.map(pkg => pkg.name).join(', ')}`);
+                session.packages = this.createPackages(session, workspacePackages);
+            } else {
+                session.packages = this.createPackages(session, [
+                    { name: path.basename(path.dirname(tsconfigPath!)), dir: path.dirname(tsconfigPath!), tsconfigPath: tsconfigPath! }
+                ]);
+            }
+            this.assignOwners(session);
 
-            logger.info('Starting dependency analysis...');
-            const dependencyResults = await this.dependencyAnalyzer.analyze(this.project);
+            // A caller-supplied project may not exist on disk
+            if (config.cache.enabled && !options.project) {
+                session.cache = await AnalysisCache.load(config, rules, session.packages.map(pkg => pkg.project));
+            }
 
-            // Generate summary
-            const summary = this.generateSummary({
-                performance: performanceResults,
-                memoryLeaks: memoryResults,
-                dependencies: dependencyResults
-            });
+            const sourceFiles = this.getSourceFiles(session);
+            if (session.focus) {
+                logger.info(`Restricting analysis to ${sourceFiles.length} of ${session.owners.size} files`);
+            }
 
-            return {
-                performance: performanceResults,
-                memoryLeaks: memoryResults,
-                dependencies: dependencyResults,
-                summary
-            };
+            if (options.jobs && options.jobs > 1 && (options.project || !canUseWorkers())) {
+                logger.warn(options.project
+                    ? 'Worker threads cannot share a caller-supplied project; analyzing in a single thread'
+                    : 'Worker threads need the compiled CLI; analyzing in a single thread');
+            } else if (options.jobs && options.jobs > 1) {
+                session.workerResults = await this.runWorkers(session, sourceFiles, options.jobs);
+            }
+
+            // Run per-file analyzers; results are added in project order so
+            // the report is the same however the work was scheduled
+            logger.info(`Analyzing ${sourceFiles.length} files...`);
+            for (const sourceFile of sourceFiles) {
+                session.files.set(sourceFile.getFilePath(), this.analyzeFile(sourceFile, session));
+            }
+
+            if (config.analysis.dependencies) {
+                logger.info('Starting dependency analysis...');
+                // One graph across all packages, so cross-package imports are edges too
+                this.dependencyAnalyzer.buildDependencyGraph(this.getOwnedFiles(session), sourceFile => this.collectImports(sourceFile, session));
+            }
+
+            session.workerResults = null;
+
+            if (session.cache) {
+                const { hits, misses } = session.cache.stats;
+                logger.info(`Analysis cache: ${hits} hits, ${misses} misses`);
+                session.cache.retain(new Set(session.owners.keys()));
+                await session.cache.save();
+            }
+
+            return this.assemble(session);
         } catch (error) {
             logger.error('Analysis failed:', error);
             throw error;
         }
     }
 
+    // Analyzes source text that only exists in memory, keyed by virtual file
+    // name. Relative names are placed under "/", so "src/a.ts" is reported as
+    // "/src/a.ts" and may be imported from "/src/b.ts" as "./a".
+    public async analyzeSources(files: Record<string, string>, options: AnalyzeSourcesOptions = {}): Promise<AnalysisResult> {
+        const entries = Object.entries(files);
+        if (entries.length === 0) {
+            throw new Error('No source files given');
+        }
+
+        const sources: Record<string, string> = {};
+        for (const [name, text] of entries) {
+            sources[path.posix.resolve('/', toPosix(name))] = text;
+        }
+
+        const project = createInMemoryProject(sources, options.compilerOptions);
+        const config = options.config ?? createDefaultConfig('/');
+        return this.analyzeProject('/', config, { project, baseline: options.baseline });
+    }
+
+    // Re-reads the given files from disk and re-runs the per-file analyzers
+    // on them and on the files importing them, directly or indirectly, since
+    // type-aware rules depend on imported declarations. The dependency graph
+    // is updated in place. Files that no longer exist are dropped. Requires
+    // a previous analyzeProject() call.
+    public async reanalyzeFiles(filePaths: string[], options: ReanalyzeOptions = {}): Promise<AnalysisResult> {
+        const session = this.session;
+        if (!session) {
+            throw new Error('reanalyzeFiles() called before analyzeProject()');
+        }
+
+        const changed = new Set(filePaths.map(file => toPosix(path.resolve(file))));
+        if (options.projectRules === false && session.projectIssues) {
+            // Positions of findings in changed files may be out of date
+            const isCurrent = (issue: Issue) => !changed.has(issue.file);
+            session.projectIssues = {
+                performance: session.projectIssues.performance.filter(isCurrent),
+                memory: session.projectIssues.memory.filter(isCurrent)
+            };
+        } else {
+            session.projectIssues = null;
+        }
+
+        const dependents = new Set<string>();
+        for (const filePath of changed) {
+            const copies = session.packages
+                .map(pkg => pkg.project.getSourceFile(filePath))
+                .filter((sourceFile): sourceFile is SourceFile => sourceFile !== undefined);
+
+            if (!fs.existsSync(filePath)) {
+                copies.forEach(sourceFile => this.collectDependents(sourceFile, dependents));
+                copies.forEach(sourceFile => sourceFile.getProject().removeSourceFile(sourceFile));
+                session.owners.delete(filePath);
+                session.files.delete(filePath);
+                this.dependencyAnalyzer.removeFile(filePath);
+                continue;
+            }
+
+            // Refresh every project that has the file, so types stay current
+            for (const sourceFile of copies) {
+                await sourceFile.refreshFromFileSystem();
+            }
+
+            let owner = session.owners.get(filePath);
+            if (!owner) {
+                owner = this.findOwnerForNewFile(filePath, session);
+                if (!owner) continue;
+                owner.project.addSourceFileAtPath(filePath);
+                session.owners.set(filePath, owner);
+            }
+            const sourceFile = owner.project.getSourceFileOrThrow(filePath);
+            // Importers in other packages only show up in their projects' copies
+            [sourceFile, ...copies].forEach(copy => this.collectDependents(copy, dependents));
+
+            if (!session.focus || session.focus.has(filePath)) {
+                session.files.set(filePath, this.analyzeFile(sourceFile, session));
+            }
+            if (session.config.analysis.dependencies) {
+                this.dependencyAnalyzer.setImports(filePath, this.collectImports(sourceFile, session));
+            }
+        }
+
+        for (const filePath of dependents) {
+            const owner = session.owners.get(filePath);
+            if (changed.has(filePath) || !owner || (session.focus && !session.focus.has(filePath))) continue;
+            session.files.set(filePath, this.analyzeFile(owner.project.getSourceFileOrThrow(filePath), session));
+        }
+
+        await session.cache?.save();
+        return this.assemble(session);
+    }
+
+    private collectDependents(sourceFile: SourceFile, dependents: Set<string>) {
+        for (const dependent of sourceFile.getReferencingSourceFiles()) {
+            if (!dependents.has(dependent.getFilePath())) {
+                dependents.add(dependent.getFilePath());
+                this.collectDependents(dependent, dependents);
+            }
+        }
+    }
+
+    // Hits and misses of the on-disk cache in the last analysis, or null
+    // when caching is disabled
+    public getCacheStats(): CacheStats | null {
+        return this.session?.cache?.stats ?? null;
+    }
+
+    private createPackages(session: AnalysisSession, packages: WorkspacePackage[]): PackageContext[] {
+        return packages.map(pkg => {
+            logger.info(`Using tsconfig from: ${pkg.tsconfigPath}`);
+            return { ...pkg, project: createProject(pkg.tsconfigPath, session.projectConfig) };
+        });
+    }
+
+    // Decides which package analyzes each file: a file inside a package
+    // directory belongs to that package (the deepest one for nested
+    // packages), any other file to the first project that contains it
+    private assignOwners(session: AnalysisSession) {
+        const { config } = session;
+        const isIncluded = session.isWorkspace && config.include.length > 0
+            ? createPathMatcher(config.include, config.rootDir)
+            : () => true;
+
+        for (const pkg of session.packages) {
+            for (const sourceFile of pkg.project.getSourceFiles()) {
+                const filePath = sourceFile.getFilePath();
+                if (session.owners.has(filePath) || !isIncluded(filePath)) continue;
+                const home = this.findPackageByDirectory(session, filePath);
+                session.owners.set(filePath, home?.project.getSourceFile(filePath) ? home : pkg);
+            }
+        }
+    }
+
+    private findPackageByDirectory(session: AnalysisSession, filePath: string): PackageContext | undefined {
+        let best: PackageContext | undefined;
+        for (const pkg of session.packages) {
+            const relative = path.relative(pkg.dir, filePath);
+            if (!relative.startsWith('..') && !path.isAbsolute(relative) && (!best || pkg.dir.length > best.dir.length)) {
+                best = pkg;
+            }
+        }
+        return best;
+    }
+
+    private findPackage(session: AnalysisSession, filePath: string): PackageContext | undefined {
+        return session.owners.get(filePath) ?? this.findPackageByDirectory(session, filePath);
+    }
+
+    // Files analyzed in this run, in project order
+    private getOwnedFiles(session: AnalysisSession, pkg?: PackageContext): SourceFile[] {
+        return (pkg ? [pkg] : session.packages).flatMap(current => current.project
+            .getSourceFiles()
+            .filter(sourceFile => session.owners.get(sourceFile.getFilePath()) === current));
+    }
+
+    private getSourceFiles(session: AnalysisSession, pkg?: PackageContext): SourceFile[] {
+        const focus = session.focus;
+        const files = this.getOwnedFiles(session, pkg);
+        return focus
+            ? files.filter(sourceFile => focus.has(sourceFile.getFilePath()))
+            : files;
+    }
+
+    private createLookup(session: AnalysisSession): SourceFileLookup {
+        return {
+            getSourceFile: (filePath: string) => this.findPackage(session, filePath)?.project.getSourceFile(filePath)
+        };
+    }
+
+    private analyzeFile(sourceFile: SourceFile, session: AnalysisSession): FileAnalysis {
+        const cached = session.cache?.getAnalysis(sourceFile);
+        if (cached) {
+            return cached;
+        }
+
+        const analysis = session.workerResults?.get(sourceFile.getFilePath())?.analysis
+            ?? analyzeSourceFile(sourceFile, sourceFile.getProject(), session.config, session.rules);
+        session.cache?.setAnalysis(sourceFile, analysis);
+        return analysis;
+    }
+
+    private collectImports(sourceFile: SourceFile, session: AnalysisSession): FileImport[] {
+        // Imports that did not resolve to a project file are stored as plain
+        // paths; re-resolve when a file they may point at has been added since
+        const cached = session.cache?.getImports(sourceFile, imports =>
+            !imports.some(({ dependency }) => this.isNowResolvable(dependency, session)));
+        if (cached) {
+            return cached;
+        }
+
+        const imports = session.workerResults?.get(sourceFile.getFilePath())?.imports
+            ?? this.dependencyAnalyzer.collectImports(sourceFile);
+        session.cache?.setImports(sourceFile, imports);
+        return imports;
+    }
+
+    private isNowResolvable(dependency: string, session: AnalysisSession): boolean {
+        if (!path.isAbsolute(dependency) || session.owners.has(dependency)) {
+            return false;
+        }
+        const base = dependency.replace(/\.[mc]?jsx?$/, '');
+        return ['.ts', '.tsx', '.mts', '.cts', '/index.ts', '/index.tsx']
+            .some(extension => session.owners.has(base + extension));
+    }
+
+    // Hands the files that are not cached to worker threads, package by package
+    private async runWorkers(session: AnalysisSession, sourceFiles: SourceFile[], jobs: number): Promise<Map<string, WorkerResult>> {
+        const { config, cache } = session;
+        const analyzed = new Set(sourceFiles);
+        const results = new Map<string, WorkerResult>();
+
+        for (const pkg of session.packages) {
+            const tasks: WorkerTask[] = [];
+            for (const sourceFile of this.getOwnedFiles(session, pkg)) {
+                const analyze = analyzed.has(sourceFile) && !cache?.has(sourceFile, 'analysis');
+                const imports = config.analysis.dependencies && !cache?.has(sourceFile, 'imports');
+                if (analyze || imports) {
+                    tasks.push({
+                        filePath: sourceFile.getFilePath(),
+                        analyze,
+                        imports,
+                        size: sourceFile.getEnd()
+                    });
+                }
+            }
+
+            if (tasks.length > 0) {
+                const packageResults = await runInWorkers(tasks, session.projectConfig, pkg.tsconfigPath, jobs);
+                packageResults.forEach((result, filePath) => results.set(filePath, result));
+            }
+        }
+
+        return results;
+    }
+
+    // Combines per-file results with project-level passes into the final result
+    private assemble(session: AnalysisSession): AnalysisResult {
+        const { config, options, rules, focus } = session;
+        const fileResults = Array.from(session.files.values());
+        const lookup = this.createLookup(session);
+        let results: AnalyzerResults = {};
+
+        session.projectIssues ??= {
+            performance: config.analysis.performance
+                ? this.runProjectRules(session, project => this.performanceAnalyzer.analyzeProjectRules(project, rules))
+                : [],
+            memory: config.analysis.memory
+                ? this.runProjectRules(session, project => this.memoryLeakDetector.detectProjectRules(project, rules))
+                : []
+        };
+
+        if (config.analysis.performance) {
+            results.performance = this.performanceAnalyzer.summarize(
+                fileResults.map(fileResult => fileResult.performance!),
+                session.projectIssues.performance
+            );
+        }
+
+        if (config.analysis.memory) {
+            results.memoryLeaks = this.memoryLeakDetector.summarize([
+                ...fileResults.flatMap(fileResult => fileResult.memoryLeaks!),
+                ...session.projectIssues.memory
+            ]);
+        }
+
+        if (config.analysis.dependencies) {
+            results.dependencies = this.dependencyAnalyzer.report(rules, session.packages.map(pkg => ({
+                project: pkg.project,
+                sourceFiles: this.getSourceFiles(session, pkg)
+            })));
+        }
+
+        // Project-level rule hooks may report anywhere; keep only the analyzed
+        // files. Cycles are already limited to those passing through one.
+        results = this.filterIssues(results, issues => issues.filter(issue =>
+            issue.ruleId === 'deps/circular-dependency' ||
+            (focus ? focus.has(issue.file) : session.owners.has(issue.file))
+        ));
+
+        results = this.filterIssues(results, issues => fingerprintIssues(issues, lookup, config.rootDir));
+
+        // Apply inline tsa-disable comments
+        const suppressions = Suppressions.fromSourceFiles(this.getOwnedFiles(session));
+        const suppressed: SuppressedIssue[] = [];
+        results = this.filterIssues(results, issues => {
+            const applied = suppressions.apply(issues);
+            suppressed.push(...applied.suppressed);
+            return applied.issues;
+        });
+        let unused = config.suppressions.reportUnused
+            ? fingerprintIssues(
+                suppressions.getUnused(this.getActiveRuleIds(config, rules.map(({ rule }) => rule)))
+                    .filter(issue => !focus || focus.has(issue.file)),
+                lookup,
+                config.rootDir
+            )
+            : [];
+
+        // Hide findings recorded in the baseline
+        let baseline: AnalysisResult['baseline'];
+        if (options.baseline) {
+            const matcher = options.baseline.createMatcher();
+            results = this.filterIssues(results, issues => matcher.filter(issues));
+            unused = matcher.filter(unused);
+            baseline = {
+                file: options.baseline.filePath,
+                baselined: matcher.matched,
+                fixed: matcher.countUnmatched(focus
+                    ? file => focus.has(toPosix(path.resolve(config.rootDir, file)))
+                    : undefined)
+            };
+            logger.info(`Baseline hid ${matcher.matched} known issues`);
+        }
+
+        const issues = [
+            ...(results.performance?.issues ?? []),
+            ...(results.memoryLeaks?.potentialLeaks ?? []),
+            ...(results.dependencies?.issues ?? []),
+            ...unused
+        ];
+
+        return {
+            ...results,
+            suppressions: { suppressed, unused },
+            ...(baseline && { baseline }),
+            ...(session.isWorkspace && { packages: this.summarizePackages(session, results, issues) }),
+            summary: this.generateSummary(issues, session.files.size)
+        };
+    }
+
+    // A file imported from a sibling package is part of both package projects,
+    // so project-level hooks can report it once per package. Keep one finding
+    // per rule and location: the most severe, since the importing package may
+    // see callers, such as route handlers, that the file's own package does not.
+    private runProjectRules(session: AnalysisSession, run: (project: Project) => Issue[]): Issue[] {
+        const found = new Map<string, Issue>();
+        for (const pkg of session.packages) {
+            for (const issue of run(pkg.project)) {
+                const key = [issue.ruleId, issue.file, issue.startLine, issue.startColumn].join(':');
+                const existing = found.get(key);
+                if (!existing || SEVERITY_RANK[issue.severity] > SEVERITY_RANK[existing.severity]) {
+                    found.set(key, issue);
+                }
+            }
+        }
+        return Array.from(found.values());
+    }
+
+    private summarizePackages(session: AnalysisSession, results: AnalyzerResults, issues: Issue[]): PackageResult[] {
+        const graph = results.dependencies?.graph ?? [];
+
+        return session.packages.map(pkg => {
+            const belongs = (filePath: string) => this.findPackage(session, filePath) === pkg;
+            const fileResults = Array.from(session.files.entries())
+                .filter(([filePath]) => belongs(filePath))
+                .map(([, fileResult]) => fileResult);
+
+            const dependencies = new Set<string>();
+            for (const node of graph.filter(node => belongs(node.id))) {
+                for (const dependency of node.dependencies) {
+                    const target = this.findPackage(session, dependency);
+                    if (target && target !== pkg) {
+                        dependencies.add(target.name);
+                    }
+                }
+            }
+
+            const metrics = session.config.analysis.performance && fileResults.length > 0
+                ? this.performanceAnalyzer.summarize(fileResults.map(fileResult => fileResult.performance!)).metrics
+                : undefined;
+
+            return {
+                name: pkg.name,
+                dir: toPosix(path.relative(session.config.rootDir, pkg.dir)) || '.',
+                tsconfig: toPosix(path.relative(session.config.rootDir, pkg.tsconfigPath)),
+                dependencies: Array.from(dependencies).sort(),
+                ...(metrics && {
+                    metrics: {
+                        cyclomaticComplexity: metrics.cyclomaticComplexity,
+                        maintainabilityIndex: metrics.maintainabilityIndex,
+                        linesOfCode: metrics.linesOfCode
+                    }
+                }),
+                summary: this.generateSummary(issues.filter(issue => belongs(issue.file)), fileResults.length)
+            };
+        });
+    }
+
+    // Whether watch mode should pick up a file that was not in any project,
+    // and if so the package it belongs to
+    private findOwnerForNewFile(filePath: string, session: AnalysisSession): PackageContext | undefined {
+        const { config } = session;
+        if (!/\.(ts|tsx|mts|cts)$/.test(filePath) || /\.d\.[mc]?ts$/.test(filePath) || filePath.includes('/node_modules/')) {
+            return undefined;
+        }
+        if (createPathMatcher(config.exclude, config.rootDir)(filePath)) {
+            return undefined;
+        }
+        if (config.include.length > 0) {
+            if (!createPathMatcher(config.include, config.rootDir)(filePath)) {
+                return undefined;
+            }
+            return this.findPackageByDirectory(session, filePath) ?? (session.isWorkspace ? undefined : session.packages[0]);
+        }
+        return this.findPackageByDirectory(session, filePath);
+    }
+
+    // Replaces the issues of every section and recomputes the values derived from them
+    private filterIssues(results: AnalyzerResults, filter: (issues: Issue[]) => Issue[]): AnalyzerResults {
+        const filtered: AnalyzerResults = {};
+
+        if (results.performance) {
+            const issues = filter(results.performance.issues);
+            filtered.performance = {
+                ...results.performance,
+                issues,
+                recommendations: this.performanceAnalyzer.generateRecommendations(issues)
+            };
+        }
+
+        if (results.memoryLeaks) {
+            const potentialLeaks = filter(results.memoryLeaks.potentialLeaks);
+            filtered.memoryLeaks = this.memoryLeakDetector.summarize(potentialLeaks);
+        }
+
+        if (results.dependencies) {
+            filtered.dependencies = {
+                ...results.dependencies,
+                issues: filter(results.dependencies.issues)
+            };
+        }
+
+        return filtered;
+    }
+
+    private getActiveRuleIds(config: ResolvedConfig, rules: Rule[]): Set<string> {
+        const enabled: Record<RuleCategory, boolean> = {
+            performance: config.analysis.performance,
+            memory: config.analysis.memory,
+            dependency: config.analysis.dependencies
+        };
+        const ruleIds = rules
+            .filter(rule => enabled[rule.meta.category])
+            .map(rule => rule.meta.id);
+        if (config.analysis.dependencies) {
+            ruleIds.push('deps/circular-dependency');
+        }
+        return new Set(ruleIds);
+    }
+
     private findTsConfig(projectPath: string): string | null {
         let currentPath = projectPath;
         while (currentPath !== path.parse(currentPath).root) {
@@ -110,14 +715,10 @@ export class CodeAnalyzer {
         return null;
     }
 
-    private generateSummary(results: Omit<AnalysisResult, 'summary'>): AnalysisResult['summary'] {
-        const totalIssues = 
-            results.performance.issues.length +
-            results.memoryLeaks.potentialLeaks.length;
+    private generateSummary(issues: Issue[], analyzedFiles: number): AnalysisResult['summary'] {
+        const totalIssues = issues.length;
 
-        const criticalIssues = 
-            results.performance.issues.filter(i => i.severity === 'high').length +
-            results.memoryLeaks.potentialLeaks.filter(i => i.severity === 'high').length;
+        const criticalIssues = issues.filter(i => i.severity === 'high').length;
 
         let overallHealth: 'good' | 'moderate' | 'poor' = 'good';
         if (criticalIssues > 0) {
@@ -127,6 +728,7 @@ export class CodeAnalyzer {
         }
 
         return {
+            analyzedFiles,
             totalIssues,
             criticalIssues,
             overallHealth,
@@ -1,15 +1,35 @@
 import { Project, SourceFile } from 'ts-morph';
 import logger from '../utils/logger.js';
+import { createIssue, Issue } from './Issue.js';
+import { ConfiguredRule } from '../rules/RuleRegistry.js';
+import { RuleRunner } from '../rules/RuleRunner.js';
 import path from 'path';
+import fs from 'fs';
+
+// An import of one project file by another, kept as plain data so the graph
+// can be updated file by file without holding on to AST nodes
+export interface FileImport {
+    dependency: string;
+    issue: Issue;
+}
 
 interface DependencyNode {
     name: string;
     dependencies: string[];
     weight: number;
+    // Prepared cycle issue located at the import of each dependency
+    imports: Map<string, Issue>;
+}
+
+// Files to run dependency rules on, together with the project they belong to
+export interface RuleScope {
+    project: Project;
+    sourceFiles: SourceFile[];
 }
 
-interface DependencyAnalysisResult {
-    graph: any;
+export interface DependencyAnalysisResult {
+    graph: Array<{ id: string; dependencies: string[]; weight: number }>;
+    issues: Issue[];
     circularDependencies: string[][];
     metrics: {
         totalFiles: number;
@@ -25,45 +45,110 @@ export class DependencyAnalyzer {
         this.dependencyGraph = new Map();
     }
 
-    public async analyze(project: Project): Promise<DependencyAnalysisResult> {
-        logger.info('Building dependency graph...');
-        this.buildDependencyGraph(project);
-        
+    public setImports(filePath: string, imports: FileImport[]): void {
+        const importMap = new Map(imports.map(({ dependency, issue }) => [dependency, issue]));
+        const dependencies = Array.from(importMap.keys());
+        this.dependencyGraph.set(filePath, {
+            name: filePath,
+            dependencies: dependencies,
+            weight: dependencies.length,
+            imports: importMap
+        });
+    }
+
+    public removeFile(filePath: string): void {
+        this.dependencyGraph.delete(filePath);
+    }
+
+    // Cycles, metrics and dependency rules for the current graph. The graph
+    // should cover the whole project so that cycles are complete, and may span
+    // several projects (monorepo packages); cycles are reported when they pass
+    // through a file of any scope, and rules only run on those files.
+    public report(rules: ConfiguredRule[], scopes: RuleScope[]): DependencyAnalysisResult {
         logger.info('Detecting circular dependencies...');
-        const circular = this.detectCircularDependencies();
+        const focus = new Set(scopes.flatMap(scope => scope.sourceFiles.map(sourceFile => sourceFile.getFilePath() as string)));
+        const circular = this.detectCircularDependencies()
+            .filter(cycle => cycle.some(file => focus.has(file)));
         
         logger.info('Calculating dependency metrics...');
         const metrics = this.calculateMetrics();
 
+        const issues = circular.map(cycle => this.createCycleIssue(cycle));
+        for (const { project, sourceFiles } of scopes) {
+            issues.push(...this.runRules(project, rules, sourceFiles));
+        }
+
         return {
             graph: this.exportGraph(),
+            issues,
             circularDependencies: circular,
             metrics
         };
     }
 
-    private buildDependencyGraph(project: Project) {
-        for (const sourceFile of project.getSourceFiles()) {
-            const filePath = sourceFile.getFilePath();
-            const imports = sourceFile.getImportDeclarations();
-            
-            const dependencies = imports.map(imp => {
-                const moduleSpecifier = imp.getModuleSpecifierValue();
-                return this.resolveModulePath(moduleSpecifier, filePath);
-            }).filter(dep => dep !== null) as string[];
-
-            this.dependencyGraph.set(filePath, {
-                name: filePath,
-                dependencies: dependencies,
-                weight: dependencies.length
-            });
+    // Plugin rules in the "dependency" category, e.g. layering constraints
+    private runRules(project: Project, rules: ConfiguredRule[], sourceFiles: SourceFile[]): Issue[] {
+        const runner = new RuleRunner(rules.filter(({ rule }) => rule.meta.category === 'dependency'));
+        const issues: Issue[] = [];
+        for (const sourceFile of sourceFiles) {
+            issues.push(...runner.runFile(sourceFile, project));
+        }
+        issues.push(...runner.runProject(project));
+        return issues;
+    }
+
+    // collect lets the caller supply import lists from elsewhere, e.g. a cache
+    public buildDependencyGraph(
+        sourceFiles: SourceFile[],
+        collect: (sourceFile: SourceFile) => FileImport[] = sourceFile => this.collectImports(sourceFile)
+    ) {
+        this.dependencyGraph.clear();
+
+        for (const sourceFile of sourceFiles) {
+            this.setImports(sourceFile.getFilePath(), collect(sourceFile));
+        }
+    }
+
+    public collectImports(sourceFile: SourceFile): FileImport[] {
+        const filePath = sourceFile.getFilePath();
+        const imports = new Map<string, FileImport>();
+
+        for (const imp of sourceFile.getImportDeclarations()) {
+            const resolved = imp.getModuleSpecifierSourceFile();
+            if (resolved?.isInNodeModules()) {
+                continue;
+            }
+            const dependency = resolved?.getFilePath()
+                ?? this.resolveModulePath(imp.getModuleSpecifierValue(), filePath);
+            if (dependency !== null && !imports.has(dependency)) {
+                imports.set(dependency, {
+                    dependency,
+                    issue: createIssue(imp, {
+                        ruleId: 'deps/circular-dependency',
+                        category: 'dependency',
+                        severity: 'medium',
+                        message: '',
+                        suggestion: 'Extract the shared code into a separate module or invert one of the imports',
+                        code: imp.getText()
+                    })
+                });
+            }
         }
+
+        return Array.from(imports.values());
     }
 
     private resolveModulePath(moduleSpecifier: string, currentPath: string): string | null {
         if (moduleSpecifier.startsWith('.')) {
             const dir = path.dirname(currentPath);
-            return path.resolve(dir, moduleSpecifier);
+            const resolved = path.resolve(dir, moduleSpecifier);
+            // The compiler maps imports into a referenced project to its
+            // build output; point them back at the source file instead
+            const base = resolved.replace(/\.[mc]?jsx?$/, '');
+            const source = ['.ts', '.tsx', '.mts', '.cts', '/index.ts', '/index.tsx']
+                .map(extension => base + extension)
+                .find(candidate => fs.existsSync(candidate));
+            return source ?? resolved;
         }
         // For now, we'll skip node_modules dependencies
         if (moduleSpecifier.startsWith('@') || !moduleSpecifier.includes('/')) {
@@ -103,6 +188,21 @@ export class DependencyAnalyzer {
         return circular;
     }
 
+    // A cycle [a, b, c] means a imports b, b imports c and c imports a.
+    // The issue points at the import in the first file that starts the cycle.
+    private createCycleIssue(cycle: string[]): Issue {
+        const next = cycle.length > 1 ? cycle[1] : cycle[0];
+        const importIssue = this.dependencyGraph.get(cycle[0])!.imports.get(next)!;
+
+        // Files are named relative to the directory the cycle spans, so that
+        // e.g. two index.ts files of different packages stay distinguishable
+        const base = cycle.map(file => path.dirname(file)).reduce(commonDirectory);
+        return {
+            ...importIssue,
+            message: `Circular dependency: ${[...cycle, cycle[0]].map(file => path.relative(base, file)).join(' → ')}`
+        };
+    }
+
     private calculateMetrics() {
         let totalDependencies = 0;
         let maxDependencies = 0;
@@ -130,3 +230,10 @@ export class DependencyAnalyzer {
         }));
     }
 }
+
+function commonDirectory(a: string, b: string): string {
+    while (path.relative(a, b).startsWith('..')) {
+        a = path.dirname(a);
+    }
+    return a;
+}
@@ -0,0 +1,67 @@
+import { Node } from 'ts-morph';
+
+export type Severity = 'low' | 'medium' | 'high';
+
+export type IssueCategory = 'performance' | 'memory' | 'dependency' | 'suppression';
+
+// Categories a rule can belong to; each maps to the analyzer that runs it
+export type RuleCategory = Exclude<IssueCategory, 'suppression'>;
+
+// A single finding. Every analyzer reports this shape so that later stages
+// (reports, suppressions, baselines) can rely on a stable rule id and a
+// precise location. Lines and columns are 1-based; end is exclusive.
+export interface Issue {
+    ruleId: string;
+    category: IssueCategory;
+    severity: Severity;
+    file: string;
+    startLine: number;
+    startColumn: number;
+    endLine: number;
+    endColumn: number;
+    message: string;
+    suggestion: string;
+    code?: string;
+    // Line-independent identity used by baselines; set once analysis completes
+    fingerprint?: string;
+}
+
+export type IssueDetails = Omit<Issue, 'file' | 'startLine' | 'startColumn' | 'endLine' | 'endColumn' | 'fingerprint'>;
+
+const MAX_SNIPPET_LENGTH = 200;
+
+export function createIssue(node: Node, details: IssueDetails): Issue {
+    const sourceFile = node.getSourceFile();
+    const start = sourceFile.getLineAndColumnAtPos(node.getStart());
+    const end = sourceFile.getLineAndColumnAtPos(node.getEnd());
+
+    return {
+        ruleId: details.ruleId,
+        category: details.category,
+        severity: details.severity,
+        file: sourceFile.getFilePath(),
+        startLine: start.line,
+        startColumn: start.column,
+        endLine: end.line,
+        endColumn: end.column,
+        message: details.message,
+        suggestion: details.suggestion,
+        ...(details.code !== undefined && { code: truncateSnippet(details.code) })
+    };
+}
+
+export function formatLocation(issue: Issue): string {
+    return `${issue.file}:${issue.startLine}:${issue.startColumn}`;
+}
+
+// Orders issues by file, position and rule so output is deterministic
+export function compareIssues(a: Issue, b: Issue): number {
+    return a.file.localeCompare(b.file)
+        || a.startLine - b.startLine
+        || a.startColumn - b.startColumn
+        || a.ruleId.localeCompare(b.ruleId);
+}
+
+function truncateSnippet(code: string): string {
+    return code.length > MAX_SNIPPET_LENGTH ? `${code.substring(0, MAX_SNIPPET_LENGTH)}...` : code;
+}
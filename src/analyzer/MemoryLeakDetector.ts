@@ -1,38 +1,36 @@
-import { Project, Node, SyntaxKind, SourceFile } from 'ts-morph';
+import { Project, SourceFile } from 'ts-morph';
 import logger from '../utils/logger.js';
+import { Issue } from './Issue.js';
+import { ConfiguredRule } from '../rules/RuleRegistry.js';
+import { RuleRunner } from '../rules/RuleRunner.js';
 
-interface MemoryIssue {
-    type: string;
-    severity: 'low' | 'medium' | 'high';
-    location: string;
-    description: string;
-    suggestion: string;
-}
-
-interface MemoryAnalysisResult {
-    potentialLeaks: MemoryIssue[];
+export interface MemoryAnalysisResult {
+    potentialLeaks: Issue[];
     severity: 'low' | 'medium' | 'high';
     suggestions: string[];
 }
 
 export class MemoryLeakDetector {
-    public async detect(project: Project): Promise<MemoryAnalysisResult> {
-        const issues: MemoryIssue[] = [];
+    public async detect(
+        project: Project,
+        rules: ConfiguredRule[],
+        sourceFiles: SourceFile[] = project.getSourceFiles()
+    ): Promise<MemoryAnalysisResult> {
+        const issues = sourceFiles.flatMap(sourceFile => this.detectFile(sourceFile, project, rules));
+        issues.push(...this.detectProjectRules(project, rules));
+        return this.summarize(issues);
+    }
 
-        for (const sourceFile of project.getSourceFiles()) {
-            
-            issues.push(...this.detectEventListenerLeaks(sourceFile));
-            
-            
-            issues.push(...this.detectClosureLeaks(sourceFile));
-            
-            
-            issues.push(...this.detectTimerLeaks(sourceFile));
-            
-            
-            issues.push(...this.detectObjectAccumulation(sourceFile));
-        }
+    public detectFile(sourceFile: SourceFile, project: Project, rules: ConfiguredRule[]): Issue[] {
+        return this.createRunner(rules).runFile(sourceFile, project);
+    }
+
+    // Project-level hooks of memory rules; run once after all files
+    public detectProjectRules(project: Project, rules: ConfiguredRule[]): Issue[] {
+        return this.createRunner(rules).runProject(project);
+    }
 
+    public summarize(issues: Issue[]): MemoryAnalysisResult {
         const severity = this.calculateOverallSeverity(issues);
         const suggestions = this.generateSuggestions(issues);
 
@@ -43,97 +41,11 @@ export class MemoryLeakDetector {
         };
     }
 
-    private detectEventListenerLeaks(sourceFile: SourceFile): MemoryIssue[] {
-        const issues: MemoryIssue[] = [];
-        
-        sourceFile.forEachDescendant(node => {
-            if (node.getKind() === SyntaxKind.CallExpression) {
-                const call = node.asKind(SyntaxKind.CallExpression);
-                const expression = call?.getExpression().getText();
-                
-                if (expression?.includes('addEventListener')) {
-                    issues.push({
-                        type: 'EventListenerLeak',
-                        severity: 'medium',
-                        location: `${sourceFile.getFilePath()}:${node.getStartLineNumber()}`,
-                        description: 'Potential event listener leak detected',
-                        suggestion: 'Ensure event listener is removed when component is destroyed'
-                    });
-                }
-            }
-        });
-
-        return issues;
-    }
-
-    private detectClosureLeaks(sourceFile: SourceFile): MemoryIssue[] {
-        const issues: MemoryIssue[] = [];
-        
-        sourceFile.forEachDescendant(node => {
-            if (node.getKind() === SyntaxKind.ArrowFunction || 
-                node.getKind() === SyntaxKind.FunctionDeclaration) {
-                
-                const text = node.getText();
-                if (text.includes('this.') || text.includes('state') || text.includes('props')) {
-                    issues.push({
-                        type: 'ClosureLeak',
-                        severity: 'low',
-                        location: `${sourceFile.getFilePath()}:${node.getStartLineNumber()}`,
-                        description: 'Potential closure leak detected',
-                        suggestion: 'Be careful with closures that capture component state or props'
-                    });
-                }
-            }
-        });
-
-        return issues;
-    }
-
-    private detectTimerLeaks(sourceFile: SourceFile): MemoryIssue[] {
-        const issues: MemoryIssue[] = [];
-        
-        sourceFile.forEachDescendant(node => {
-            if (node.getKind() === SyntaxKind.CallExpression) {
-                const call = node.asKind(SyntaxKind.CallExpression);
-                const expression = call?.getExpression().getText();
-                
-                if (expression?.includes('setInterval') || expression?.includes('setTimeout')) {
-                    issues.push({
-                        type: 'TimerLeak',
-                        severity: 'medium',
-                        location: `${sourceFile.getFilePath()}:${node.getStartLineNumber()}`,
-                        description: 'Potential timer leak detected',
-                        suggestion: 'Ensure timer is cleared when component unmounts'
-                    });
-                }
-            }
-        });
-
-        return issues;
-    }
-
-    private detectObjectAccumulation(sourceFile: SourceFile): MemoryIssue[] {
-        const issues: MemoryIssue[] = [];
-        
-        sourceFile.forEachDescendant(node => {
-            if (node.getKind() === SyntaxKind.PropertyAccessExpression) {
-                const text = node.getText();
-                if (text.includes('.push') || text.includes('.unshift')) {
-                    issues.push({
-                        type: 'ObjectAccumulation',
-                        severity: 'low',
-                        location: `${sourceFile.getFilePath()}:${node.getStartLineNumber()}`,
-                        description: 'Potential object accumulation detected',
-                        suggestion: 'Consider implementing a cleanup mechanism for accumulated objects'
-                    });
-                }
-            }
-        });
-
-        return issues;
+    private createRunner(rules: ConfiguredRule[]): RuleRunner {
+        return new RuleRunner(rules.filter(({ rule }) => rule.meta.category === 'memory'));
     }
 
-    private calculateOverallSeverity(issues: MemoryIssue[]): 'low' | 'medium' | 'high' {
+    private calculateOverallSeverity(issues: Issue[]): 'low' | 'medium' | 'high' {
         const highCount = issues.filter(i => i.severity === 'high').length;
         const mediumCount = issues.filter(i => i.severity === 'medium').length;
         
@@ -142,7 +54,7 @@ export class MemoryLeakDetector {
         return 'low';
     }
 
-    private generateSuggestions(issues: MemoryIssue[]): string[] {
+    private generateSuggestions(issues: Issue[]): string[] {
         const suggestions = new Set<string>();
         
         issues.forEach(issue => {
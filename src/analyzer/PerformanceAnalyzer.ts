@@ -1,59 +1,94 @@
-import { Project, Node, SyntaxKind, FunctionDeclaration, MethodDeclaration, SourceFile } from 'ts-morph';
+import { Project, SourceFile } from 'ts-morph';
 import logger from '../utils/logger.js';
+import { Issue } from './Issue.js';
+import { FileMetrics, FunctionMetrics, measureFile } from './metrics/measure.js';
+import { LineCounts } from './metrics/lines.js';
+import { ConfiguredRule } from '../rules/RuleRegistry.js';
+import { RuleRunner } from '../rules/RuleRunner.js';
 
-interface PerformanceIssue {
-    type: 'loop' | 'memory' | 'complexity';
-    severity: 'low' | 'medium' | 'high';
-    location: string;
-    description: string;
-    suggestion: string;
-    code?: string;
-}
+export type { FileMetrics, FunctionMetrics, LineCounts };
 
-interface PerformanceMetrics {
+export interface PerformanceMetrics {
+    // Totals over all functions
     cyclomaticComplexity: number;
+    cognitiveComplexity: number;
+    // Average of the file indexes, weighted by source lines
     maintainabilityIndex: number;
+    // Source lines, without comment and blank lines
     linesOfCode: number;
+    lines: LineCounts;
+    functions: FunctionMetrics[];
+    files: FileMetrics[];
 }
 
-interface PerformanceAnalysisResult {
-    issues: PerformanceIssue[];
+export interface PerformanceAnalysisResult {
+    issues: Issue[];
     metrics: PerformanceMetrics;
     recommendations: string[];
 }
 
+// Findings and metrics of a single file, combined by summarize()
+export interface FilePerformanceResult {
+    issues: Issue[];
+    metrics: FileMetrics;
+    functions: FunctionMetrics[];
+}
+
 export class PerformanceAnalyzer {
-    public async analyze(project: Project): Promise<PerformanceAnalysisResult> {
+    public async analyze(
+        project: Project,
+        rules: ConfiguredRule[],
+        sourceFiles: SourceFile[] = project.getSourceFiles()
+    ): Promise<PerformanceAnalysisResult> {
         logger.info('Starting performance analysis');
-        const issues: PerformanceIssue[] = [];
+        const fileResults = sourceFiles.map(sourceFile => this.analyzeFile(sourceFile, project, rules));
+        return this.summarize(fileResults, this.analyzeProjectRules(project, rules));
+    }
+
+    public analyzeFile(sourceFile: SourceFile, project: Project, rules: ConfiguredRule[]): FilePerformanceResult {
+        const issues: Issue[] = [];
+        try {
+            // Run performance rules
+            issues.push(...this.createRunner(rules).runFile(sourceFile, project));
+        } catch (error) {
+            logger.error(`Error analyzing file ${sourceFile.getFilePath()}:`, error);
+        }
+
+        return { issues, ...measureFile(sourceFile) };
+    }
+
+    // Project-level hooks of performance rules; run once after all files
+    public analyzeProjectRules(project: Project, rules: ConfiguredRule[]): Issue[] {
+        return this.createRunner(rules).runProject(project);
+    }
+
+    public summarize(fileResults: FilePerformanceResult[], projectIssues: Issue[] = []): PerformanceAnalysisResult {
+        const issues: Issue[] = [];
         const metrics: PerformanceMetrics = {
             cyclomaticComplexity: 0,
+            cognitiveComplexity: 0,
             maintainabilityIndex: 0,
-            linesOfCode: 0
+            linesOfCode: 0,
+            lines: { total: 0, source: 0, comment: 0, blank: 0 },
+            functions: [],
+            files: []
         };
 
-        for (const sourceFile of project.getSourceFiles()) {
-            try {
-                // Analyze loops
-                issues.push(...this.analyzeLoops(sourceFile));
-                
-                // Analyze memory usage
-                issues.push(...this.analyzeMemoryUsage(sourceFile));
-                
-                // Analyze function complexity
-                const complexityResults = this.analyzeFunctionComplexity(sourceFile);
-                issues.push(...complexityResults.issues);
-                metrics.cyclomaticComplexity += complexityResults.complexity;
-                
-                // Calculate lines of code
-                metrics.linesOfCode += sourceFile.getFullText().split('\n').length;
-            } catch (error) {
-                logger.error(`Error analyzing file ${sourceFile.getFilePath()}:`, error);
-            }
+        for (const fileResult of fileResults) {
+            issues.push(...fileResult.issues);
+            metrics.cyclomaticComplexity += fileResult.metrics.cyclomaticComplexity;
+            metrics.cognitiveComplexity += fileResult.metrics.cognitiveComplexity;
+            metrics.lines.total += fileResult.metrics.lines.total;
+            metrics.lines.source += fileResult.metrics.lines.source;
+            metrics.lines.comment += fileResult.metrics.lines.comment;
+            metrics.lines.blank += fileResult.metrics.lines.blank;
+            metrics.functions.push(...fileResult.functions);
+            metrics.files.push(fileResult.metrics);
         }
+        issues.push(...projectIssues);
 
-        // Calculate maintainability index
-        metrics.maintainabilityIndex = this.calculateMaintainabilityIndex(metrics);
+        metrics.linesOfCode = metrics.lines.source;
+        metrics.maintainabilityIndex = this.calculateMaintainabilityIndex(metrics.files);
 
         return {
             issues,
@@ -62,166 +97,87 @@ export class PerformanceAnalyzer {
         };
     }
 
-    private analyzeLoops(sourceFile: SourceFile): PerformanceIssue[] {
-        const issues: PerformanceIssue[] = [];
-        
-        sourceFile.forEachDescendant(node => {
-            if (node.getKind() === SyntaxKind.ForStatement || 
-                node.getKind() === SyntaxKind.ForInStatement || 
-                node.getKind() === SyntaxKind.ForOfStatement) {
-                
-                // Check for nested loops
-                let parent = node.getParent();
-                while (parent) {
-                    if (parent.getKind() === SyntaxKind.ForStatement || 
-                        parent.getKind() === SyntaxKind.ForInStatement || 
-                        parent.getKind() === SyntaxKind.ForOfStatement) {
-                        issues.push({
-                            type: 'loop',
-                            severity: 'high',
-                            location: `${sourceFile.getFilePath()}:${node.getStartLineNumber()}`,
-                            description: 'Nested loop detected - potential performance issue',
-                            suggestion: 'Consider restructuring to avoid nested loops or use array methods',
-                            code: node.getText()
-                        });
-                        break;
-                    }
-                    parent = parent.getParent();
-                }
-            }
-        });
-
-        return issues;
-    }
-
-    private analyzeMemoryUsage(sourceFile: SourceFile): PerformanceIssue[] {
-        const issues: PerformanceIssue[] = [];
-        
-        sourceFile.forEachDescendant(node => {
-            // Check for large array literals
-            if (node.getKind() === SyntaxKind.ArrayLiteralExpression) {
-                const elements = node.getChildren().length;
-                if (elements > 1000) {
-                    issues.push({
-                        type: 'memory',
-                        severity: 'medium',
-                        location: `${sourceFile.getFilePath()}:${node.getStartLineNumber()}`,
-                        description: 'Large array literal detected',
-                        suggestion: 'Consider loading large arrays dynamically or paginating',
-                        code: node.getText().substring(0, 100) + '...'
-                    });
-                }
-            }
-
-            // Check for memory-intensive operations
-            if (node.getKind() === SyntaxKind.CallExpression) {
-                const call = node.getText();
-                if (call.includes('concat') || call.includes('splice')) {
-                    issues.push({
-                        type: 'memory',
-                        severity: 'low',
-                        location: `${sourceFile.getFilePath()}:${node.getStartLineNumber()}`,
-                        description: 'Memory-intensive array operation detected',
-                        suggestion: 'Consider using more efficient array operations',
-                        code: call
-                    });
-                }
-            }
-        });
-
-        return issues;
-    }
-
-    private analyzeFunctionComplexity(sourceFile: SourceFile): { issues: PerformanceIssue[], complexity: number } {
-        const issues: PerformanceIssue[] = [];
-        let totalComplexity = 0;
-
-        const analyzeFunctionNode = (node: FunctionDeclaration | MethodDeclaration) => {
-            let complexity = 1; // Base complexity
-
-            // Count decision points
-            node.forEachDescendant(child => {
-                switch (child.getKind()) {
-                    case SyntaxKind.IfStatement:
-                    case SyntaxKind.ForStatement:
-                    case SyntaxKind.WhileStatement:
-                    case SyntaxKind.CaseClause:
-                    case SyntaxKind.CatchClause:
-                    case SyntaxKind.ConditionalExpression: // ternary
-                    case SyntaxKind.BinaryExpression: // logical && and ||
-                        if (child.getKind() === SyntaxKind.BinaryExpression) {
-                            const operator = child.getText().match(/&&|\|\|/);
-                            if (operator) complexity++;
-                        } else {
-                            complexity++;
-                        }
-                        break;
-                }
-            });
-
-            if (complexity > 10) {
-                issues.push({
-                    type: 'complexity',
-                    severity: complexity > 20 ? 'high' : 'medium',
-                    location: `${sourceFile.getFilePath()}:${node.getStartLineNumber()}`,
-                    description: `High cyclomatic complexity (${complexity})`,
-                    suggestion: 'Consider breaking down this function into smaller functions',
-                    code: node.getName() || 'anonymous function'
-                });
-            }
-
-            return complexity;
-        };
-
-        sourceFile.forEachDescendant(node => {
-            if (Node.isFunctionDeclaration(node) || Node.isMethodDeclaration(node)) {
-                totalComplexity += analyzeFunctionNode(node);
-            }
-        });
-
-        return { issues, complexity: totalComplexity };
+    private createRunner(rules: ConfiguredRule[]): RuleRunner {
+        return new RuleRunner(rules.filter(({ rule }) => rule.meta.category === 'performance'));
     }
 
-    private calculateMaintainabilityIndex(metrics: PerformanceMetrics): number {
-        // Simplified maintainability index calculation
-        const HV = Math.log(metrics.linesOfCode) * 5.2;
-        const CC = metrics.cyclomaticComplexity * 0.23;
-        const maintainabilityIndex = Math.max(0, (171 - HV - CC) * 100 / 171);
-        return Math.round(maintainabilityIndex);
+    // Large files weigh more than small ones; empty projects score 100
+    private calculateMaintainabilityIndex(files: FileMetrics[]): number {
+        const sourceLines = files.reduce((sum, file) => sum + file.lines.source, 0);
+        if (sourceLines === 0) {
+            return 100;
+        }
+        const weighted = files.reduce((sum, file) => sum + file.maintainabilityIndex * file.lines.source, 0);
+        return Math.round(weighted / sourceLines);
     }
 
-    private generateRecommendations(issues: PerformanceIssue[]): string[] {
+    public generateRecommendations(issues: Issue[]): string[] {
         const recommendations: string[] = [];
         
-        // Group issues by type
-        const issuesByType = issues.reduce((acc, issue) => {
-            acc[issue.type] = acc[issue.type] || [];
-            acc[issue.type].push(issue);
+        // Group issues by rule
+        const issuesByRule = issues.reduce((acc, issue) => {
+            acc[issue.ruleId] = acc[issue.ruleId] || [];
+            acc[issue.ruleId].push(issue);
             return acc;
-        }, {} as Record<string, PerformanceIssue[]>);
+        }, {} as Record<string, Issue[]>);
 
         // Generate recommendations based on patterns
-        if (issuesByType.loop?.length > 0) {
+        if (issuesByRule['perf/nested-loop']?.length > 0) {
             recommendations.push(
                 'Consider using array methods (map, filter, reduce) instead of loops where possible',
                 'Review nested loops for potential optimization opportunities'
             );
         }
 
-        if (issuesByType.memory?.length > 0) {
+        if (issuesByRule['perf/large-array-literal']?.length > 0 || issuesByRule['perf/memory-intensive-call']?.length > 0) {
             recommendations.push(
                 'Implement pagination for large data sets',
                 'Use memory-efficient data structures for large collections'
             );
         }
 
-        if (issuesByType.complexity?.length > 0) {
+        if (issuesByRule['perf/cyclomatic-complexity']?.length > 0) {
             recommendations.push(
                 'Break down complex functions into smaller, more manageable pieces',
                 'Consider implementing a service layer to better separate concerns'
             );
         }
 
+        if (issuesByRule['perf/await-in-loop']?.length > 0 || issuesByRule['perf/sequential-await']?.length > 0) {
+            recommendations.push(
+                'Start independent async calls together and await them with Promise.all',
+                'Batch requests in loops or limit their concurrency instead of awaiting one at a time'
+            );
+        }
+
+        if (issuesByRule['perf/linear-search-in-loop']?.length > 0 || issuesByRule['perf/spread-accumulator']?.length > 0) {
+            recommendations.push(
+                'Index collections in a Set or Map before loops that search them',
+                'Grow accumulators in place instead of copying them on every iteration'
+            );
+        }
+
+        if (issuesByRule['perf/json-clone-in-loop']?.length > 0 || issuesByRule['perf/regexp-in-loop']?.length > 0
+            || issuesByRule['perf/string-concat-in-loop']?.length > 0) {
+            recommendations.push('Move work that gives the same result on every iteration out of hot loops');
+        }
+
+        if (issuesByRule['perf/blocking-sync-call']?.length > 0) {
+            recommendations.push('Replace synchronous fs, child_process, crypto and zlib calls on request paths with their async versions');
+        }
+
+        if (issuesByRule['perf/redos']?.length > 0) {
+            recommendations.push('Rewrite ambiguous regular expressions and limit the length of untrusted input before matching it');
+        }
+
+        if (issuesByRule['react/unstable-memo-prop']?.length > 0) {
+            recommendations.push('Keep props of memoized components stable with useMemo and useCallback');
+        }
+
+        if (issuesByRule['perf/async-array-callback']?.length > 0) {
+            recommendations.push('Use for...of or Promise.all with map instead of async callbacks to forEach, filter and similar methods');
+        }
+
         return recommendations;
     }
 }
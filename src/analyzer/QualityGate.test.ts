@@ -0,0 +1,76 @@
+import { AnalysisResult, CodeAnalyzer } from './CodeAnalyzer.js';
+import { evaluateQualityGate, GATE_EXIT_CODES } from './QualityGate.js';
+import { createDefaultConfig } from '../config/loader.js';
+
+// One high severity nested loop, one medium severity cycle, and a function
+// with cyclomatic and cognitive complexity 3
+const files = {
+    'src/a.ts': [
+        "import { b } from './b';",
+        'export function pairs(items: number[]) {',
+        '    for (const a of items) {',
+        '        for (const c of items) console.log(a, c, b);',
+        '    }',
+        '}',
+        ''
+    ].join('\n'),
+    'src/b.ts': "import { pairs } from './a';\nexport const b = pairs;\n"
+};
+
+describe('evaluateQualityGate', () => {
+    let result: AnalysisResult;
+
+    beforeAll(async () => {
+        result = await new CodeAnalyzer().analyzeSources(files);
+    });
+
+    it('checks issue counts per severity and in total', () => {
+        const gate = evaluateQualityGate(result, { maxIssues: { high: 1, medium: 0, low: 0, total: 1 } });
+
+        expect(gate.checks.map(({ name, actual, status }) => [name, actual, status])).toEqual([
+            ['High severity issues', 1, 'pass'],
+            ['Medium severity issues', 1, 'fail'],
+            ['Low severity issues', 0, 'pass'],
+            ['Total issues', 2, 'fail']
+        ]);
+        expect(gate.checks[1].details).toEqual([expect.stringMatching(/^deps\/circular-dependency \/src\/a\.ts:1:/)]);
+        expect(gate.exitCode).toBe(GATE_EXIT_CODES.severity);
+    });
+
+    it('checks circular dependencies, maintainability and both complexities', () => {
+        const gate = evaluateQualityGate(result, {
+            maxIssues: {},
+            maxCircularDependencies: 1,
+            minMaintainabilityIndex: 90,
+            maxFunctionComplexity: 2,
+            maxCognitiveComplexity: 3
+        });
+
+        expect(gate.checks.map(({ kind, limit, status }) => [kind, limit, status])).toEqual([
+            ['circular', '≤ 1', 'pass'],
+            ['maintainability', '≥ 90', 'fail'],
+            ['complexity', '≤ 2', 'fail'],
+            ['complexity', '≤ 3', 'pass']
+        ]);
+        expect(gate.checks[2].details).toEqual(['pairs (3) /src/a.ts:2']);
+        expect(gate.exitCode).toBe(GATE_EXIT_CODES.maintainability | GATE_EXIT_CODES.complexity);
+        expect(gate.passed).toBe(false);
+    });
+
+    it('leaves out unset limits and passes with exit code 0', () => {
+        const gate = evaluateQualityGate(result, { maxIssues: { high: 5 } });
+
+        expect(gate.checks.map(check => check.name)).toEqual(['High severity issues']);
+        expect(gate).toMatchObject({ passed: true, exitCode: 0 });
+    });
+
+    it('skips checks whose analyzer was disabled', async () => {
+        const config = createDefaultConfig('/');
+        config.analysis = { performance: false, memory: true, dependencies: false };
+        const partial = await new CodeAnalyzer().analyzeSources(files, { config });
+        const gate = evaluateQualityGate(partial, { maxIssues: {}, maxCircularDependencies: 0, maxFunctionComplexity: 1 });
+
+        expect(gate.checks.map(({ status, actual }) => [status, actual])).toEqual([['skipped', null], ['skipped', null]]);
+        expect(gate.exitCode).toBe(0);
+    });
+});
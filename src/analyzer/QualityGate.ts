@@ -0,0 +1,133 @@
+import { AnalysisResult, collectIssues } from './CodeAnalyzer.js';
+import { formatLocation } from './Issue.js';
+import { CheckThresholds } from '../config/loader.js';
+
+// Exit codes are bit flags so that a combination of failures stays
+// decodable: e.g. 6 means both the severity and circular checks failed.
+// 1 is left for tool errors (bad config, crash).
+export const GATE_EXIT_CODES = {
+    severity: 2,
+    circular: 4,
+    maintainability: 8,
+    complexity: 16
+} as const;
+
+export type GateCheckKind = keyof typeof GATE_EXIT_CODES;
+
+export interface GateCheck {
+    kind: GateCheckKind;
+    name: string;
+    actual: number | null;
+    limit: string;
+    status: 'pass' | 'fail' | 'skipped';
+    // Worst offenders, shown under a failing check
+    details: string[];
+}
+
+export interface GateResult {
+    passed: boolean;
+    exitCode: number;
+    checks: GateCheck[];
+}
+
+const MAX_DETAILS = 5;
+
+export function evaluateQualityGate(result: AnalysisResult, thresholds: CheckThresholds): GateResult {
+    const checks: GateCheck[] = [];
+    const issues = collectIssues(result);
+
+    for (const severity of ['high', 'medium', 'low'] as const) {
+        const limit = thresholds.maxIssues[severity];
+        if (limit === undefined) continue;
+        const matching = issues.filter(issue => issue.severity === severity);
+        checks.push(createCheck('severity', `${capitalize(severity)} severity issues`, matching.length, limit, 'max',
+            matching.map(issue => `${issue.ruleId} ${formatLocation(issue)}`)));
+    }
+
+    if (thresholds.maxIssues.total !== undefined) {
+        checks.push(createCheck('severity', 'Total issues', issues.length, thresholds.maxIssues.total, 'max', []));
+    }
+
+    if (thresholds.maxCircularDependencies !== undefined) {
+        const cycles = result.dependencies?.issues.filter(issue => issue.ruleId === 'deps/circular-dependency');
+        checks.push(cycles
+            ? createCheck('circular', 'New circular dependencies', cycles.length, thresholds.maxCircularDependencies, 'max',
+                cycles.map(issue => issue.message))
+            : skipped('circular', 'New circular dependencies', `≤ ${thresholds.maxCircularDependencies}`));
+    }
+
+    if (thresholds.minMaintainabilityIndex !== undefined) {
+        const metrics = result.performance?.metrics;
+        checks.push(metrics
+            ? createCheck('maintainability', 'Maintainability index', metrics.maintainabilityIndex, thresholds.minMaintainabilityIndex, 'min', [])
+            : skipped('maintainability', 'Maintainability index', `≥ ${thresholds.minMaintainabilityIndex}`));
+    }
+
+    if (thresholds.maxFunctionComplexity !== undefined) {
+        const limit = thresholds.maxFunctionComplexity;
+        const functions = result.performance?.metrics.functions;
+        if (functions) {
+            const offenders = functions
+                .filter(fn => fn.cyclomaticComplexity > limit)
+                .sort((a, b) => b.cyclomaticComplexity - a.cyclomaticComplexity);
+            const worst = functions.reduce((max, fn) => Math.max(max, fn.cyclomaticComplexity), 0);
+            checks.push(createCheck('complexity', 'Max function complexity', worst, limit, 'max',
+                offenders.map(fn => `${fn.name} (${fn.cyclomaticComplexity}) ${fn.file}:${fn.line}`)));
+        } else {
+            checks.push(skipped('complexity', 'Max function complexity', `≤ ${limit}`));
+        }
+    }
+
+    if (thresholds.maxCognitiveComplexity !== undefined) {
+        const limit = thresholds.maxCognitiveComplexity;
+        const functions = result.performance?.metrics.functions;
+        if (functions) {
+            const offenders = functions
+                .filter(fn => fn.cognitiveComplexity > limit)
+                .sort((a, b) => b.cognitiveComplexity - a.cognitiveComplexity);
+            const worst = functions.reduce((max, fn) => Math.max(max, fn.cognitiveComplexity), 0);
+            checks.push(createCheck('complexity', 'Max cognitive complexity', worst, limit, 'max',
+                offenders.map(fn => `${fn.name} (${fn.cognitiveComplexity}, cyclomatic ${fn.cyclomaticComplexity}) ${fn.file}:${fn.line}`)));
+        } else {
+            checks.push(skipped('complexity', 'Max cognitive complexity', `≤ ${limit}`));
+        }
+    }
+
+    const exitCode = checks
+        .filter(check => check.status === 'fail')
+        .reduce((code, check) => code | GATE_EXIT_CODES[check.kind], 0);
+
+    return {
+        passed: exitCode === 0,
+        exitCode,
+        checks
+    };
+}
+
+function createCheck(
+    kind: GateCheckKind,
+    name: string,
+    actual: number,
+    limit: number,
+    bound: 'max' | 'min',
+    offenders: string[]
+): GateCheck {
+    const passed = bound === 'max' ? actual <= limit : actual >= limit;
+    return {
+        kind,
+        name,
+        actual,
+        limit: `${bound === 'max' ? '≤' : '≥'} ${limit}`,
+        status: passed ? 'pass' : 'fail',
+        details: passed ? [] : offenders.slice(0, MAX_DETAILS)
+    };
+}
+
+// The analyzer the check depends on was disabled for this run
+function skipped(kind: GateCheckKind, name: string, limit: string): GateCheck {
+    return { kind, name, actual: null, limit, status: 'skipped', details: [] };
+}
+
+function capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
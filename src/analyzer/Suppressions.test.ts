@@ -0,0 +1,94 @@
+import { CodeAnalyzer, collectIssues } from './CodeAnalyzer.js';
+
+const nestedLoop = [
+    '    for (const a of items) {',
+    '        for (const b of items) console.log(a, b);',
+    '    }'
+];
+
+function source(...lines: string[]): string {
+    return ['export function pairs(items: number[]) {', ...lines, '}', ''].join('\n');
+}
+
+async function analyze(text: string) {
+    const result = await new CodeAnalyzer().analyzeSources({ 'src/pairs.ts': text });
+    return {
+        ruleIds: collectIssues(result).map(issue => issue.ruleId),
+        suppressed: result.suppressions.suppressed
+    };
+}
+
+describe('Suppressions', () => {
+    it('suppresses the next line with a reason', async () => {
+        const { ruleIds, suppressed } = await analyze(source(
+            '    for (const a of items) {',
+            '        // tsa-disable-next-line perf/nested-loop -- items has at most 3 entries',
+            '        for (const b of items) console.log(a, b);',
+            '    }'
+        ));
+
+        expect(ruleIds).not.toContain('perf/nested-loop');
+        expect(suppressed).toEqual([expect.objectContaining({
+            ruleId: 'perf/nested-loop',
+            suppressionReason: 'items has at most 3 entries'
+        })]);
+    });
+
+    it('suppresses a block up to the matching tsa-enable', async () => {
+        const { ruleIds } = await analyze(source(
+            '    /* tsa-disable perf/* */',
+            ...nestedLoop,
+            '    /* tsa-enable perf/* */',
+            ...nestedLoop
+        ));
+
+        expect(ruleIds.filter(ruleId => ruleId === 'perf/nested-loop')).toHaveLength(1);
+        expect(ruleIds).not.toContain('tsa/unused-suppression');
+    });
+
+    it('reads disable-line and block comments after code on the same line', async () => {
+        const { ruleIds, suppressed } = await analyze(source(
+            '    for (const a of items) { for (const b of items) console.log(a, b); } // tsa-disable-line perf/nested-loop',
+            '    for (const a of items) { /* tsa-disable perf/nested-loop */',
+            '        for (const b of items) console.log(a, b);',
+            '    }'
+        ));
+
+        expect(ruleIds).toEqual([]);
+        expect(suppressed.map(issue => issue.startLine)).toEqual([2, 4]);
+    });
+
+    it('reports suppressions that match nothing', async () => {
+        const { ruleIds } = await analyze(source(
+            '    // tsa-disable-next-line perf/nested-loop',
+            '    return items.length;'
+        ));
+
+        expect(ruleIds).toEqual(['tsa/unused-suppression']);
+    });
+
+    it('ignores directive text inside strings and templates', async () => {
+        const { ruleIds, suppressed } = await analyze(source(
+            "    const a = '// tsa-disable-file';",
+            '    const b = `${a} /* tsa-disable-file */`;',
+            ...nestedLoop
+        ));
+
+        expect(ruleIds).toContain('perf/nested-loop');
+        expect(suppressed).toEqual([]);
+    });
+
+    it('does not read a regex literal containing "/*" as a comment', async () => {
+        const { ruleIds, suppressed } = await analyze(source(
+            '    const slashes = /^\\/*$/;',
+            '    for (const a of items) {',
+            '        // tsa-disable-next-line perf/nested-loop',
+            '        for (const b of items) console.log(a, b, slashes);',
+            '    }',
+            '    /* end */'
+        ));
+
+        expect(ruleIds).not.toContain('perf/nested-loop');
+        expect(suppressed).toHaveLength(1);
+    });
+});
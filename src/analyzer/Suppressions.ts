@@ -0,0 +1,238 @@
+import { Project, SourceFile, ts } from 'ts-morph';
+import { Issue } from './Issue.js';
+
+// Inline suppression comments:
+//   // tsa-disable-next-line perf/nested-loop -- bounded input
+//   const x = a.concat(b); // tsa-disable-line perf/memory-intensive-call
+//   /* tsa-disable memory/timer-leak */ ... /* tsa-enable memory/timer-leak */
+//   /* tsa-disable-file perf/large-array-literal -- generated code */
+// Rule lists are comma or space separated, may use "category/*", and
+// may be omitted to suppress every rule. Text after "--" is the reason.
+
+type DirectiveKind = 'next-line' | 'line' | 'block' | 'file';
+
+interface SuppressionDirective {
+    kind: DirectiveKind;
+    file: string;
+    rules: string[];
+    reason?: string;
+    // Lines (1-based, inclusive) whose issues are suppressed
+    fromLine: number;
+    toLine: number;
+    // Position of the comment itself, for unused suppression reports
+    commentStart: { line: number; column: number };
+    commentEnd: { line: number; column: number };
+    commentText: string;
+    // Rule patterns that matched at least one issue ('*' when rules is empty)
+    used: Set<string>;
+}
+
+export interface SuppressedIssue extends Issue {
+    suppressionReason?: string;
+}
+
+export interface SuppressionResult {
+    issues: Issue[];
+    suppressed: SuppressedIssue[];
+}
+
+const DIRECTIVE_PATTERN = /^tsa-(disable-next-line|disable-line|disable-file|disable|enable)(?:\s+|$)(.*)$/s;
+
+export class Suppressions {
+    private directives: Map<string, SuppressionDirective[]>;
+
+    private constructor() {
+        this.directives = new Map();
+    }
+
+    public static fromProject(project: Project): Suppressions {
+        return Suppressions.fromSourceFiles(project.getSourceFiles());
+    }
+
+    public static fromSourceFiles(sourceFiles: SourceFile[]): Suppressions {
+        const suppressions = new Suppressions();
+        for (const sourceFile of sourceFiles) {
+            suppressions.addFile(sourceFile);
+        }
+        return suppressions;
+    }
+
+    public addFile(sourceFile: SourceFile): void {
+        const directives = parseDirectives(sourceFile);
+        if (directives.length > 0) {
+            this.directives.set(sourceFile.getFilePath(), directives);
+        } else {
+            this.directives.delete(sourceFile.getFilePath());
+        }
+    }
+
+    public apply(issues: Issue[]): SuppressionResult {
+        const kept: Issue[] = [];
+        const suppressed: SuppressedIssue[] = [];
+
+        for (const issue of issues) {
+            const directive = this.findDirective(issue);
+            if (directive) {
+                suppressed.push({ ...issue, suppressionReason: directive.reason });
+            } else {
+                kept.push(issue);
+            }
+        }
+
+        return { issues: kept, suppressed };
+    }
+
+    // Suppressions that did not match anything in this run. Only rules in
+    // activeRuleIds are considered, so a run with some analyzers disabled
+    // does not report their suppressions as unused.
+    public getUnused(activeRuleIds: Set<string>): Issue[] {
+        const unused: Issue[] = [];
+
+        for (const directives of this.directives.values()) {
+            for (const directive of directives) {
+                const patterns = directive.rules.length > 0 ? directive.rules : ['*'];
+                const stale = patterns.filter(pattern =>
+                    !directive.used.has(pattern) &&
+                    Array.from(activeRuleIds).some(ruleId => matchesRule(pattern, ruleId))
+                );
+                if (stale.length === 0) continue;
+
+                const label = directive.rules.length > 0 ? stale.join(', ') : 'all rules';
+                unused.push({
+                    ruleId: 'tsa/unused-suppression',
+                    category: 'suppression',
+                    severity: 'low',
+                    file: directive.file,
+                    startLine: directive.commentStart.line,
+                    startColumn: directive.commentStart.column,
+                    endLine: directive.commentEnd.line,
+                    endColumn: directive.commentEnd.column,
+                    message: `Unused tsa-${directive.kind === 'block' ? 'disable' : `disable-${directive.kind}`} suppression for ${label}`,
+                    suggestion: 'Remove the suppression comment, or the rule IDs that no longer report anything here',
+                    code: directive.commentText
+                });
+            }
+        }
+
+        return unused;
+    }
+
+    private findDirective(issue: Issue): SuppressionDirective | undefined {
+        for (const directive of this.directives.get(issue.file) ?? []) {
+            if (issue.startLine < directive.fromLine || issue.startLine > directive.toLine) continue;
+
+            if (directive.rules.length === 0) {
+                directive.used.add('*');
+                return directive;
+            }
+            const pattern = directive.rules.find(rule => matchesRule(rule, issue.ruleId));
+            if (pattern) {
+                directive.used.add(pattern);
+                return directive;
+            }
+        }
+        return undefined;
+    }
+}
+
+function matchesRule(pattern: string, ruleId: string): boolean {
+    if (pattern === '*') return true;
+    if (pattern.endsWith('/*')) return ruleId.startsWith(pattern.slice(0, -1));
+    return pattern === ruleId;
+}
+
+function parseDirectives(sourceFile: SourceFile): SuppressionDirective[] {
+    const filePath = sourceFile.getFilePath();
+    const lastLine = sourceFile.getEndLineNumber();
+    const directives: SuppressionDirective[] = [];
+    const openBlocks: SuppressionDirective[] = [];
+
+    for (const comment of getComments(sourceFile)) {
+        const body = comment.text
+            .replace(/^\/\/|^\/\*|\*\/$/g, '')
+            .replace(/^\s*\*?\s*/, '')
+            .trim();
+        const match = DIRECTIVE_PATTERN.exec(body);
+        if (!match) continue;
+
+        const [, keyword, rest] = match;
+        const [rulePart, ...reasonParts] = rest.split(/\s--\s?|^--\s?/);
+        const rules = rulePart.split(/[\s,]+/).filter(Boolean);
+        const reason = reasonParts.join(' -- ').trim() || undefined;
+        const commentStart = sourceFile.getLineAndColumnAtPos(comment.pos);
+        const commentEnd = sourceFile.getLineAndColumnAtPos(comment.end);
+
+        if (keyword === 'enable') {
+            // Close matching blocks; a bare tsa-enable closes all of them
+            for (let i = openBlocks.length - 1; i >= 0; i--) {
+                const block = openBlocks[i];
+                if (rules.length === 0 || block.rules.some(rule => rules.includes(rule))) {
+                    block.toLine = commentStart.line;
+                    openBlocks.splice(i, 1);
+                }
+            }
+            continue;
+        }
+
+        const kind: DirectiveKind = keyword === 'disable-next-line' ? 'next-line'
+            : keyword === 'disable-line' ? 'line'
+            : keyword === 'disable-file' ? 'file'
+            : 'block';
+
+        const directive: SuppressionDirective = {
+            kind,
+            file: filePath,
+            rules,
+            reason,
+            fromLine: kind === 'next-line' ? commentEnd.line + 1
+                : kind === 'file' ? 1
+                : commentStart.line,
+            toLine: kind === 'next-line' ? commentEnd.line + 1
+                : kind === 'line' ? commentStart.line
+                : lastLine,
+            commentStart,
+            commentEnd,
+            commentText: comment.text,
+            used: new Set()
+        };
+
+        directives.push(directive);
+        if (kind === 'block') {
+            openBlocks.push(directive);
+        }
+    }
+
+    return directives;
+}
+
+// Collects comments from the leading trivia of every token of the parsed
+// file, so that comment-like text inside strings, template literals, regex
+// literals and JSX text is not mistaken for a comment
+function getComments(sourceFile: SourceFile): Array<{ text: string; pos: number; end: number }> {
+    const file = sourceFile.compilerNode;
+    const text = file.getFullText();
+    if (!text.includes('tsa-')) return [];
+
+    const comments = new Map<number, { text: string; pos: number; end: number }>();
+    const visit = (node: ts.Node) => {
+        // JSDoc is trivia of the token it documents; JSX text has no trivia
+        if (node.kind >= ts.SyntaxKind.FirstJSDocNode && node.kind <= ts.SyntaxKind.LastJSDocNode) return;
+        if (node.kind === ts.SyntaxKind.JsxText) return;
+
+        const children = node.getChildren(file);
+        if (children.length > 0) {
+            children.forEach(visit);
+            return;
+        }
+        // Leading ranges stop at the first line break after pos, so comments
+        // after code on the same line are only found as trailing ranges
+        const add = (pos: number, end: number) => {
+            comments.set(pos, { text: text.slice(pos, end), pos, end });
+        };
+        ts.forEachLeadingCommentRange(text, node.pos, add);
+        ts.forEachTrailingCommentRange(text, node.end, add);
+    };
+    visit(file);
+
+    return Array.from(comments.values()).sort((a, b) => a.pos - b.pos);
+}
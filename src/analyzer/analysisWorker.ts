@@ -0,0 +1,31 @@
+import { parentPort, workerData } from 'worker_threads';
+import { analyzeSourceFile } from './fileAnalysis.js';
+import { DependencyAnalyzer } from './DependencyAnalyzer.js';
+import { createProject } from './project.js';
+import { WorkerInput, WorkerResult } from './parallel.js';
+import { loadRules } from '../rules/loadPlugins.js';
+import { enableLogging } from '../utils/logger.js';
+
+// Entry point of an analysis worker thread (see parallel.ts). Each worker
+// builds its own project so that type information and module resolution
+// match the main thread, then analyzes only the files in its shard.
+const { config, tsconfigPath, tasks, logging } = workerData as WorkerInput;
+if (logging) {
+    enableLogging();
+}
+
+const rules = await loadRules(config);
+const project = createProject(tsconfigPath, config);
+const dependencyAnalyzer = new DependencyAnalyzer();
+
+const results: WorkerResult[] = [];
+for (const task of tasks) {
+    const sourceFile = project.getSourceFileOrThrow(task.filePath);
+    results.push({
+        filePath: task.filePath,
+        ...(task.analyze && { analysis: analyzeSourceFile(sourceFile, project, config, rules) }),
+        ...(task.imports && { imports: dependencyAnalyzer.collectImports(sourceFile) })
+    });
+}
+
+parentPort!.postMessage(results);
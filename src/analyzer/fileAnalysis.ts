@@ -0,0 +1,32 @@
+import { Project, SourceFile } from 'ts-morph';
+import { FilePerformanceResult, PerformanceAnalyzer } from './PerformanceAnalyzer.js';
+import { MemoryLeakDetector } from './MemoryLeakDetector.js';
+import { Issue } from './Issue.js';
+import { ResolvedConfig } from '../config/loader.js';
+import { ConfiguredRule } from '../rules/RuleRegistry.js';
+
+// Per-file findings of the enabled analyzers. Plain data, so it can be
+// cached on disk and sent between worker threads.
+export interface FileAnalysis {
+    performance?: FilePerformanceResult;
+    memoryLeaks?: Issue[];
+}
+
+const performanceAnalyzer = new PerformanceAnalyzer();
+const memoryLeakDetector = new MemoryLeakDetector();
+
+export function analyzeSourceFile(
+    sourceFile: SourceFile,
+    project: Project,
+    config: ResolvedConfig,
+    rules: ConfiguredRule[]
+): FileAnalysis {
+    return {
+        ...(config.analysis.performance && {
+            performance: performanceAnalyzer.analyzeFile(sourceFile, project, rules)
+        }),
+        ...(config.analysis.memory && {
+            memoryLeaks: memoryLeakDetector.detectFile(sourceFile, project, rules)
+        })
+    };
+}
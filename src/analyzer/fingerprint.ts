@@ -0,0 +1,46 @@
+import crypto from 'crypto';
+import path from 'path';
+import { SourceFile } from 'ts-morph';
+import { compareIssues, Issue } from './Issue.js';
+import { toPosix } from '../utils/glob.js';
+
+// A ts-morph Project, or several of them in a monorepo
+export interface SourceFileLookup {
+    getSourceFile(filePath: string): SourceFile | undefined;
+}
+
+// Fingerprints identify a finding independently of its line number so that
+// baselines survive code being added above it. The hash covers the rule,
+// the file relative to the project root, the whitespace-normalized text of
+// the flagged line and the occurrence index of that combination in the file.
+export function fingerprintIssues(issues: Issue[], files: SourceFileLookup, rootDir: string): Issue[] {
+    const lineCache = new Map<string, string[]>();
+    const occurrences = new Map<string, number>();
+
+    const getLine = (file: string, line: number): string => {
+        if (!lineCache.has(file)) {
+            const text = files.getSourceFile(file)?.getFullText() ?? '';
+            lineCache.set(file, text.split(/\r?\n/));
+        }
+        return lineCache.get(file)![line - 1] ?? '';
+    };
+
+    const fingerprints = new Map<Issue, string>();
+    for (const issue of [...issues].sort(compareIssues)) {
+        const key = [
+            issue.ruleId,
+            toPosix(path.relative(rootDir, issue.file)),
+            getLine(issue.file, issue.startLine).replace(/\s+/g, ' ').trim()
+        ].join('\0');
+        const occurrence = occurrences.get(key) ?? 0;
+        occurrences.set(key, occurrence + 1);
+
+        fingerprints.set(issue, crypto
+            .createHash('sha256')
+            .update(`${key}\0${occurrence}`)
+            .digest('hex')
+            .substring(0, 16));
+    }
+
+    return issues.map(issue => ({ ...issue, fingerprint: fingerprints.get(issue) }));
+}
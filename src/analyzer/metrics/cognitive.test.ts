@@ -0,0 +1,31 @@
+import { createInMemoryProject } from '../project.js';
+import { calculateCognitiveComplexity } from './cognitive.js';
+import { ComplexityNode, isComplexityNode } from './complexity.js';
+
+function cognitive(source: string): number {
+    const sourceFile = createInMemoryProject({ '/src/f.ts': source }).getSourceFileOrThrow('/src/f.ts');
+    const [first] = sourceFile.getDescendants().filter(isComplexityNode) as ComplexityNode[];
+    return calculateCognitiveComplexity(first);
+}
+
+describe('calculateCognitiveComplexity', () => {
+    it.each([
+        ['a flat switch as one', 'function f(a: number) { switch (a) { case 1: return 1; case 2: return 2; case 3: return 3; } }', 1],
+        ['the nesting level on top of each structure', 'function f(a: number[][]) { for (const row of a) { for (const x of row) { if (x) {} } } }', 6],
+        ['the nesting of a ternary and a catch', 'function f(a: boolean) { try { if (a) { return a ? 1 : 2; } } catch { while (a) {} } }', 6],
+        ['else if and else as one each, without nesting', 'function f(a: number) { if (a > 2) {} else if (a > 1) {} else if (a > 0) {} else {} }', 4],
+        ['an else if chain inside a loop', 'function f(a: number[]) { for (const x of a) { if (x > 1) {} else if (x > 0) {} else {} } }', 5],
+        ['a nested if inside else at the else level', 'function f(a: number) { if (a) {} else { if (a > 1) {} } }', 4],
+        ['a recursive call', 'function f(n: number): number { return n <= 1 ? 1 : n * f(n - 1); }', 2],
+        ['a recursive method call through this', 'class A { f(n: number): number { if (n > 0) return this.f(n - 1); return 0; } }', 2],
+        ['a sequence of like operators as one', 'function f(a: boolean, b: boolean, c: boolean) { return a && b && c; }', 1],
+        ['each change of operator', 'function f(a: boolean, b: boolean, c: boolean, d: boolean) { return a && b || c && d; }', 3],
+        ['parenthesized operands as part of the sequence', 'function f(a: boolean, b: boolean, c: boolean) { return a && (b && c); }', 1],
+        ['a negated group as its own sequence', 'function f(a: boolean, b: boolean, c: boolean) { return !(a && b) && c; }', 2],
+        ['?? like && and ||', 'function f(a?: number, b?: number, c = false) { return (a ?? b) || c; }', 2],
+        ['labeled jumps but not plain ones', 'function f(a: number[][]) { outer: for (const row of a) { for (const x of row) { if (x) continue outer; break; } } }', 7],
+        ['nothing for nested functions', 'function f(a: number[]) { return a.map(x => (x > 0 ? x : 0)); }', 0]
+    ])('counts %s', (_description, source, expected) => {
+        expect(cognitive(source)).toBe(expected);
+    });
+});
@@ -0,0 +1,120 @@
+import { IfStatement, Node, SyntaxKind } from 'ts-morph';
+import { ComplexityNode, getBindingName, isCallable } from './complexity.js';
+
+const LOGICAL_OPERATORS = new Set([
+    SyntaxKind.AmpersandAmpersandToken,
+    SyntaxKind.BarBarToken,
+    SyntaxKind.QuestionQuestionToken
+]);
+
+// Cognitive complexity after the SonarSource specification:
+// - +1 for each if, else if, else, ternary, switch, loop and catch, plus the
+//   current nesting level for all of them except else and else if
+// - +1 for each sequence of like logical operators (a && b && c is one,
+//   a && b || c is two) and for each labeled break or continue
+// - +1 for each recursive call
+// Nested functions are scored on their own and add nothing here.
+export function calculateCognitiveComplexity(node: ComplexityNode): number {
+    const name = getBindingName(node);
+    let complexity = 0;
+
+    const visitIf = (statement: IfStatement, nesting: number) => {
+        visit(statement.getExpression(), nesting);
+        visit(statement.getThenStatement(), nesting + 1);
+
+        const elseStatement = statement.getElseStatement();
+        if (elseStatement) {
+            complexity++;
+            if (Node.isIfStatement(elseStatement)) {
+                visitIf(elseStatement, nesting);
+            } else {
+                visit(elseStatement, nesting + 1);
+            }
+        }
+    };
+
+    const visit = (child: Node, nesting: number): void => {
+        if (isCallable(child)) {
+            return;
+        }
+
+        switch (child.getKind()) {
+            case SyntaxKind.IfStatement:
+                complexity += 1 + nesting;
+                visitIf(child as IfStatement, nesting);
+                return;
+            case SyntaxKind.ForStatement:
+            case SyntaxKind.ForInStatement:
+            case SyntaxKind.ForOfStatement:
+            case SyntaxKind.WhileStatement:
+            case SyntaxKind.DoStatement:
+            case SyntaxKind.SwitchStatement:
+            case SyntaxKind.CatchClause:
+            case SyntaxKind.ConditionalExpression:
+                complexity += 1 + nesting;
+                child.forEachChild(grandchild => visit(grandchild, nesting + 1));
+                return;
+            case SyntaxKind.BreakStatement:
+            case SyntaxKind.ContinueStatement:
+                if ((Node.isBreakStatement(child) || Node.isContinueStatement(child)) && child.getLabel()) {
+                    complexity++;
+                }
+                break;
+            case SyntaxKind.BinaryExpression:
+                if (isLogicalExpression(child) && !isLogicalExpression(getParentSkippingParentheses(child))) {
+                    complexity += countOperatorSequences(child);
+                }
+                break;
+            case SyntaxKind.CallExpression:
+                if (name && Node.isCallExpression(child) && isSelfReference(child.getExpression(), name)) {
+                    complexity++;
+                }
+                break;
+        }
+
+        child.forEachChild(grandchild => visit(grandchild, nesting));
+    };
+
+    node.forEachChild(child => visit(child, 0));
+    return complexity;
+}
+
+function isLogicalExpression(node: Node | undefined): boolean {
+    return Node.isBinaryExpression(node) && LOGICAL_OPERATORS.has(node.getOperatorToken().getKind());
+}
+
+function getParentSkippingParentheses(node: Node): Node | undefined {
+    let parent = node.getParent();
+    while (Node.isParenthesizedExpression(parent)) {
+        parent = parent.getParent();
+    }
+    return parent;
+}
+
+// Number of runs of the same operator in a flattened logical expression
+function countOperatorSequences(node: Node): number {
+    const operators: SyntaxKind[] = [];
+    const flatten = (expression: Node) => {
+        while (Node.isParenthesizedExpression(expression)) {
+            expression = expression.getExpression();
+        }
+        if (Node.isBinaryExpression(expression) && isLogicalExpression(expression)) {
+            flatten(expression.getLeft());
+            operators.push(expression.getOperatorToken().getKind());
+            flatten(expression.getRight());
+        }
+    };
+    flatten(node);
+
+    return operators.filter((operator, index) => index === 0 || operator !== operators[index - 1]).length;
+}
+
+// f() inside function f, or this.f() inside method f
+function isSelfReference(callee: Node, name: string): boolean {
+    if (Node.isIdentifier(callee)) {
+        return callee.getText() === name;
+    }
+    return Node.isPropertyAccessExpression(callee)
+        && callee.getExpression().getKind() === SyntaxKind.ThisKeyword
+        && callee.getName() === name;
+}
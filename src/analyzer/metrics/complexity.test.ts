@@ -0,0 +1,29 @@
+import { createInMemoryProject } from '../project.js';
+import { calculateCyclomaticComplexity } from './complexity.js';
+
+function cyclomatic(source: string): number {
+    const sourceFile = createInMemoryProject({ '/src/f.ts': source }).getSourceFileOrThrow('/src/f.ts');
+    return calculateCyclomaticComplexity(sourceFile.getFunctionOrThrow('f'));
+}
+
+describe('calculateCyclomaticComplexity', () => {
+    it.each([
+        ['an empty function', 'function f() {}', 1],
+        ['if and else', 'function f(a: boolean) { if (a) return 1; else return 2; }', 2],
+        ['else if', 'function f(a: number) { if (a > 1) return 1; else if (a > 0) return 2; return 3; }', 3],
+        ['a ternary', 'function f(a: boolean) { return a ? 1 : 2; }', 2],
+        ['&&, || and ??', 'function f(a?: boolean, b?: boolean) { return (a && b) || (a ?? b); }', 4],
+        ['logical assignments', 'function f(a: { x?: number; y?: boolean }) { a.x ??= 1; a.y ||= true; a.y &&= false; }', 4],
+        ['each link of an optional chain', 'function f(a?: { b?: { c(): void } }) { a?.b?.c(); }', 3],
+        ['optional calls and element access', 'function f(a?: number[], g?: () => void) { g?.(); return a?.[0]; }', 3],
+        ['parameter defaults', 'function f(a = 1, b = 2) { return a + b; }', 3],
+        ['destructuring defaults', 'function f({ a = 1, b }: { a?: number; b: number }) { const [c = 0] = [b]; return a + c; }', 3],
+        ['loops', 'function f(a: number[]) { for (const x of a) {} for (const k in a) {} for (;;) break; while (a.length) a.pop(); do {} while (false); }', 6],
+        ['case clauses but not default', 'function f(a: number) { switch (a) { case 1: return 1; case 2: return 2; default: return 0; } }', 3],
+        ['catch but not try or finally', 'function f() { try { return 1; } catch { return 2; } finally {} }', 2],
+        ['nothing for nested functions, which are scored on their own', 'function f(a: number[]) { return a.filter(x => x > 0 && x < 10); }', 1],
+        ['nothing for field initializers and static blocks of a nested class', 'function f(a?: number) { return class { x = a ?? 0; static { if (a) {} } }; }', 1]
+    ])('counts %s', (_description, source, expected) => {
+        expect(cyclomatic(source)).toBe(expected);
+    });
+});
@@ -0,0 +1,189 @@
+import {
+    ArrowFunction,
+    ConstructorDeclaration,
+    FunctionDeclaration,
+    FunctionExpression,
+    GetAccessorDeclaration,
+    MethodDeclaration,
+    Node,
+    SetAccessorDeclaration,
+    SyntaxKind
+} from 'ts-morph';
+
+// Everything that has its own complexity score. Nested callables are
+// scored separately and never add to the function they are declared in.
+export type ComplexityNode =
+    | FunctionDeclaration
+    | FunctionExpression
+    | ArrowFunction
+    | MethodDeclaration
+    | ConstructorDeclaration
+    | GetAccessorDeclaration
+    | SetAccessorDeclaration;
+
+const CALLABLE_KINDS = new Set<SyntaxKind>([
+    SyntaxKind.FunctionDeclaration,
+    SyntaxKind.FunctionExpression,
+    SyntaxKind.ArrowFunction,
+    SyntaxKind.MethodDeclaration,
+    SyntaxKind.Constructor,
+    SyntaxKind.GetAccessor,
+    SyntaxKind.SetAccessor
+]);
+
+// Logical operators and logical assignments each add a path
+const BRANCHING_OPERATORS = new Set([
+    SyntaxKind.AmpersandAmpersandToken,
+    SyntaxKind.BarBarToken,
+    SyntaxKind.QuestionQuestionToken,
+    SyntaxKind.AmpersandAmpersandEqualsToken,
+    SyntaxKind.BarBarEqualsToken,
+    SyntaxKind.QuestionQuestionEqualsToken
+]);
+
+// Any callable, including overloads and abstract methods without a body
+export function isCallable(node: Node): node is ComplexityNode {
+    return CALLABLE_KINDS.has(node.getKind());
+}
+
+// Callables with a body, i.e. the ones that get metrics
+export function isComplexityNode(node: Node): node is ComplexityNode {
+    return isCallable(node) && node.getBody() !== undefined;
+}
+
+// Cyclomatic complexity of one callable, counted the way ESLint 9's
+// complexity rule does: 1, plus 1 for each
+// - if, ternary, for, for-in, for-of, while and do-while
+// - case clause (not default) and catch clause
+// - &&, ||, ?? and their assignment forms &&=, ||=, ??=
+// - optional chaining link (a?.b, a?.[i], f?.())
+// - default value of a parameter or destructured binding
+// else, switch, try, finally and labeled jumps add nothing, and nested
+// callables are skipped. ESLint 8 counts neither optional chaining nor
+// default values, so it reports less for functions that use them.
+// Class field initializers and static blocks of a nested class are skipped
+// too; ESLint 9 scores them on their own, but they get no metrics here.
+export function calculateCyclomaticComplexity(node: ComplexityNode): number {
+    let complexity = 1;
+
+    const visit = (child: Node): void => {
+        if (isCallable(child) || Node.isPropertyDeclaration(child) || Node.isClassStaticBlockDeclaration(child)) {
+            return;
+        }
+        if (isDecisionPoint(child)) {
+            complexity++;
+        }
+        child.forEachChild(visit);
+    };
+
+    node.forEachChild(visit);
+    return complexity;
+}
+
+function isDecisionPoint(node: Node): boolean {
+    switch (node.getKind()) {
+        case SyntaxKind.IfStatement:
+        case SyntaxKind.ConditionalExpression:
+        case SyntaxKind.ForStatement:
+        case SyntaxKind.ForInStatement:
+        case SyntaxKind.ForOfStatement:
+        case SyntaxKind.WhileStatement:
+        case SyntaxKind.DoStatement:
+        case SyntaxKind.CaseClause:
+        case SyntaxKind.CatchClause:
+            return true;
+        case SyntaxKind.BinaryExpression:
+            return Node.isBinaryExpression(node) && BRANCHING_OPERATORS.has(node.getOperatorToken().getKind());
+        case SyntaxKind.Parameter:
+        case SyntaxKind.BindingElement:
+            return (Node.isParameterDeclaration(node) || Node.isBindingElement(node)) && node.hasInitializer();
+        case SyntaxKind.PropertyAccessExpression:
+        case SyntaxKind.ElementAccessExpression:
+        case SyntaxKind.CallExpression:
+            return Node.isQuestionDotTokenable(node) && node.hasQuestionDotToken();
+        default:
+            return false;
+    }
+}
+
+// The name a callable can refer to itself by: its own name or, when it is
+// anonymous, the variable or property it is assigned to
+export function getBindingName(node: ComplexityNode): string | undefined {
+    if (Node.isConstructorDeclaration(node)) {
+        return 'constructor';
+    }
+    if (!Node.isArrowFunction(node)) {
+        const name = node.getName();
+        if (name) return name;
+    }
+
+    const parent = node.getParent();
+    if (Node.isVariableDeclaration(parent) || Node.isPropertyAssignment(parent) || Node.isPropertyDeclaration(parent)) {
+        return parent.getName();
+    }
+    return undefined;
+}
+
+// Name shown in reports, e.g. "parse", "Lexer.next", "get Lexer.position"
+export function getCallableName(node: ComplexityNode): string {
+    const name = getBindingName(node);
+    if (!name) {
+        return 'anonymous function';
+    }
+
+    // Class members, including arrow functions assigned to class fields
+    const parent = node.getParent();
+    const member = Node.isPropertyDeclaration(parent) ? parent : node;
+    const owner = member.getParent();
+    const qualified = (Node.isClassDeclaration(owner) || Node.isClassExpression(owner)) && owner.getName()
+        ? `${owner.getName()}.${name}`
+        : name;
+
+    if (Node.isGetAccessorDeclaration(node)) return `get ${qualified}`;
+    if (Node.isSetAccessorDeclaration(node)) return `set ${qualified}`;
+    return qualified;
+}
+
+// Deepest nesting of blocks, counted like ESLint's max-depth: if (but not
+// else if), switch, try, loops and with each open one level
+export function calculateNestingDepth(node: ComplexityNode): number {
+    let maxDepth = 0;
+
+    const visit = (child: Node, depth: number): void => {
+        if (isCallable(child)) {
+            return;
+        }
+
+        let next = depth;
+        if (isNestingStatement(child) && !isElseIf(child)) {
+            next = depth + 1;
+            maxDepth = Math.max(maxDepth, next);
+        }
+        child.forEachChild(grandchild => visit(grandchild, next));
+    };
+
+    node.forEachChild(child => visit(child, 0));
+    return maxDepth;
+}
+
+function isNestingStatement(node: Node): boolean {
+    switch (node.getKind()) {
+        case SyntaxKind.IfStatement:
+        case SyntaxKind.SwitchStatement:
+        case SyntaxKind.TryStatement:
+        case SyntaxKind.ForStatement:
+        case SyntaxKind.ForInStatement:
+        case SyntaxKind.ForOfStatement:
+        case SyntaxKind.WhileStatement:
+        case SyntaxKind.DoStatement:
+        case SyntaxKind.WithStatement:
+            return true;
+        default:
+            return false;
+    }
+}
+
+function isElseIf(node: Node): boolean {
+    const parent = node.getParent();
+    return Node.isIfStatement(node) && Node.isIfStatement(parent) && parent.getElseStatement() === node;
+}
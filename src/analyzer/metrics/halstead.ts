@@ -0,0 +1,68 @@
+import { ts } from 'ts-morph';
+import { Token } from './tokens.js';
+
+export interface HalsteadMetrics {
+    // Distinct and total operators
+    distinctOperators: number;
+    operators: number;
+    // Distinct and total operands
+    distinctOperands: number;
+    operands: number;
+    // N * log2(n): the information content of the code in bits
+    volume: number;
+}
+
+const OPERAND_KINDS = new Set<ts.SyntaxKind>([
+    ts.SyntaxKind.Identifier,
+    ts.SyntaxKind.PrivateIdentifier,
+    ts.SyntaxKind.NumericLiteral,
+    ts.SyntaxKind.BigIntLiteral,
+    ts.SyntaxKind.StringLiteral,
+    ts.SyntaxKind.RegularExpressionLiteral,
+    ts.SyntaxKind.NoSubstitutionTemplateLiteral,
+    ts.SyntaxKind.TemplateHead,
+    ts.SyntaxKind.TemplateMiddle,
+    ts.SyntaxKind.TemplateTail,
+    ts.SyntaxKind.JsxText,
+    ts.SyntaxKind.TrueKeyword,
+    ts.SyntaxKind.FalseKeyword,
+    ts.SyntaxKind.NullKeyword,
+    ts.SyntaxKind.ThisKeyword,
+    ts.SyntaxKind.SuperKeyword
+]);
+
+// Closing halves of pairs; the opening token already counts as the operator
+const IGNORED_KINDS = new Set<ts.SyntaxKind>([
+    ts.SyntaxKind.CloseParenToken,
+    ts.SyntaxKind.CloseBracketToken,
+    ts.SyntaxKind.CloseBraceToken
+]);
+
+// Token-based Halstead measures: identifiers and literals are operands,
+// every other token (keywords, punctuation, operators) is an operator
+export function calculateHalstead(tokens: Token[]): HalsteadMetrics {
+    const operators = new Set<string>();
+    const operands = new Set<string>();
+    let operatorCount = 0;
+    let operandCount = 0;
+
+    for (const token of tokens) {
+        if (OPERAND_KINDS.has(token.kind)) {
+            operands.add(token.text);
+            operandCount++;
+        } else if (!IGNORED_KINDS.has(token.kind)) {
+            operators.add(token.text);
+            operatorCount++;
+        }
+    }
+
+    const vocabulary = operators.size + operands.size;
+    const length = operatorCount + operandCount;
+    return {
+        distinctOperators: operators.size,
+        operators: operatorCount,
+        distinctOperands: operands.size,
+        operands: operandCount,
+        volume: vocabulary > 1 ? Math.round(length * Math.log2(vocabulary) * 100) / 100 : 0
+    };
+}
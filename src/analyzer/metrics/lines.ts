@@ -0,0 +1,44 @@
+import { SourceFile, ts } from 'ts-morph';
+import { Token } from './tokens.js';
+
+export interface LineCounts {
+    total: number;
+    // Lines with at least one token, including lines that also hold a comment
+    source: number;
+    // Lines holding only comments
+    comment: number;
+    blank: number;
+}
+
+type LineKind = 'blank' | 'comment' | 'source';
+
+// Classifies every line of a file once, so that line counts of any range
+// (a function, the whole file) are a simple tally
+export class LineClassifier {
+    private readonly kinds: LineKind[];
+
+    constructor(sourceFile: SourceFile, tokens: Token[]) {
+        const file = sourceFile.compilerNode;
+        const lines = file.getFullText().split(/\r?\n/);
+        this.kinds = lines.map((line): LineKind => line.trim() === '' ? 'blank' : 'comment');
+
+        // Anything that is neither whitespace nor part of a token is a comment
+        for (const token of tokens) {
+            const first = ts.getLineAndCharacterOfPosition(file, token.start).line;
+            const last = ts.getLineAndCharacterOfPosition(file, Math.max(token.start, token.end - 1)).line;
+            for (let line = first; line <= last; line++) {
+                this.kinds[line] = 'source';
+            }
+        }
+    }
+
+    // Counts for the 1-based, inclusive line range; the whole file by default
+    public count(firstLine = 1, lastLine = this.kinds.length): LineCounts {
+        const counts: LineCounts = { total: 0, source: 0, comment: 0, blank: 0 };
+        for (let line = firstLine - 1; line < lastLine && line < this.kinds.length; line++) {
+            counts.total++;
+            counts[this.kinds[line]]++;
+        }
+        return counts;
+    }
+}
@@ -0,0 +1,92 @@
+import { SourceFile } from 'ts-morph';
+import { calculateCyclomaticComplexity, calculateNestingDepth, getCallableName, isComplexityNode } from './complexity.js';
+import { calculateCognitiveComplexity } from './cognitive.js';
+import { calculateHalstead } from './halstead.js';
+import { LineClassifier, LineCounts } from './lines.js';
+import { collectTokens, tokensInRange } from './tokens.js';
+
+export interface FunctionMetrics {
+    name: string;
+    file: string;
+    line: number;
+    cyclomaticComplexity: number;
+    cognitiveComplexity: number;
+    nestingDepth: number;
+    parameters: number;
+    lines: LineCounts;
+    halsteadVolume: number;
+    maintainabilityIndex: number;
+}
+
+export interface FileMetrics {
+    file: string;
+    lines: LineCounts;
+    functions: number;
+    // Sums over the file's functions
+    cyclomaticComplexity: number;
+    cognitiveComplexity: number;
+    // Deepest nesting and most parameters in any of the file's functions
+    nestingDepth: number;
+    parameters: number;
+    halsteadVolume: number;
+    maintainabilityIndex: number;
+}
+
+export function measureFile(sourceFile: SourceFile): { metrics: FileMetrics; functions: FunctionMetrics[] } {
+    const filePath = sourceFile.getFilePath();
+    const tokens = collectTokens(sourceFile);
+    const lines = new LineClassifier(sourceFile, tokens);
+    const functions: FunctionMetrics[] = [];
+
+    sourceFile.forEachDescendant(node => {
+        if (!isComplexityNode(node)) return;
+
+        const cyclomaticComplexity = calculateCyclomaticComplexity(node);
+        const functionLines = lines.count(node.getStartLineNumber(), node.getEndLineNumber());
+        const halsteadVolume = calculateHalstead(tokensInRange(tokens, node.getStart(), node.getEnd())).volume;
+        functions.push({
+            name: getCallableName(node),
+            file: filePath,
+            line: node.getStartLineNumber(),
+            cyclomaticComplexity,
+            cognitiveComplexity: calculateCognitiveComplexity(node),
+            nestingDepth: calculateNestingDepth(node),
+            parameters: node.getParameters().filter(parameter => parameter.getName() !== 'this').length,
+            lines: functionLines,
+            halsteadVolume,
+            maintainabilityIndex: calculateMaintainabilityIndex(halsteadVolume, cyclomaticComplexity, functionLines.source)
+        });
+    });
+
+    const fileLines = lines.count();
+    const cyclomaticComplexity = functions.reduce((sum, fn) => sum + fn.cyclomaticComplexity, 0);
+    const halsteadVolume = calculateHalstead(tokens).volume;
+    return {
+        metrics: {
+            file: filePath,
+            lines: fileLines,
+            functions: functions.length,
+            cyclomaticComplexity,
+            cognitiveComplexity: functions.reduce((sum, fn) => sum + fn.cognitiveComplexity, 0),
+            nestingDepth: functions.reduce((max, fn) => Math.max(max, fn.nestingDepth), 0),
+            parameters: functions.reduce((max, fn) => Math.max(max, fn.parameters), 0),
+            halsteadVolume,
+            // Averaged over functions like Visual Studio does for types, since
+            // the formula applied to a whole file drops to 0 for any large file
+            maintainabilityIndex: functions.length > 0
+                ? Math.round(functions.reduce((sum, fn) => sum + fn.maintainabilityIndex, 0) / functions.length)
+                : calculateMaintainabilityIndex(halsteadVolume, 1, fileLines.source)
+        },
+        functions
+    };
+}
+
+// The Visual Studio variant of the maintainability index, scaled to 0-100:
+// (171 - 5.2 ln(volume) - 0.23 complexity - 16.2 ln(SLOC)) * 100 / 171
+export function calculateMaintainabilityIndex(halsteadVolume: number, cyclomaticComplexity: number, sourceLines: number): number {
+    const index = 171
+        - 5.2 * Math.log(Math.max(1, halsteadVolume))
+        - 0.23 * cyclomaticComplexity
+        - 16.2 * Math.log(Math.max(1, sourceLines));
+    return Math.round(Math.min(100, Math.max(0, index * 100 / 171)));
+}
@@ -0,0 +1,37 @@
+import { createInMemoryProject } from '../project.js';
+import { measureFile } from './measure.js';
+import { rankByMetric } from './ranking.js';
+
+function measure(files: Record<string, string>) {
+    const project = createInMemoryProject(files);
+    return project.getSourceFiles().map(sourceFile => measureFile(sourceFile));
+}
+
+describe('rankByMetric', () => {
+    const measured = measure({
+        '/src/few.ts': 'export function one(a: number) {\n    return a;\n}\n',
+        '/src/many.ts': [
+            'export function none() {}',
+            'export function four(this: unknown, a: number, b: number, c: number, d: number) {',
+            '    return a + b + c + d;',
+            '}',
+            ''
+        ].join('\n')
+    });
+
+    it('ranks functions by parameter count, not counting "this"', () => {
+        const [first] = rankByMetric(measured.flatMap(({ functions }) => functions), 'params');
+        expect(first).toMatchObject({ name: 'four', parameters: 4 });
+    });
+
+    it('ranks files by the most parameters of any of their functions', () => {
+        const files = rankByMetric(measured.map(({ metrics }) => metrics), 'params');
+        expect(files.map(file => [file.file, file.parameters])).toEqual([['/src/many.ts', 4], ['/src/few.ts', 1]]);
+    });
+
+    it('puts the lowest maintainability index first and applies the limit', () => {
+        const functions = measured.flatMap(({ functions }) => functions);
+        const [worst] = rankByMetric(functions, 'maintainability', 1);
+        expect(worst.maintainabilityIndex).toBe(Math.min(...functions.map(fn => fn.maintainabilityIndex)));
+    });
+});
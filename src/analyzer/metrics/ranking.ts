@@ -0,0 +1,43 @@
+import { FileMetrics, FunctionMetrics } from './measure.js';
+
+export type MetricSortKey = 'cyclomatic' | 'cognitive' | 'nesting' | 'params' | 'sloc' | 'volume' | 'maintainability';
+
+export const METRIC_SORT_KEYS: MetricSortKey[] = ['cyclomatic', 'cognitive', 'nesting', 'params', 'sloc', 'volume', 'maintainability'];
+
+export const METRIC_LABELS: Record<MetricSortKey, string> = {
+    cyclomatic: 'cyclomatic complexity',
+    cognitive: 'cognitive complexity',
+    nesting: 'nesting depth',
+    params: 'parameter count',
+    sloc: 'source lines',
+    volume: 'Halstead volume',
+    maintainability: 'maintainability index'
+};
+
+type Measured = FunctionMetrics | FileMetrics;
+
+const SELECTORS: Record<MetricSortKey, (item: Measured) => number> = {
+    cyclomatic: item => item.cyclomaticComplexity,
+    cognitive: item => item.cognitiveComplexity,
+    nesting: item => item.nestingDepth,
+    params: item => item.parameters,
+    sloc: item => item.lines.source,
+    volume: item => item.halsteadVolume,
+    // Lower is worse
+    maintainability: item => -item.maintainabilityIndex
+};
+
+export function isMetricSortKey(value: string): value is MetricSortKey {
+    return (METRIC_SORT_KEYS as string[]).includes(value);
+}
+
+// Worst first by the given metric; ties keep file and line order.
+// Returns at most `limit` items when a limit is given.
+export function rankByMetric<T extends Measured>(items: T[], key: MetricSortKey, limit?: number): T[] {
+    const select = SELECTORS[key];
+    const ranked = [...items].sort((a, b) =>
+        select(b) - select(a)
+        || a.file.localeCompare(b.file)
+        || ('line' in a && 'line' in b ? a.line - b.line : 0));
+    return limit === undefined ? ranked : ranked.slice(0, limit);
+}
@@ -0,0 +1,53 @@
+import { SourceFile, ts } from 'ts-morph';
+
+export interface Token {
+    kind: ts.SyntaxKind;
+    text: string;
+    start: number;
+    end: number;
+}
+
+// All tokens of a file in source order, comments and JSDoc excluded
+export function collectTokens(sourceFile: SourceFile): Token[] {
+    const file = sourceFile.compilerNode;
+    const text = file.getFullText();
+    const tokens: Token[] = [];
+
+    const visit = (node: ts.Node) => {
+        if (node.kind >= ts.SyntaxKind.FirstJSDocNode && node.kind <= ts.SyntaxKind.LastJSDocNode) {
+            return;
+        }
+        const children = node.getChildren(file);
+        if (children.length === 0) {
+            if (node.kind !== ts.SyntaxKind.EndOfFileToken) {
+                const start = node.getStart(file);
+                tokens.push({ kind: node.kind, text: text.slice(start, node.end), start, end: node.end });
+            }
+            return;
+        }
+        children.forEach(visit);
+    };
+    visit(file);
+
+    return tokens;
+}
+
+// The tokens that start within [start, end), found by binary search
+export function tokensInRange(tokens: Token[], start: number, end: number): Token[] {
+    let low = 0;
+    let high = tokens.length;
+    while (low < high) {
+        const middle = (low + high) >> 1;
+        if (tokens[middle].start < start) {
+            low = middle + 1;
+        } else {
+            high = middle;
+        }
+    }
+
+    let last = low;
+    while (last < tokens.length && tokens[last].start < end) {
+        last++;
+    }
+    return tokens.slice(low, last);
+}
@@ -0,0 +1,98 @@
+import { Worker } from 'worker_threads';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { FileAnalysis } from './fileAnalysis.js';
+import { FileImport } from './DependencyAnalyzer.js';
+import { ResolvedConfig } from '../config/loader.js';
+import logger, { isLoggingEnabled } from '../utils/logger.js';
+
+// Work for one file: its per-file analyzers, its import list, or both
+export interface WorkerTask {
+    filePath: string;
+    analyze: boolean;
+    imports: boolean;
+    // File size, used to balance shards
+    size: number;
+}
+
+export interface WorkerResult {
+    filePath: string;
+    analysis?: FileAnalysis;
+    imports?: FileImport[];
+}
+
+// Everything a worker needs to rebuild the project and rule set on its own;
+// ts-morph nodes and rule functions cannot cross thread boundaries
+export interface WorkerInput {
+    config: ResolvedConfig;
+    tsconfigPath: string;
+    tasks: WorkerTask[];
+    // Whether the main thread has logging enabled
+    logging: boolean;
+}
+
+// The worker is loaded with the same extension as this module. Loader
+// hooks such as tsx are not inherited by worker threads on Node 20, so
+// workers are only available when running the compiled JavaScript.
+const workerExtension = path.extname(fileURLToPath(import.meta.url));
+const workerUrl = new URL(`./analysisWorker${workerExtension}`, import.meta.url);
+
+export function canUseWorkers(): boolean {
+    return workerExtension === '.js';
+}
+
+// Splits tasks into at most `jobs` shards of roughly equal total size.
+// Largest files are assigned first, each to the lightest shard, with ties
+// broken by path so the split is the same on every run.
+export function shardTasks(tasks: WorkerTask[], jobs: number): WorkerTask[][] {
+    const shards = Array.from({ length: Math.min(jobs, tasks.length) }, () => ({ size: 0, tasks: [] as WorkerTask[] }));
+    const ordered = [...tasks].sort((a, b) => b.size - a.size || a.filePath.localeCompare(b.filePath));
+
+    for (const task of ordered) {
+        const lightest = shards.reduce((min, shard) => shard.size < min.size ? shard : min);
+        lightest.tasks.push(task);
+        lightest.size += task.size;
+    }
+
+    return shards.map(shard => shard.tasks);
+}
+
+// Runs the tasks across worker threads. Results are keyed by file path;
+// callers merge them in project order, so completion order does not
+// affect the report.
+export async function runInWorkers(
+    tasks: WorkerTask[],
+    config: ResolvedConfig,
+    tsconfigPath: string,
+    jobs: number
+): Promise<Map<string, WorkerResult>> {
+    const shards = shardTasks(tasks, jobs);
+    logger.info(`Analyzing ${tasks.length} files in ${shards.length} worker threads`);
+
+    const shardResults = await Promise.all(shards.map(shard => runWorker({ config, tsconfigPath, tasks: shard, logging: isLoggingEnabled() })));
+
+    const results = new Map<string, WorkerResult>();
+    for (const result of shardResults.flat()) {
+        results.set(result.filePath, result);
+    }
+    return results;
+}
+
+function runWorker(input: WorkerInput): Promise<WorkerResult[]> {
+    return new Promise((resolve, reject) => {
+        const worker = new Worker(workerUrl, { workerData: input });
+        let results: WorkerResult[] | null = null;
+
+        worker.once('message', (message: WorkerResult[]) => {
+            results = message;
+        });
+        worker.once('error', reject);
+        worker.once('exit', code => {
+            if (results) {
+                resolve(results);
+            } else {
+                reject(new Error(`Analysis worker exited with code ${code} before returning results`));
+            }
+        });
+    });
+}
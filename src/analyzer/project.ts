@@ -0,0 +1,56 @@
+import { CompilerOptions, Project, ts } from 'ts-morph';
+import path from 'path';
+import logger from '../utils/logger.js';
+import { ResolvedConfig } from '../config/loader.js';
+import { createPathMatcher, hasGlobCharacters, toPosix } from '../utils/glob.js';
+
+// Builds the ts-morph project from tsconfig.json, narrowed to the
+// config's include/exclude lists when they are set
+export function createProject(tsconfigPath: string, config: ResolvedConfig): Project {
+    const hasInclude = config.include.length > 0;
+    const project = new Project({
+        tsConfigFilePath: tsconfigPath,
+        skipAddingFilesFromTsConfig: hasInclude
+    });
+
+    if (hasInclude) {
+        const patterns = config.include.map(entry => {
+            const absolute = toPosix(path.resolve(config.rootDir, entry));
+            return hasGlobCharacters(entry) ? absolute : `${absolute}/**/*.{ts,tsx,mts,cts}`;
+        });
+        project.addSourceFilesAtPaths(patterns);
+    }
+
+    if (config.exclude.length > 0) {
+        const isExcluded = createPathMatcher(config.exclude, config.rootDir);
+        for (const sourceFile of project.getSourceFiles()) {
+            if (isExcluded(sourceFile.getFilePath())) {
+                project.removeSourceFile(sourceFile);
+            }
+        }
+    }
+
+    logger.info(`Analyzing ${project.getSourceFiles().length} source files`);
+    return project;
+}
+
+// Builds a project from file contents keyed by path, without touching the
+// file system. Paths are used as given, e.g. "/src/index.ts".
+export function createInMemoryProject(files: Record<string, string>, compilerOptions: CompilerOptions = {}): Project {
+    const project = new Project({
+        useInMemoryFileSystem: true,
+        compilerOptions: {
+            target: ts.ScriptTarget.ES2022,
+            module: ts.ModuleKind.ESNext,
+            moduleResolution: ts.ModuleResolutionKind.Bundler,
+            strict: true,
+            ...compilerOptions
+        }
+    });
+
+    for (const [filePath, text] of Object.entries(files)) {
+        project.createSourceFile(filePath, text, { overwrite: true });
+    }
+
+    return project;
+}
@@ -0,0 +1,53 @@
+import { findBacktracking } from './backtracking.js';
+import { parseRegex, RegexSyntaxError } from './parser.js';
+
+describe('parseRegex', () => {
+    it('records quantifier bounds and source positions', () => {
+        const root = parseRegex('a{2,3}b');
+        expect(root).toMatchObject({
+            type: 'alternation',
+            branches: [[
+                { type: 'quantifier', min: 2, max: 3, start: 0, end: 6, body: { type: 'chars', start: 0, end: 1 } },
+                { type: 'chars', start: 6, end: 7 }
+            ]]
+        });
+    });
+
+    it('rejects invalid patterns', () => {
+        expect(() => parseRegex('(a')).toThrow(RegexSyntaxError);
+    });
+});
+
+describe('findBacktracking', () => {
+    it.each([
+        ['(a+)+$', '(a+)+', 'a+$'],
+        ['(\\w+\\s?)+$', '(\\w+\\s?)+', '\\w+(?:\\s\\w+)*$']
+    ])('flags nested quantifiers in %s as exponential', (pattern, fragment, safePattern) => {
+        expect(findBacktracking(pattern)).toEqual(expect.objectContaining({ risk: 'exponential', fragment, safePattern }));
+    });
+
+    it('flags repeated alternatives that overlap, taking flags into account', () => {
+        expect(findBacktracking('(a|a?)+$')).toMatchObject({ risk: 'exponential', fragment: '(a|a?)+' });
+        expect(findBacktracking('(A|a)+$')).toBeUndefined();
+        expect(findBacktracking('(A|a)+$', 'i')).toMatchObject({ risk: 'exponential' });
+    });
+
+    it('flags adjacent quantifiers over the same characters as polynomial', () => {
+        expect(findBacktracking('\\d+\\d+$')).toMatchObject({ risk: 'polynomial', safePattern: '\\d{2,}$' });
+        expect(findBacktracking('.*\\s*.*$')).toMatchObject({ risk: 'polynomial', fragment: '.*\\s*' });
+    });
+
+    it.each([
+        '^[a-z]+$',
+        '(a|b)+$',
+        '(?:[a-z]|\\d)+$',
+        // A mandatory separator keeps the repetitions apart
+        '([a-z]+\\.)+[a-z]+',
+        // Quantifiers that end the pattern never give characters back
+        '\\s*\\s*',
+        // Invalid patterns are left to the compiler
+        '['
+    ])('accepts %s', pattern => {
+        expect(findBacktracking(pattern)).toBeUndefined();
+    });
+});
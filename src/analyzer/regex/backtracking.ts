@@ -0,0 +1,257 @@
+import { CharSet } from './charSet.js';
+import { parseRegex, RegexNode } from './parser.js';
+
+export type BacktrackingRisk = 'exponential' | 'polynomial';
+
+export interface BacktrackingFinding {
+    risk: BacktrackingRisk;
+    // The part of the pattern that backtracks, e.g. "(\w+\s?)+"
+    fragment: string;
+    reason: string;
+    // The whole pattern rewritten without the ambiguity, when a safe form is known
+    safePattern?: string;
+}
+
+type Quantifier = Extract<RegexNode, { type: 'quantifier' }>;
+
+// Looks for the shapes behind catastrophic backtracking. A failing match
+// retries every way of splitting the input between ambiguous parts:
+// - exponential: an unbounded quantifier over something that can itself match
+//   the same text in several ways, e.g. (a+)+, (\w+\s?)+ or (a|a?)+
+// - polynomial: unbounded quantifiers in a row that can match the same
+//   characters, e.g. \d+\d+ or .*\s*.*
+// Returns the most severe finding, or undefined for safe and invalid patterns.
+export function findBacktracking(pattern: string, flags = ''): BacktrackingFinding | undefined {
+    let root: RegexNode;
+    try {
+        root = parseRegex(pattern, flags);
+    } catch {
+        return undefined;
+    }
+
+    // A quantifier that ends the whole pattern never has to give characters
+    // back, since nothing after it can fail: /\s*\s*/ is safe, /\s*\s*$/ is not
+    const last = new Set(sequencesOf(root).map(sequence => sequence[sequence.length - 1]));
+
+    const findings: BacktrackingFinding[] = [];
+    walk(root, node => {
+        if (node.type === 'quantifier' && node.max === Infinity && !last.has(node)) {
+            const finding = checkNestedQuantifier(node, pattern) ?? checkOverlappingAlternatives(node, pattern);
+            if (finding) findings.push(finding);
+        }
+        if (node.type === 'alternation') {
+            for (const branch of node.branches) {
+                const finding = checkAdjacentQuantifiers(branch.filter(element => !last.has(element)), pattern);
+                if (finding) findings.push(finding);
+            }
+        }
+    });
+
+    return findings.find(finding => finding.risk === 'exponential') ?? findings[0];
+}
+
+// (a+)+: the inner quantifier and the outer one can share out the same characters
+function checkNestedQuantifier(outer: Quantifier, pattern: string): BacktrackingFinding | undefined {
+    for (const sequence of sequencesOf(outer.body)) {
+        for (const [index, element] of sequence.entries()) {
+            const inner = findUnboundedQuantifier(element);
+            if (!inner) continue;
+
+            // Anything mandatory next to the inner quantifier must be able to
+            // match its characters too, or it separates the iterations: (a+b)+ is safe
+            const innerChars = charsOf(inner.body);
+            const separated = sequence.some((other, otherIndex) =>
+                otherIndex !== index && minLength(other) > 0 && !charsOf(other).overlaps(innerChars));
+            if (separated) continue;
+
+            return {
+                risk: 'exponential',
+                fragment: source(pattern, outer),
+                reason: `nested quantifier ${source(pattern, inner)} inside ${source(pattern, outer)}`,
+                safePattern: rewriteNested(outer, sequence, inner, pattern)
+            };
+        }
+    }
+    return undefined;
+}
+
+// (a|aa)+ or (\w|\d)+: one alternative matches text the other one also matches
+function checkOverlappingAlternatives(outer: Quantifier, pattern: string): BacktrackingFinding | undefined {
+    const body = unwrap(outer.body);
+    if (body.type !== 'alternation' || body.branches.length < 2) {
+        return undefined;
+    }
+
+    for (const [index, branch] of body.branches.entries()) {
+        for (const other of body.branches.slice(index + 1)) {
+            if (isCoveredBy(branch, other, pattern) || isCoveredBy(other, branch, pattern)) {
+                return {
+                    risk: 'exponential',
+                    fragment: source(pattern, outer),
+                    reason: `alternatives ${sequenceSource(pattern, branch)} and ${sequenceSource(pattern, other)} ` +
+                        `can match the same text inside ${source(pattern, outer)}`
+                };
+            }
+        }
+    }
+    return undefined;
+}
+
+// Whether repeating the single-class alternative `cover` can also match
+// everything `branch` matches; identical alternatives always can
+function isCoveredBy(branch: RegexNode[], cover: RegexNode[], pattern: string): boolean {
+    if (sequenceSource(pattern, branch) === sequenceSource(pattern, cover)) {
+        return true;
+    }
+    if (cover.length !== 1 || branch.every(element => minLength(element) === 0)) {
+        return false;
+    }
+
+    let single = unwrap(cover[0]);
+    if (single.type === 'quantifier') single = unwrap(single.body);
+    if (single.type !== 'chars') return false;
+
+    return branch.every(element => charsOf(element).isSubsetOf(single.set));
+}
+
+// \d+\d+: two unbounded quantifiers in a row, with only optional parts
+// between them, that can both match the same characters
+function checkAdjacentQuantifiers(sequence: RegexNode[], pattern: string): BacktrackingFinding | undefined {
+    for (const [index, first] of sequence.entries()) {
+        if (first.type !== 'quantifier' || first.max !== Infinity) continue;
+
+        for (const second of sequence.slice(index + 1)) {
+            if (second.type === 'quantifier' && second.max === Infinity && canMatchSameText(first.body, second.body)) {
+                const fragment = pattern.slice(first.start, second.end);
+                const sameBody = source(pattern, first.body) === source(pattern, second.body) && second.start === first.end;
+                return {
+                    risk: 'polynomial',
+                    fragment,
+                    reason: `${source(pattern, first)} and ${source(pattern, second)} can match the same characters`,
+                    safePattern: sameBody
+                        ? replace(pattern, first.start, second.end, source(pattern, first.body) + quantifierText(first.min + second.min))
+                        : undefined
+                };
+            }
+            if (minLength(second) > 0) break;
+        }
+    }
+    return undefined;
+}
+
+// Whether both nodes can repeat over the same characters. Mandatory parts
+// that only one side can match keep them apart: ([a-z]+\.)+[a-z]+ is safe
+function canMatchSameText(first: RegexNode, second: RegexNode): boolean {
+    const fits = (node: RegexNode, chars: CharSet) => sequencesOf(node).some(sequence =>
+        sequence.every(element => minLength(element) === 0 || charsOf(element).overlaps(chars)));
+    return charsOf(first).overlaps(charsOf(second)) && fits(first, charsOf(second)) && fits(second, charsOf(first));
+}
+
+// Rewrites the two common nested shapes: (a+)+ to a+, and (a+b?)+ to a+(?:ba+)*
+function rewriteNested(outer: Quantifier, sequence: RegexNode[], inner: Quantifier, pattern: string): string | undefined {
+    const innerBody = source(pattern, inner.body);
+
+    if (sequence.length === 1 && sequence[0] === inner) {
+        return replace(pattern, outer.start, outer.end, innerBody + quantifierText(outer.min * inner.min));
+    }
+
+    const [head, tail] = sequence;
+    if (sequence.length === 2 && head === inner && tail.type === 'quantifier' && tail.min === 0 && tail.max === 1
+        && inner.min >= 1 && outer.min >= 1) {
+        const repeated = source(pattern, inner);
+        return replace(pattern, outer.start, outer.end, `${repeated}(?:${source(pattern, tail.body)}${repeated})*`);
+    }
+    return undefined;
+}
+
+function quantifierText(min: number): string {
+    return min === 0 ? '*' : min === 1 ? '+' : `{${min},}`;
+}
+
+function findUnboundedQuantifier(node: RegexNode): Quantifier | undefined {
+    let found: Quantifier | undefined;
+    walk(node, child => {
+        if (!found && child.type === 'quantifier' && child.max === Infinity && minLength(child.body) > 0) {
+            found = child;
+        }
+    });
+    return found;
+}
+
+// The alternatives of a node, each as a sequence of elements
+function sequencesOf(node: RegexNode): RegexNode[][] {
+    const body = unwrap(node);
+    return body.type === 'alternation' ? body.branches : [[body]];
+}
+
+// Strips non-capturing and capturing groups and single-element alternations
+function unwrap(node: RegexNode): RegexNode {
+    while (true) {
+        if (node.type === 'group' && !node.lookaround) {
+            node = node.body;
+        } else if (node.type === 'alternation' && node.branches.length === 1 && node.branches[0].length === 1) {
+            node = node.branches[0][0];
+        } else {
+            return node;
+        }
+    }
+}
+
+// Every character the node can consume
+function charsOf(node: RegexNode): CharSet {
+    switch (node.type) {
+        case 'alternation':
+            return node.branches.flat().reduce((set, element) => set.union(charsOf(element)), CharSet.empty());
+        case 'group':
+            return node.lookaround ? CharSet.empty() : charsOf(node.body);
+        case 'quantifier':
+            return node.max === 0 ? CharSet.empty() : charsOf(node.body);
+        case 'chars':
+            return node.set;
+        case 'backreference':
+            return CharSet.all();
+        case 'assertion':
+            return CharSet.empty();
+    }
+}
+
+function minLength(node: RegexNode): number {
+    switch (node.type) {
+        case 'alternation':
+            return Math.min(...node.branches.map(branch => branch.reduce((sum, element) => sum + minLength(element), 0)));
+        case 'group':
+            return node.lookaround ? 0 : minLength(node.body);
+        case 'quantifier':
+            return node.min * minLength(node.body);
+        case 'chars':
+            return 1;
+        case 'backreference':
+        case 'assertion':
+            return 0;
+    }
+}
+
+function walk(node: RegexNode, visit: (node: RegexNode) => void): void {
+    visit(node);
+    switch (node.type) {
+        case 'alternation':
+            node.branches.flat().forEach(element => walk(element, visit));
+            break;
+        case 'group':
+        case 'quantifier':
+            walk(node.body, visit);
+            break;
+    }
+}
+
+function source(pattern: string, node: RegexNode): string {
+    return pattern.slice(node.start, node.end);
+}
+
+function sequenceSource(pattern: string, sequence: RegexNode[]): string {
+    return sequence.length === 0 ? '(empty)' : pattern.slice(sequence[0].start, sequence[sequence.length - 1].end);
+}
+
+function replace(pattern: string, start: number, end: number, replacement: string): string {
+    return pattern.slice(0, start) + replacement + pattern.slice(end);
+}
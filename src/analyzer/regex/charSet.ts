@@ -0,0 +1,98 @@
+const MAX_CODE_POINT = 0x10ffff;
+
+type Range = [number, number];
+
+// An immutable set of code points, stored as sorted, non-overlapping ranges
+export class CharSet {
+    private constructor(private readonly ranges: Range[]) {}
+
+    public static empty(): CharSet {
+        return new CharSet([]);
+    }
+
+    public static all(): CharSet {
+        return new CharSet([[0, MAX_CODE_POINT]]);
+    }
+
+    public static range(from: number, to: number): CharSet {
+        return new CharSet([[from, to]]);
+    }
+
+    public static digit(): CharSet {
+        return CharSet.range(48, 57);
+    }
+
+    public static word(): CharSet {
+        return CharSet.of([[48, 57], [65, 90], [95, 95], [97, 122]]);
+    }
+
+    public static space(): CharSet {
+        return CharSet.of([
+            [9, 13], [32, 32], [160, 160], [0x1680, 0x1680], [0x2000, 0x200a],
+            [0x2028, 0x2029], [0x202f, 0x202f], [0x205f, 0x205f], [0x3000, 0x3000], [0xfeff, 0xfeff]
+        ]);
+    }
+
+    // Anything but line terminators
+    public static dot(): CharSet {
+        return CharSet.of([[10, 10], [13, 13], [0x2028, 0x2029]]).complement();
+    }
+
+    private static of(ranges: Range[]): CharSet {
+        return ranges.reduce((set, [from, to]) => set.union(CharSet.range(from, to)), CharSet.empty());
+    }
+
+    public isEmpty(): boolean {
+        return this.ranges.length === 0;
+    }
+
+    public union(other: CharSet): CharSet {
+        const sorted = [...this.ranges, ...other.ranges].sort((a, b) => a[0] - b[0]);
+        const merged: Range[] = [];
+        for (const [from, to] of sorted) {
+            const last = merged[merged.length - 1];
+            if (last && from <= last[1] + 1) {
+                last[1] = Math.max(last[1], to);
+            } else {
+                merged.push([from, to]);
+            }
+        }
+        return new CharSet(merged);
+    }
+
+    public intersect(other: CharSet): CharSet {
+        const result: Range[] = [];
+        for (const [from, to] of this.ranges) {
+            for (const [otherFrom, otherTo] of other.ranges) {
+                const start = Math.max(from, otherFrom);
+                const end = Math.min(to, otherTo);
+                if (start <= end) result.push([start, end]);
+            }
+        }
+        return CharSet.of(result);
+    }
+
+    public complement(): CharSet {
+        const result: Range[] = [];
+        let next = 0;
+        for (const [from, to] of this.ranges) {
+            if (from > next) result.push([next, from - 1]);
+            next = to + 1;
+        }
+        if (next <= MAX_CODE_POINT) result.push([next, MAX_CODE_POINT]);
+        return new CharSet(result);
+    }
+
+    public overlaps(other: CharSet): boolean {
+        return !this.intersect(other).isEmpty();
+    }
+
+    public isSubsetOf(other: CharSet): boolean {
+        return this.intersect(other.complement()).isEmpty();
+    }
+
+    // Every code point moved by offset, e.g. to switch ASCII letter case
+    public shift(offset: number): CharSet {
+        return new CharSet(this.ranges.map(([from, to]) => [from + offset, to + offset]));
+    }
+}
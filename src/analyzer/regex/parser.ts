@@ -0,0 +1,282 @@
+import { CharSet } from './charSet.js';
+
+// A small parser for JavaScript regular expressions, just detailed enough to
+// reason about backtracking: which characters each part can match and how
+// often it repeats. Positions refer to the pattern source, so findings can
+// quote the offending part.
+
+export type RegexNode =
+    | { type: 'alternation'; branches: RegexNode[][]; start: number; end: number }
+    | { type: 'group'; body: RegexNode; lookaround: boolean; start: number; end: number }
+    | { type: 'quantifier'; body: RegexNode; min: number; max: number; start: number; end: number }
+    | { type: 'chars'; set: CharSet; start: number; end: number }
+    // Backreferences can match anything the referenced group matched
+    | { type: 'backreference'; start: number; end: number }
+    // ^, $, \b and \B
+    | { type: 'assertion'; start: number; end: number };
+
+export class RegexSyntaxError extends Error {}
+
+export function parseRegex(pattern: string, flags = ''): RegexNode {
+    return new Parser(pattern, flags).parse();
+}
+
+class Parser {
+    private position = 0;
+    private readonly unicode: boolean;
+    private readonly ignoreCase: boolean;
+    private readonly dotAll: boolean;
+
+    constructor(private readonly pattern: string, flags: string) {
+        this.unicode = flags.includes('u') || flags.includes('v');
+        this.ignoreCase = flags.includes('i');
+        this.dotAll = flags.includes('s');
+    }
+
+    public parse(): RegexNode {
+        const node = this.parseAlternation();
+        if (this.position < this.pattern.length) {
+            throw new RegexSyntaxError(`Unexpected "${this.pattern[this.position]}" at ${this.position}`);
+        }
+        return node;
+    }
+
+    private parseAlternation(): RegexNode {
+        const start = this.position;
+        const branches = [this.parseSequence()];
+        while (this.peek() === '|') {
+            this.position++;
+            branches.push(this.parseSequence());
+        }
+        return { type: 'alternation', branches, start, end: this.position };
+    }
+
+    private parseSequence(): RegexNode[] {
+        const elements: RegexNode[] = [];
+        while (this.position < this.pattern.length && this.peek() !== '|' && this.peek() !== ')') {
+            const atom = this.parseAtom();
+            elements.push(this.parseQuantifier(atom));
+        }
+        return elements;
+    }
+
+    private parseQuantifier(atom: RegexNode): RegexNode {
+        let min: number;
+        let max: number;
+        const char = this.peek();
+
+        if (char === '*' || char === '+' || char === '?') {
+            this.position++;
+            min = char === '+' ? 1 : 0;
+            max = char === '?' ? 1 : Infinity;
+        } else if (char === '{') {
+            const match = /^\{(\d+)(,(\d*))?\}/.exec(this.pattern.slice(this.position));
+            if (!match) {
+                if (this.unicode) throw new RegexSyntaxError(`Incomplete quantifier at ${this.position}`);
+                return atom;
+            }
+            this.position += match[0].length;
+            min = Number(match[1]);
+            max = match[2] === undefined ? min : match[3] === '' ? Infinity : Number(match[3]);
+        } else {
+            return atom;
+        }
+
+        if (atom.type === 'assertion') {
+            throw new RegexSyntaxError(`Nothing to repeat at ${atom.start}`);
+        }
+        // Lazy quantifiers backtrack just as much when the match fails
+        if (this.peek() === '?') {
+            this.position++;
+        }
+        return { type: 'quantifier', body: atom, min, max, start: atom.start, end: this.position };
+    }
+
+    private parseAtom(): RegexNode {
+        const start = this.position;
+        const char = this.pattern[this.position++];
+
+        switch (char) {
+            case '(':
+                return this.parseGroup(start);
+            case '[':
+                return { type: 'chars', set: this.parseClass(), start, end: this.position };
+            case '.':
+                return { type: 'chars', set: this.dotAll ? CharSet.all() : CharSet.dot(), start, end: this.position };
+            case '^':
+            case '$':
+                return { type: 'assertion', start, end: this.position };
+            case '\\':
+                return this.parseEscape(start);
+            case '*':
+            case '+':
+            case '?':
+                throw new RegexSyntaxError(`Nothing to repeat at ${start}`);
+            default: {
+                const codePoint = this.pattern.codePointAt(start)!;
+                this.position = start + String.fromCodePoint(codePoint).length;
+                return { type: 'chars', set: this.literal(codePoint), start, end: this.position };
+            }
+        }
+    }
+
+    private parseGroup(start: number): RegexNode {
+        let lookaround = false;
+        if (this.pattern.startsWith('?:', this.position)) {
+            this.position += 2;
+        } else if (/^\?<?[=!]/.test(this.pattern.slice(this.position))) {
+            lookaround = true;
+            this.position += this.pattern[this.position + 1] === '<' ? 3 : 2;
+        } else if (this.pattern.startsWith('?<', this.position)) {
+            const close = this.pattern.indexOf('>', this.position);
+            if (close < 0) throw new RegexSyntaxError(`Unterminated group name at ${start}`);
+            this.position = close + 1;
+        }
+
+        const body = this.parseAlternation();
+        if (this.peek() !== ')') {
+            throw new RegexSyntaxError(`Unterminated group at ${start}`);
+        }
+        this.position++;
+        return { type: 'group', body, lookaround, start, end: this.position };
+    }
+
+    private parseEscape(start: number): RegexNode {
+        const char = this.pattern[this.position++];
+        if (char === undefined) {
+            throw new RegexSyntaxError('Pattern ends with a backslash');
+        }
+
+        if (char === 'b' || char === 'B') {
+            return { type: 'assertion', start, end: this.position };
+        }
+        if (/[1-9]/.test(char)) {
+            while (/\d/.test(this.peek() ?? '')) this.position++;
+            return { type: 'backreference', start, end: this.position };
+        }
+        if (char === 'k' && this.peek() === '<') {
+            const close = this.pattern.indexOf('>', this.position);
+            if (close < 0) throw new RegexSyntaxError(`Unterminated group name at ${start}`);
+            this.position = close + 1;
+            return { type: 'backreference', start, end: this.position };
+        }
+
+        const set = this.parseClassEscape(char) ?? this.literal(this.parseCharacterEscape(char));
+        return { type: 'chars', set, start, end: this.position };
+    }
+
+    // [...] with ranges and class escapes; [^...] is the complement
+    private parseClass(): CharSet {
+        const negated = this.peek() === '^';
+        if (negated) this.position++;
+
+        let set = CharSet.empty();
+        while (this.peek() !== ']') {
+            if (this.position >= this.pattern.length) {
+                throw new RegexSyntaxError('Unterminated character class');
+            }
+            const from = this.parseClassAtom();
+            if (typeof from === 'number' && this.peek() === '-' && this.pattern[this.position + 1] !== ']') {
+                this.position++;
+                const to = this.parseClassAtom();
+                if (typeof to !== 'number' || to < from) {
+                    throw new RegexSyntaxError(`Invalid range in character class at ${this.position}`);
+                }
+                set = set.union(this.caseVariants(CharSet.range(from, to)));
+            } else {
+                set = set.union(typeof from === 'number' ? this.literal(from) : from);
+            }
+        }
+        this.position++;
+
+        return negated ? set.complement() : set;
+    }
+
+    private parseClassAtom(): number | CharSet {
+        const char = this.pattern[this.position++];
+        if (char !== '\\') {
+            const codePoint = this.pattern.codePointAt(this.position - 1)!;
+            this.position += String.fromCodePoint(codePoint).length - 1;
+            return codePoint;
+        }
+        const escaped = this.pattern[this.position++];
+        if (escaped === 'b') return 8;
+        return this.parseClassEscape(escaped) ?? this.parseCharacterEscape(escaped);
+    }
+
+    private parseClassEscape(char: string): CharSet | undefined {
+        switch (char) {
+            case 'd': return CharSet.digit();
+            case 'D': return CharSet.digit().complement();
+            case 'w': return CharSet.word();
+            case 'W': return CharSet.word().complement();
+            case 's': return CharSet.space();
+            case 'S': return CharSet.space().complement();
+        }
+        // Unicode properties are not modelled; assume they can match anything
+        if ((char === 'p' || char === 'P') && this.unicode && this.peek() === '{') {
+            const close = this.pattern.indexOf('}', this.position);
+            if (close < 0) throw new RegexSyntaxError('Unterminated property escape');
+            this.position = close + 1;
+            return CharSet.all();
+        }
+        return undefined;
+    }
+
+    // The code point of an escape such as \n, \x41, \u{1F600} or \.
+    private parseCharacterEscape(char: string): number {
+        const hex = (length: number) => {
+            const digits = this.pattern.slice(this.position, this.position + length);
+            if (!new RegExp(`^[0-9a-fA-F]{${length}}$`).test(digits)) return undefined;
+            this.position += length;
+            return parseInt(digits, 16);
+        };
+
+        switch (char) {
+            case 'n': return 10;
+            case 'r': return 13;
+            case 't': return 9;
+            case 'v': return 11;
+            case 'f': return 12;
+            case '0': return 0;
+            case 'c': {
+                const letter = this.peek();
+                if (letter && /[a-zA-Z]/.test(letter)) {
+                    this.position++;
+                    return letter.charCodeAt(0) % 32;
+                }
+                return char.charCodeAt(0);
+            }
+            case 'x':
+                return hex(2) ?? char.charCodeAt(0);
+            case 'u': {
+                if (this.unicode && this.peek() === '{') {
+                    const close = this.pattern.indexOf('}', this.position);
+                    if (close < 0) throw new RegexSyntaxError('Unterminated code point escape');
+                    const value = parseInt(this.pattern.slice(this.position + 1, close), 16);
+                    this.position = close + 1;
+                    return value;
+                }
+                return hex(4) ?? char.charCodeAt(0);
+            }
+            default:
+                return char.codePointAt(0)!;
+        }
+    }
+
+    private literal(codePoint: number): CharSet {
+        return this.caseVariants(CharSet.range(codePoint, codePoint));
+    }
+
+    // With the i flag a letter also matches its other case (ASCII only)
+    private caseVariants(set: CharSet): CharSet {
+        if (!this.ignoreCase) return set;
+        const upper = set.intersect(CharSet.range(97, 122)).shift(-32);
+        const lower = set.intersect(CharSet.range(65, 90)).shift(32);
+        return set.union(upper).union(lower);
+    }
+
+    private peek(): string | undefined {
+        return this.pattern[this.position];
+    }
+}
@@ -0,0 +1,125 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { CodeAnalyzer } from './CodeAnalyzer.js';
+import { discoverPackages } from './workspaces.js';
+import { loadConfig } from '../config/loader.js';
+
+describe('workspace packages', () => {
+    let rootDir: string;
+
+    async function writeFiles(files: Record<string, unknown>) {
+        for (const [file, content] of Object.entries(files)) {
+            await fs.mkdir(path.dirname(path.join(rootDir, file)), { recursive: true });
+            await fs.writeFile(path.join(rootDir, file), typeof content === 'string' ? content : JSON.stringify(content));
+        }
+    }
+
+    // A package directory with a package.json and, unless told otherwise, a tsconfig.json
+    const packageFiles = (dir: string, name: string, tsconfig = true): Record<string, unknown> => ({
+        [`${dir}/package.json`]: { name },
+        ...(tsconfig && { [`${dir}/tsconfig.json`]: { include: ['src'] } })
+    });
+
+    const discover = (tsconfigPath: string | null = null) => discoverPackages(rootDir, tsconfigPath)
+        .map(pkg => [pkg.name, path.relative(rootDir, pkg.tsconfigPath)]);
+
+    beforeEach(async () => {
+        rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tsa-workspaces-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(rootDir, { recursive: true, force: true });
+    });
+
+    it('reads the npm workspaces array, skipping packages without a tsconfig', async () => {
+        await writeFiles({
+            'package.json': { workspaces: ['packages/*', '!packages/ignored'] },
+            ...packageFiles('packages/api', '@acme/api'),
+            ...packageFiles('packages/web', '@acme/web'),
+            ...packageFiles('packages/docs', '@acme/docs', false),
+            ...packageFiles('packages/ignored', '@acme/ignored'),
+            ...packageFiles('packages/api/node_modules/dep', 'dep')
+        });
+
+        expect(discover()).toEqual([
+            ['@acme/api', 'packages/api/tsconfig.json'],
+            ['@acme/web', 'packages/web/tsconfig.json']
+        ]);
+    });
+
+    it('reads the yarn workspaces object', async () => {
+        await writeFiles({
+            'package.json': { workspaces: { packages: ['apps/**'], nohoist: ['**/react-native'] } },
+            ...packageFiles('apps/mobile', 'mobile'),
+            ...packageFiles('apps/group/admin', 'admin')
+        });
+
+        expect(discover()).toEqual([
+            ['admin', 'apps/group/admin/tsconfig.json'],
+            ['mobile', 'apps/mobile/tsconfig.json']
+        ]);
+    });
+
+    it('reads the package list of pnpm-workspace.yaml', async () => {
+        await writeFiles({
+            'package.json': { name: 'root' },
+            'pnpm-workspace.yaml': [
+                'packages:',
+                "  - 'libs/*' # shared code",
+                '  - "tools/cli"',
+                'catalog:',
+                '  - not/a/package',
+                ''
+            ].join('\n'),
+            ...packageFiles('libs/core', 'core'),
+            ...packageFiles('tools/cli', 'cli'),
+            ...packageFiles('not/a/package', 'other')
+        });
+
+        expect(discover()).toEqual([
+            ['core', 'libs/core/tsconfig.json'],
+            ['cli', 'tools/cli/tsconfig.json']
+        ]);
+    });
+
+    it('follows tsconfig project references, leaving out a solution-style root', async () => {
+        await writeFiles({
+            'tsconfig.json': { files: [], references: [{ path: './server' }] },
+            'server/tsconfig.json': { include: ['src'], references: [{ path: '../shared/tsconfig.build.json' }] },
+            'server/src/index.ts': 'export {};\n',
+            'shared/tsconfig.build.json': { include: ['src'] },
+            'shared/src/index.ts': 'export {};\n'
+        });
+
+        expect(discover(path.join(rootDir, 'tsconfig.json'))).toEqual([
+            ['server', 'server/tsconfig.json'],
+            ['shared', 'shared/tsconfig.build.json']
+        ]);
+    });
+
+    it('returns nothing for a single-package project', async () => {
+        await writeFiles({ 'package.json': { name: 'app' }, 'tsconfig.json': { include: ['src'] } });
+
+        expect(discover(path.join(rootDir, 'tsconfig.json'))).toEqual([]);
+    });
+
+    it('records imports between packages as package dependencies', async () => {
+        await writeFiles({
+            'package.json': { workspaces: ['packages/*'] },
+            ...packageFiles('packages/a', 'a'),
+            ...packageFiles('packages/b', 'b'),
+            'packages/a/src/main.ts': "import { helper } from '../../b/src/helper';\nexport const main = () => helper();\n",
+            'packages/b/src/helper.ts': 'export const helper = () => 1;\n'
+        });
+        const config = await loadConfig(rootDir);
+        config.cache.enabled = false;
+
+        const result = await new CodeAnalyzer().analyzeProject(rootDir, config);
+
+        expect(result.packages?.map(({ name, dependencies, summary }) => [name, dependencies, summary.analyzedFiles])).toEqual([
+            ['a', ['b'], 1],
+            ['b', [], 1]
+        ]);
+    });
+});
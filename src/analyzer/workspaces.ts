@@ -0,0 +1,185 @@
+import fs from 'fs';
+import path from 'path';
+import { ts } from 'ts-morph';
+import { globToRegExp, toPosix } from '../utils/glob.js';
+import logger from '../utils/logger.js';
+
+// One package of a monorepo, analyzed as its own TypeScript project
+export interface WorkspacePackage {
+    name: string;
+    // Absolute directory of the package
+    dir: string;
+    tsconfigPath: string;
+}
+
+const SKIPPED_DIRECTORIES = new Set(['node_modules', '.git', 'dist', 'build', 'coverage']);
+
+// Deepest directory level searched for workspace packages matching `**`
+const MAX_WORKSPACE_DEPTH = 5;
+
+// Finds the packages of a monorepo rooted at rootDir: npm/yarn "workspaces"
+// in package.json, pnpm-workspace.yaml, and the project references of the
+// root tsconfig (followed recursively). Returns an empty list for a plain
+// single-package project. Packages without a tsconfig.json are skipped.
+export function discoverPackages(rootDir: string, tsconfigPath: string | null): WorkspacePackage[] {
+    const tsconfigs = new Set<string>();
+
+    for (const dir of findWorkspaceDirectories(rootDir)) {
+        const packageTsconfig = path.join(dir, 'tsconfig.json');
+        if (fs.existsSync(packageTsconfig)) {
+            tsconfigs.add(packageTsconfig);
+        } else {
+            logger.info(`Skipping workspace package without tsconfig.json: ${dir}`);
+        }
+    }
+
+    if (tsconfigPath) {
+        const referenced = collectReferences(tsconfigPath, new Set());
+        if (referenced.length > 0) {
+            referenced.forEach(reference => tsconfigs.add(reference));
+            // A solution-style root ("files": []) only lists references
+            if (hasOwnFiles(tsconfigPath)) {
+                tsconfigs.add(tsconfigPath);
+            }
+        }
+    }
+
+    return Array.from(tsconfigs)
+        .map(packageTsconfig => {
+            const dir = path.dirname(packageTsconfig);
+            return { name: readPackageName(dir) ?? (toPosix(path.relative(rootDir, dir)) || path.basename(dir)), dir, tsconfigPath: packageTsconfig };
+        })
+        .sort((a, b) => a.dir.localeCompare(b.dir) || a.tsconfigPath.localeCompare(b.tsconfigPath));
+}
+
+function findWorkspaceDirectories(rootDir: string): string[] {
+    const patterns = readWorkspacePatterns(rootDir);
+    if (patterns.length === 0) {
+        return [];
+    }
+
+    const included = patterns.filter(pattern => !pattern.startsWith('!')).map(toAnchoredRegExp);
+    const excluded = patterns.filter(pattern => pattern.startsWith('!')).map(pattern => toAnchoredRegExp(pattern.slice(1)));
+    const maxDepth = Math.max(...patterns.map(pattern =>
+        pattern.includes('**') ? MAX_WORKSPACE_DEPTH : pattern.replace(/^!/, '').split('/').filter(Boolean).length));
+
+    const matches: string[] = [];
+    const visit = (dir: string, depth: number) => {
+        if (depth > maxDepth) return;
+        let entries: fs.Dirent[];
+        try {
+            entries = fs.readdirSync(dir, { withFileTypes: true });
+        } catch {
+            return;
+        }
+        for (const entry of entries) {
+            if (!entry.isDirectory() || SKIPPED_DIRECTORIES.has(entry.name)) continue;
+            const child = path.join(dir, entry.name);
+            const relative = toPosix(path.relative(rootDir, child));
+            if (included.some(expression => expression.test(relative)) &&
+                !excluded.some(expression => expression.test(relative)) &&
+                fs.existsSync(path.join(child, 'package.json'))) {
+                matches.push(child);
+            }
+            visit(child, depth + 1);
+        }
+    };
+    visit(rootDir, 1);
+
+    return matches;
+}
+
+// Workspace globs name the package directories themselves, unlike include
+// globs, which also match everything below a directory
+function toAnchoredRegExp(pattern: string): RegExp {
+    const normalized = pattern.replace(/^\.\//, '').replace(/\/$/, '');
+    const expression = globToRegExp(normalized.includes('/') ? normalized : `/${normalized}`);
+    return new RegExp(expression.source.replace(/\(\?:\/\.\*\)\?\$$/, '$'));
+}
+
+function readWorkspacePatterns(rootDir: string): string[] {
+    const packageJson = readJson(path.join(rootDir, 'package.json'));
+    const workspaces = packageJson?.workspaces;
+    // npm and yarn classic use an array; yarn also allows { packages: [...] }
+    if (Array.isArray(workspaces)) {
+        return workspaces;
+    }
+    if (Array.isArray(workspaces?.packages)) {
+        return workspaces.packages;
+    }
+
+    const pnpmWorkspace = path.join(rootDir, 'pnpm-workspace.yaml');
+    if (fs.existsSync(pnpmWorkspace)) {
+        return parsePnpmPackages(fs.readFileSync(pnpmWorkspace, 'utf8'));
+    }
+
+    return [];
+}
+
+// Reads the "packages" list of pnpm-workspace.yaml. Only the block list
+// form used by pnpm is supported, which avoids a YAML dependency.
+function parsePnpmPackages(content: string): string[] {
+    const patterns: string[] = [];
+    let inPackages = false;
+
+    for (const line of content.split(/\r?\n/)) {
+        const text = line.replace(/\s+#.*$/, '');
+        if (/^packages\s*:/.test(text)) {
+            inPackages = true;
+            continue;
+        }
+        if (!inPackages || !text.trim()) continue;
+        const item = text.match(/^\s+-\s*(.+?)\s*$/);
+        if (!item) {
+            if (!/^\s/.test(text)) inPackages = false;
+            continue;
+        }
+        patterns.push(item[1].replace(/^(['"])(.*)\1$/, '$2'));
+    }
+
+    return patterns;
+}
+
+function collectReferences(tsconfigPath: string, seen: Set<string>): string[] {
+    if (seen.has(tsconfigPath)) return [];
+    seen.add(tsconfigPath);
+
+    const { config, error } = ts.readConfigFile(tsconfigPath, ts.sys.readFile);
+    if (error || !Array.isArray(config?.references)) {
+        return [];
+    }
+
+    const result: string[] = [];
+    for (const reference of config.references as Array<{ path?: string }>) {
+        if (!reference.path) continue;
+        let referenced = path.resolve(path.dirname(tsconfigPath), reference.path);
+        if (!referenced.endsWith('.json')) {
+            referenced = path.join(referenced, 'tsconfig.json');
+        }
+        if (!fs.existsSync(referenced)) {
+            logger.warn(`Referenced project not found: ${referenced}`);
+            continue;
+        }
+        result.push(referenced, ...collectReferences(referenced, seen));
+    }
+    return result;
+}
+
+function hasOwnFiles(tsconfigPath: string): boolean {
+    const { config } = ts.readConfigFile(tsconfigPath, ts.sys.readFile);
+    const parsed = ts.parseJsonConfigFileContent(config ?? {}, ts.sys, path.dirname(tsconfigPath));
+    return parsed.fileNames.length > 0;
+}
+
+function readPackageName(dir: string): string | undefined {
+    const name = readJson(path.join(dir, 'package.json'))?.name;
+    return typeof name === 'string' ? name : undefined;
+}
+
+function readJson(filePath: string): any {
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch {
+        return undefined;
+    }
+}
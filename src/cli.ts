@@ -5,16 +5,23 @@ import chalk from 'chalk';
 import figlet from 'figlet';
 import { analyze } from './commands/analyze.js';
 import { init } from './commands/init.js';
+import { baselineCreate, baselinePrune } from './commands/baseline.js';
+import { check } from './commands/check.js';
+import { cacheClear } from './commands/cache.js';
 import { backup } from './commands/backup.js';
 import { template } from './commands/template.js';
 import { SmartCommandManager } from './commands/smart.js';
 import { deployCommand } from './commands/deploy.js';
+import { serve } from './commands/serve.js';
+import { enableLogging } from './utils/logger.js';
 import { createRequire } from 'module';
 import updateNotifier from 'update-notifier';
 
 const require = createRequire(import.meta.url);
 const { version, name } = require('../package.json');
 
+enableLogging();
+
 const program = new Command();
 const smartCommandManager = new SmartCommandManager();
 
@@ -39,12 +46,74 @@ program
   .command('analyze')
   .description('Analyze TypeScript project for issues')
   .option('-p, --path <path>', 'Path to TypeScript project', process.cwd())
+  .option('-c, --config <path>', 'Path to tsa.config.json (default: nearest one above --path)')
   .option('--perf', 'Only analyze performance')
   .option('--memory', 'Only analyze memory leaks')
   .option('--deps', 'Only analyze dependencies')
-  .option('-o, --output <format>', 'Output format (json, html, terminal)', 'terminal')
+  .option('-o, --output <format>', 'Output format (json, html, terminal)')
+  .option('--report-dir <dir>', 'Directory for json/html reports')
+  .option('--exclude <patterns...>', 'Additional globs to exclude from analysis')
+  .option('--baseline [file]', 'Only report issues not recorded in the baseline')
+  .option('--changed-since <ref>', 'Only analyze files changed since the merge base with this git ref')
+  .option('--staged', 'Only analyze files staged in git')
+  .option('-j, --jobs <n>', 'Analyze files in n worker threads')
+  .option('-w, --watch', 'Keep running and re-analyze files as they change')
+  .option('--no-cache', 'Ignore and do not update the analysis cache')
+  .option('--verbose', 'Print cache statistics')
+  .option('--metrics [scope]', 'Print a metrics table of the worst functions or files (functions, files)')
+  .option('--sort <metric>', 'Metric to rank by (cyclomatic, cognitive, nesting, params, sloc, volume, maintainability)')
+  .option('--top <n>', 'Number of functions or files to list (default: 10 in the terminal, all in HTML)')
   .action(analyze);
 
+program
+  .command('check')
+  .description('Fail with a non-zero exit code when thresholds from tsa.config.json are exceeded')
+  .option('-p, --path <path>', 'Path to TypeScript project', process.cwd())
+  .option('-c, --config <path>', 'Path to tsa.config.json')
+  .option('--baseline [file]', 'Only count issues not recorded in the baseline')
+  .option('--changed-since <ref>', 'Only check files changed since the merge base with this git ref')
+  .option('--staged', 'Only check files staged in git')
+  .option('-j, --jobs <n>', 'Analyze files in n worker threads')
+  .option('--fail-on <severity>', 'Fail on any issue of this severity or higher (high, medium, low)')
+  .action(check);
+
+const baselineCommand = program
+  .command('baseline')
+  .description('Manage the baseline of known issues');
+
+baselineCommand
+  .command('create')
+  .description('Record all current issues in the baseline file')
+  .option('-p, --path <path>', 'Path to TypeScript project', process.cwd())
+  .option('-c, --config <path>', 'Path to tsa.config.json')
+  .option('-f, --file <file>', 'Baseline file (default: baseline.file from tsa.config.json)')
+  .action(baselineCreate);
+
+baselineCommand
+  .command('prune')
+  .description('Remove fixed issues from the baseline file')
+  .option('-p, --path <path>', 'Path to TypeScript project', process.cwd())
+  .option('-c, --config <path>', 'Path to tsa.config.json')
+  .option('-f, --file <file>', 'Baseline file (default: baseline.file from tsa.config.json)')
+  .action(baselinePrune);
+
+const cacheCommand = program
+  .command('cache')
+  .description('Manage the on-disk analysis cache');
+
+cacheCommand
+  .command('clear')
+  .description('Delete the analysis cache')
+  .option('-p, --path <path>', 'Path to TypeScript project', process.cwd())
+  .option('-c, --config <path>', 'Path to tsa.config.json')
+  .action(cacheClear);
+
+program
+  .command('serve')
+  .description('Start the HTTP API server')
+  .option('--port <port>', 'Port to listen on (default: PORT environment variable or 3000)')
+  .action(serve);
+
 program
   .command('init')
   .description('Initialize configuration in your project')
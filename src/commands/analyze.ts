@@ -1,45 +1,76 @@
 import ora from 'ora';
 import chalk from 'chalk';
+import path from 'path';
 import { CodeAnalyzer } from '../analyzer/CodeAnalyzer.js';
+import { formatLocation } from '../analyzer/Issue.js';
+import { PerformanceMetrics } from '../analyzer/PerformanceAnalyzer.js';
+import { isMetricSortKey, METRIC_LABELS, METRIC_SORT_KEYS, MetricSortKey, rankByMetric } from '../analyzer/metrics/ranking.js';
+import { applyOverrides, loadConfig, ReportFormat } from '../config/loader.js';
+import { resolveAnalyzeProjectOptions, ScopeOptions } from './options.js';
 import { generateReport } from '../utils/report.js';
+import { watch } from './watch.js';
 import logger from '../utils/logger.js';
 
-interface AnalyzeOptions {
+interface AnalyzeOptions extends ScopeOptions {
     path: string;
+    config?: string;
     perf?: boolean;
     memory?: boolean;
     deps?: boolean;
-    output?: 'json' | 'html' | 'terminal';
+    output?: ReportFormat;
+    reportDir?: string;
+    exclude?: string[];
+    watch?: boolean;
+    cache?: boolean;
+    verbose?: boolean;
+    // true or "functions" lists functions, "files" lists files
+    metrics?: boolean | string;
+    sort?: string;
+    top?: string;
+}
+
+interface MetricsView {
+    scope: 'functions' | 'files';
+    sort: MetricSortKey;
+    top?: number;
 }
 
 export async function analyze(options: AnalyzeOptions) {
     const spinner = ora('Initializing analysis...').start();
     
     try {
+        const projectPath = path.resolve(options.path);
+        const config = applyOverrides(await loadConfig(projectPath, options.config), options);
+        if (config.configPath) {
+            spinner.text = `Using configuration from ${chalk.blue(config.configPath)}`;
+        }
+
+        const metricsView = resolveMetricsView(options);
+        const analyzeOptions = await resolveAnalyzeProjectOptions(options, config, projectPath);
+        if (analyzeOptions.files?.length === 0) {
+            spinner.succeed('No changed files to analyze');
+            return;
+        }
+
         const analyzer = new CodeAnalyzer();
-        spinner.text = `Analyzing TypeScript project at ${chalk.blue(options.path)}`;
-        const results = await analyzer.analyzeProject(options.path);
-        
-        const filteredResults = {
-            ...(options.perf && { performance: results.performance }),
-            ...(options.memory && { memoryLeaks: results.memoryLeaks }),
-            ...(options.deps && { dependencies: results.dependencies }),
-            ...(!options.perf && !options.memory && !options.deps && results),
-            summary: results.summary
-        };
+        spinner.text = `Analyzing TypeScript project at ${chalk.blue(projectPath)}`;
+        const filteredResults = await analyzer.analyzeProject(projectPath, config, analyzeOptions);
 
         spinner.succeed('Analysis complete!');
         
-        switch (options.output) {
-            case 'json':
-                await generateReport(filteredResults, 'json');
-                console.log(chalk.green('\nJSON report generated: tsa-report.json'));
+        const outputDir = path.resolve(config.rootDir, config.reporting.output);
+        switch (config.reporting.format) {
+            case 'json': {
+                const reportPath = await generateReport(filteredResults, 'json', outputDir);
+                console.log(chalk.green(`\nJSON report generated: ${reportPath}`));
                 break;
+            }
             
-            case 'html':
-                await generateReport(filteredResults, 'html');
-                console.log(chalk.green('\nHTML report generated: tsa-report.html'));
+            case 'html': {
+                const reportPath = await generateReport(filteredResults, 'html', outputDir, metricsView ?? {});
+                console.log(chalk.green(`\nHTML report generated: ${reportPath}`));
                 break;
+            }
             
             default:
                 console.log('\n' + chalk.bold('📊 Analysis Results:'));
@@ -47,8 +78,8 @@ export async function analyze(options: AnalyzeOptions) {
                 if (filteredResults.performance) {
                     console.log('\n' + chalk.blue.bold('Performance Issues:'));
                     filteredResults.performance.issues.forEach(issue => {
-                        console.log(chalk.yellow(`  ⚠️  ${issue.description}`));
-                        console.log(`     ${chalk.gray(issue.location)}`);
+                        console.log(chalk.yellow(`  ⚠️  ${issue.message}`) + chalk.gray(` (${issue.ruleId})`));
+                        console.log(`     ${chalk.gray(formatLocation(issue))}`);
                         console.log(`     ${chalk.green('Suggestion:')} ${issue.suggestion}\n`);
                     });
                 }
@@ -56,28 +87,73 @@ export async function analyze(options: AnalyzeOptions) {
                 if (filteredResults.memoryLeaks) {
                     console.log('\n' + chalk.red.bold('Memory Leak Risks:'));
                     filteredResults.memoryLeaks.potentialLeaks.forEach(leak => {
-                        console.log(chalk.yellow(`  🔍 ${leak.description}`));
-                        console.log(`     ${chalk.gray(leak.location)}`);
+                        console.log(chalk.yellow(`  🔍 ${leak.message}`) + chalk.gray(` (${leak.ruleId})`));
+                        console.log(`     ${chalk.gray(formatLocation(leak))}`);
                         console.log(`     ${chalk.green('Suggestion:')} ${leak.suggestion}\n`);
                     });
                 }
 
                 if (filteredResults.dependencies) {
                     console.log('\n' + chalk.magenta.bold('Dependency Analysis:'));
-                    if (filteredResults.dependencies.circularDependencies.length > 0) {
+                    if (filteredResults.dependencies.issues.length > 0) {
                         console.log(chalk.yellow('  ⭕ Circular Dependencies Found:'));
-                        filteredResults.dependencies.circularDependencies.forEach(cycle => {
-                            console.log(`     ${cycle.join(' → ')}`);
+                        filteredResults.dependencies.issues.forEach(issue => {
+                            console.log(`     ${issue.message}`);
+                            console.log(`     ${chalk.gray(formatLocation(issue))}\n`);
                         });
                     }
                 }
 
+                if (filteredResults.suppressions.unused.length > 0) {
+                    console.log('\n' + chalk.gray.bold('Unused Suppressions:'));
+                    filteredResults.suppressions.unused.forEach(issue => {
+                        console.log(chalk.gray(`  🔇 ${issue.message}`));
+                        console.log(`     ${chalk.gray(formatLocation(issue))}\n`);
+                    });
+                }
+
+                if (metricsView && filteredResults.performance) {
+                    printMetrics(filteredResults.performance.metrics, metricsView, config.rootDir);
+                }
+
+                if (filteredResults.packages) {
+                    console.log('\n' + chalk.cyan.bold('Packages:'));
+                    filteredResults.packages.forEach(pkg => {
+                        const health = pkg.summary.criticalIssues > 0 ? chalk.red : chalk.green;
+                        console.log(`  📦 ${chalk.bold(pkg.name)} ${chalk.gray(pkg.dir)}`);
+                        console.log(`     ${pkg.summary.analyzedFiles} files, ` +
+                            health(`${pkg.summary.totalIssues} issues (${pkg.summary.criticalIssues} critical)`));
+                        if (pkg.dependencies.length > 0) {
+                            console.log(chalk.gray(`     Depends on: ${pkg.dependencies.join(', ')}`));
+                        }
+                    });
+                }
+
                 console.log('\n' + chalk.bold('📝 Summary:'));
+                console.log(chalk.blue(`  Analyzed Files: ${filteredResults.summary.analyzedFiles}`));
                 console.log(chalk.blue(`  Total Issues: ${filteredResults.summary.totalIssues}`));
+                if (filteredResults.suppressions.suppressed.length > 0) {
+                    console.log(chalk.gray(`  Suppressed: ${filteredResults.suppressions.suppressed.length}`));
+                }
+                if (filteredResults.baseline) {
+                    console.log(chalk.gray(`  Baselined: ${filteredResults.baseline.baselined}`));
+                    if (filteredResults.baseline.fixed > 0) {
+                        console.log(chalk.green(`  Fixed since baseline: ${filteredResults.baseline.fixed} (run "tsa baseline prune")`));
+                    }
+                }
                 console.log(chalk.red(`  Critical Issues: ${filteredResults.summary.criticalIssues}`));
                 console.log(chalk.yellow(`  Overall Health: ${filteredResults.summary.overallHealth}`));
         }
 
+        const cacheStats = analyzer.getCacheStats();
+        if (options.verbose && cacheStats) {
+            console.log(chalk.gray(`  Cache: ${cacheStats.hits} hits, ${cacheStats.misses} misses`));
+        }
+
+        if (options.watch) {
+            await watch(analyzer, config.rootDir, filteredResults);
+        }
+
     } catch (error) {
         spinner.fail('Analysis failed!');
         logger.error('Analysis error:', error);
@@ -85,3 +161,52 @@ export async function analyze(options: AnalyzeOptions) {
         process.exit(1);
     }
 }
+
+function resolveMetricsView(options: AnalyzeOptions): MetricsView | undefined {
+    if (!options.metrics && !options.sort && !options.top) {
+        return undefined;
+    }
+
+    const scope = typeof options.metrics === 'string' ? options.metrics : 'functions';
+    if (scope !== 'functions' && scope !== 'files') {
+        throw new Error(`--metrics must be "functions" or "files", got "${scope}"`);
+    }
+
+    const sort = options.sort ?? 'cyclomatic';
+    if (!isMetricSortKey(sort)) {
+        throw new Error(`--sort must be one of ${METRIC_SORT_KEYS.join(', ')}, got "${sort}"`);
+    }
+
+    const top = options.top === undefined ? undefined : Number(options.top);
+    if (top !== undefined && (!Number.isInteger(top) || top < 1)) {
+        throw new Error(`--top must be a positive integer, got "${options.top}"`);
+    }
+
+    return { scope, sort, top };
+}
+
+function printMetrics(metrics: PerformanceMetrics, view: MetricsView, rootDir: string) {
+    const top = view.top ?? 10;
+    const header = ['CC', 'Cog', 'Nest', 'Params', 'SLOC', 'Volume', 'MI'];
+    const row = (values: (number | string)[]) => values.map(value => String(value).padStart(7)).join('');
+
+    console.log('\n' + chalk.cyan.bold(`Top ${top} ${view.scope} by ${METRIC_LABELS[view.sort]}:`));
+    console.log(chalk.gray(row(view.scope === 'functions' ? header : header.flatMap(name => name === 'Params' ? [name, 'Funcs'] : [name]))));
+
+    if (view.scope === 'functions') {
+        for (const fn of rankByMetric(metrics.functions, view.sort, top)) {
+            console.log(row([fn.cyclomaticComplexity, fn.cognitiveComplexity, fn.nestingDepth, fn.parameters,
+                fn.lines.source, Math.round(fn.halsteadVolume), fn.maintainabilityIndex]) +
+                `  ${chalk.bold(fn.name)} ${chalk.gray(`${path.relative(rootDir, fn.file)}:${fn.line}`)}`);
+        }
+    } else {
+        for (const file of rankByMetric(metrics.files, view.sort, top)) {
+            console.log(row([file.cyclomaticComplexity, file.cognitiveComplexity, file.nestingDepth, file.parameters, file.functions,
+                file.lines.source, Math.round(file.halsteadVolume), file.maintainabilityIndex]) +
+                `  ${chalk.gray(path.relative(rootDir, file.file))}`);
+        }
+    }
+
+    console.log(chalk.gray(`  ${metrics.lines.source} source, ${metrics.lines.comment} comment and ${metrics.lines.blank} blank lines; ` +
+        `maintainability index ${metrics.maintainabilityIndex}`));
+}
@@ -0,0 +1,73 @@
+import ora from 'ora';
+import chalk from 'chalk';
+import path from 'path';
+import { existsSync } from 'fs';
+import { CodeAnalyzer, collectIssues } from '../analyzer/CodeAnalyzer.js';
+import { Baseline } from '../analyzer/Baseline.js';
+import { loadConfig, ResolvedConfig } from '../config/loader.js';
+import logger from '../utils/logger.js';
+
+interface BaselineOptions {
+    path: string;
+    config?: string;
+    file?: string;
+}
+
+export async function baselineCreate(options: BaselineOptions) {
+    const spinner = ora('Analyzing project...').start();
+
+    try {
+        const { config, baselinePath } = await resolveBaseline(options);
+        const issues = await analyzeAll(options, config);
+
+        const baseline = Baseline.fromIssues(baselinePath, issues, config.rootDir);
+        await baseline.save();
+
+        spinner.succeed(`Baseline created with ${baseline.entries.length} issues: ${chalk.blue(baselinePath)}`);
+        console.log(chalk.gray('Commit this file and run "tsa analyze --baseline" to report only new issues.'));
+    } catch (error) {
+        spinner.fail('Baseline creation failed!');
+        logger.error('Baseline error:', error);
+        console.error(chalk.red('\nError:'), error instanceof Error ? error.message : 'Unknown error');
+        process.exit(1);
+    }
+}
+
+export async function baselinePrune(options: BaselineOptions) {
+    const spinner = ora('Analyzing project...').start();
+
+    try {
+        const { config, baselinePath } = await resolveBaseline(options);
+        if (!existsSync(baselinePath)) {
+            throw new Error(`No baseline found at ${baselinePath}; create one with "tsa baseline create"`);
+        }
+
+        const current = await Baseline.load(baselinePath);
+        const issues = await analyzeAll(options, config);
+
+        const pruned = current.prune(issues);
+        await pruned.save();
+
+        const removed = current.entries.length - pruned.entries.length;
+        spinner.succeed(`Removed ${removed} fixed issues from the baseline (${pruned.entries.length} remaining)`);
+    } catch (error) {
+        spinner.fail('Baseline prune failed!');
+        logger.error('Baseline error:', error);
+        console.error(chalk.red('\nError:'), error instanceof Error ? error.message : 'Unknown error');
+        process.exit(1);
+    }
+}
+
+async function resolveBaseline(options: BaselineOptions): Promise<{ config: ResolvedConfig; baselinePath: string }> {
+    const config = await loadConfig(path.resolve(options.path), options.config);
+    const baselinePath = options.file
+        ? path.resolve(options.file)
+        : path.resolve(config.rootDir, config.baseline.file);
+    return { config, baselinePath };
+}
+
+async function analyzeAll(options: BaselineOptions, config: ResolvedConfig) {
+    const analyzer = new CodeAnalyzer();
+    const results = await analyzer.analyzeProject(path.resolve(options.path), config);
+    return collectIssues(results);
+}
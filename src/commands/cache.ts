@@ -0,0 +1,27 @@
+import chalk from 'chalk';
+import path from 'path';
+import { AnalysisCache } from '../analyzer/AnalysisCache.js';
+import { loadConfig } from '../config/loader.js';
+import logger from '../utils/logger.js';
+
+interface CacheOptions {
+    path: string;
+    config?: string;
+}
+
+export async function cacheClear(options: CacheOptions) {
+    try {
+        const config = await loadConfig(path.resolve(options.path), options.config);
+        const directory = path.resolve(config.rootDir, config.cache.directory);
+
+        if (await AnalysisCache.clear(config)) {
+            console.log(chalk.green(`✔ Removed analysis cache ${directory}`));
+        } else {
+            console.log(chalk.gray(`No analysis cache at ${directory}`));
+        }
+    } catch (error) {
+        logger.error('Cache error:', error);
+        console.error(chalk.red('\nError:'), error instanceof Error ? error.message : 'Unknown error');
+        process.exit(1);
+    }
+}
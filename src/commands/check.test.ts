@@ -0,0 +1,60 @@
+import { jest } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { check } from './check.js';
+
+const nestedLoops = [
+    'export function pairs(items: number[]) {',
+    '    for (const a of items) {',
+    '        for (const b of items) console.log(a, b);',
+    '    }',
+    '}',
+    ''
+].join('\n');
+
+describe('tsa check', () => {
+    let projectDir: string;
+
+    beforeEach(async () => {
+        projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tsa-check-'));
+        await fs.mkdir(path.join(projectDir, 'src'));
+        await fs.writeFile(path.join(projectDir, 'tsconfig.json'), JSON.stringify({ include: ['src'] }));
+        await fs.writeFile(path.join(projectDir, 'tsa.config.json'), JSON.stringify({ cache: { enabled: false } }));
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(async () => {
+        process.exitCode = undefined;
+        jest.restoreAllMocks();
+        await fs.rm(projectDir, { recursive: true, force: true });
+    });
+
+    it('leaves the exit code at 0 when the gate passes', async () => {
+        await fs.writeFile(path.join(projectDir, 'src/sum.ts'), 'export const sum = (a: number, b: number) => a + b;\n');
+        await check({ path: projectDir });
+
+        expect(process.exitCode).toBeUndefined();
+    });
+
+    it('exits with the code of the failed check', async () => {
+        await fs.writeFile(path.join(projectDir, 'src/pairs.ts'), nestedLoops);
+        await check({ path: projectDir });
+
+        expect(process.exitCode).toBe(2);
+    });
+
+    it('overrides the configured limits with --fail-on', async () => {
+        await fs.writeFile(path.join(projectDir, 'tsa.config.json'), JSON.stringify({
+            cache: { enabled: false },
+            check: { maxIssues: { high: 1 } }
+        }));
+        await fs.writeFile(path.join(projectDir, 'src/pairs.ts'), nestedLoops);
+
+        await check({ path: projectDir });
+        expect(process.exitCode).toBeUndefined();
+
+        await check({ path: projectDir, failOn: 'high' });
+        expect(process.exitCode).toBe(2);
+    });
+});
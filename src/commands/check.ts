@@ -0,0 +1,85 @@
+import chalk from 'chalk';
+import path from 'path';
+import { CodeAnalyzer } from '../analyzer/CodeAnalyzer.js';
+import { Severity } from '../analyzer/Issue.js';
+import { evaluateQualityGate, GateCheck } from '../analyzer/QualityGate.js';
+import { CheckThresholds, loadConfig } from '../config/loader.js';
+import { resolveAnalyzeProjectOptions, ScopeOptions } from './options.js';
+import logger from '../utils/logger.js';
+
+interface CheckOptions extends ScopeOptions {
+    path: string;
+    config?: string;
+    failOn?: Severity;
+}
+
+const SEVERITIES: Severity[] = ['high', 'medium', 'low'];
+
+export async function check(options: CheckOptions) {
+    try {
+        const projectPath = path.resolve(options.path);
+        const config = await loadConfig(projectPath, options.config);
+
+        if (options.failOn && !SEVERITIES.includes(options.failOn)) {
+            throw new Error(`--fail-on must be one of ${SEVERITIES.join(', ')}`);
+        }
+
+        const analyzeOptions = await resolveAnalyzeProjectOptions(options, config, projectPath);
+        if (analyzeOptions.files?.length === 0) {
+            console.log(chalk.green('✔ No changed files to check'));
+            return;
+        }
+
+        const analyzer = new CodeAnalyzer();
+        const results = await analyzer.analyzeProject(projectPath, config, analyzeOptions);
+        const gate = evaluateQualityGate(results, applyFailOn(config.check, options.failOn));
+
+        printTable(gate.checks);
+
+        if (gate.passed) {
+            console.log(chalk.green('\n✔ Quality gate passed'));
+        } else {
+            console.log(chalk.red(`\n✖ Quality gate failed (exit code ${gate.exitCode})`));
+            process.exitCode = gate.exitCode;
+        }
+    } catch (error) {
+        logger.error('Check error:', error);
+        console.error(chalk.red('\nError:'), error instanceof Error ? error.message : 'Unknown error');
+        process.exit(1);
+    }
+}
+
+// --fail-on medium means: no medium or high issues allowed
+function applyFailOn(thresholds: CheckThresholds, failOn?: Severity): CheckThresholds {
+    if (!failOn) {
+        return thresholds;
+    }
+
+    const maxIssues = { ...thresholds.maxIssues };
+    for (const severity of SEVERITIES.slice(0, SEVERITIES.indexOf(failOn) + 1)) {
+        maxIssues[severity] = 0;
+    }
+    return { ...thresholds, maxIssues };
+}
+
+function printTable(checks: GateCheck[]) {
+    const rows = checks.map(check => [
+        check.name,
+        check.actual === null ? '-' : String(check.actual),
+        check.limit,
+        check.status.toUpperCase()
+    ]);
+    const header = ['Check', 'Actual', 'Limit', 'Result'];
+    const widths = header.map((title, column) =>
+        Math.max(title.length, ...rows.map(row => row[column].length))
+    );
+    const format = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+
+    console.log(chalk.bold(format(header)));
+    checks.forEach((check, index) => {
+        const line = format(rows[index]);
+        const color = check.status === 'fail' ? chalk.red : check.status === 'pass' ? chalk.green : chalk.gray;
+        console.log(color(line));
+        check.details.forEach(detail => console.log(chalk.gray(`    ${detail}`)));
+    });
+}
@@ -46,6 +46,7 @@ export async function init() {
         const config = {
             version: '1.0.0',
             include: answers.includePaths,
+            exclude: ['**/*.test.ts', '**/*.spec.ts'],
             analysis: {
                 performance: answers.analyzePerformance,
                 memory: answers.analyzeMemory,
@@ -0,0 +1,38 @@
+import path from 'path';
+import { AnalyzeProjectOptions } from '../analyzer/CodeAnalyzer.js';
+import { Baseline } from '../analyzer/Baseline.js';
+import { ResolvedConfig } from '../config/loader.js';
+import { getChangedFiles } from '../utils/git.js';
+
+// Command-line options shared by the commands that run an analysis
+export interface ScopeOptions {
+    // true uses the baseline file from tsa.config.json
+    baseline?: string | boolean;
+    changedSince?: string;
+    staged?: boolean;
+    // Worker thread count, as given on the command line
+    jobs?: string;
+}
+
+export async function resolveAnalyzeProjectOptions(
+    options: ScopeOptions,
+    config: ResolvedConfig,
+    projectPath: string
+): Promise<AnalyzeProjectOptions> {
+    const baseline = options.baseline
+        ? await Baseline.load(typeof options.baseline === 'string'
+            ? path.resolve(options.baseline)
+            : path.resolve(config.rootDir, config.baseline.file))
+        : undefined;
+
+    const files = options.changedSince || options.staged
+        ? await getChangedFiles(projectPath, { since: options.changedSince, staged: options.staged })
+        : undefined;
+
+    const jobs = options.jobs === undefined ? undefined : Number(options.jobs);
+    if (jobs !== undefined && (!Number.isInteger(jobs) || jobs < 1)) {
+        throw new Error(`--jobs must be a positive integer, got "${options.jobs}"`);
+    }
+
+    return { baseline, files, jobs };
+}
@@ -0,0 +1,23 @@
+import chalk from 'chalk';
+import { config } from 'dotenv';
+import { startServer } from '../server.js';
+import logger from '../utils/logger.js';
+
+interface ServeOptions {
+    port?: string;
+}
+
+export async function serve(options: ServeOptions) {
+    // Load environment variables
+    config();
+
+    try {
+        const port = options.port ?? process.env.PORT ?? 3000;
+        await startServer(port);
+        console.log(chalk.green(`API server listening on http://localhost:${port}`));
+    } catch (error) {
+        logger.error('Server error:', error);
+        console.error(chalk.red('\nError:'), error instanceof Error ? error.message : 'Unknown error');
+        process.exit(1);
+    }
+}
@@ -0,0 +1,127 @@
+import fs from 'fs';
+import path from 'path';
+import chalk from 'chalk';
+import { AnalysisResult, CodeAnalyzer, collectIssues } from '../analyzer/CodeAnalyzer.js';
+import { formatLocation, Issue } from '../analyzer/Issue.js';
+import logger from '../utils/logger.js';
+
+// Editors often write a file in several steps (truncate, write, rename),
+// so changes are collected for a short while before re-analyzing
+const DEBOUNCE_MS = 200;
+// Project-wide rule hooks walk the whole project, so they only run once
+// no file has changed for this long
+const PROJECT_RULES_DEBOUNCE_MS = 2000;
+
+const IGNORED_DIRECTORIES = ['node_modules', '.git', 'dist', 'coverage'];
+
+// Re-analyzes changed files until the process is interrupted, printing only
+// the issues introduced and resolved by each change
+export function watch(analyzer: CodeAnalyzer, rootDir: string, initial: AnalysisResult): Promise<void> {
+    let previous = collectIssues(initial);
+    let pending = new Set<string>();
+    let timer: NodeJS.Timeout | null = null;
+    let projectTimer: NodeJS.Timeout | null = null;
+    let running: Promise<void> = Promise.resolve();
+
+    const reanalyze = (files: string[], heading: string) => {
+        running = running.then(async () => {
+            try {
+                const result = await analyzer.reanalyzeFiles(files, { projectRules: files.length === 0 });
+                const current = collectIssues(result);
+                printDiff(heading, previous, current);
+                previous = current;
+            } catch (error) {
+                logger.error('Re-analysis failed:', error);
+                console.error(chalk.red('Re-analysis failed:'), error instanceof Error ? error.message : error);
+            }
+        });
+    };
+
+    const flush = () => {
+        timer = null;
+        const files = Array.from(pending);
+        pending = new Set();
+        reanalyze(files, `Changed: ${files.map(file => path.relative(rootDir, file)).join(', ')}`);
+    };
+
+    const flushProjectRules = () => {
+        projectTimer = null;
+        reanalyze([], 'Project-wide rules');
+    };
+
+    const watcher = fs.watch(rootDir, { recursive: true }, (_event, fileName) => {
+        if (!fileName || !isRelevant(fileName.toString())) return;
+        pending.add(path.resolve(rootDir, fileName.toString()));
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(flush, DEBOUNCE_MS);
+        if (projectTimer) clearTimeout(projectTimer);
+        projectTimer = setTimeout(flushProjectRules, PROJECT_RULES_DEBOUNCE_MS);
+    });
+
+    console.log(chalk.cyan(`\n👀 Watching ${rootDir} for changes (Ctrl+C to stop)`));
+
+    return new Promise(resolve => {
+        const stop = () => {
+            watcher.close();
+            if (timer) clearTimeout(timer);
+            if (projectTimer) clearTimeout(projectTimer);
+            process.off('SIGINT', stop);
+            resolve();
+        };
+        process.on('SIGINT', stop);
+        watcher.on('error', error => {
+            logger.error('Watcher error:', error);
+            console.error(chalk.red('Watcher error:'), error.message);
+            stop();
+        });
+    });
+}
+
+function isRelevant(fileName: string): boolean {
+    const segments = fileName.split(/[\\/]/);
+    if (segments.some(segment => IGNORED_DIRECTORIES.includes(segment))) {
+        return false;
+    }
+    return /\.(ts|tsx|mts|cts)$/.test(fileName) && !/\.d\.[mc]?ts$/.test(fileName);
+}
+
+// Issues are compared by fingerprint, which stays stable when unrelated
+// lines move, so editing the top of a file does not report everything below
+// it as new. Fingerprints are a multiset, like in the baseline.
+function diffIssues(before: Issue[], after: Issue[]): { introduced: Issue[]; resolved: Issue[] } {
+    const subtract = (from: Issue[], other: Issue[]): Issue[] => {
+        const counts = new Map<string, number>();
+        for (const issue of other) {
+            counts.set(issue.fingerprint!, (counts.get(issue.fingerprint!) ?? 0) + 1);
+        }
+        return from.filter(issue => {
+            const count = counts.get(issue.fingerprint!) ?? 0;
+            if (count === 0) return true;
+            counts.set(issue.fingerprint!, count - 1);
+            return false;
+        });
+    };
+
+    return {
+        introduced: subtract(after, before),
+        resolved: subtract(before, after)
+    };
+}
+
+function printDiff(heading: string, before: Issue[], after: Issue[]) {
+    const { introduced, resolved } = diffIssues(before, after);
+    const time = new Date().toLocaleTimeString();
+
+    console.log(chalk.gray(`\n[${time}] ${heading}`));
+    if (introduced.length === 0 && resolved.length === 0) {
+        console.log(chalk.gray('  No change in issues'));
+    }
+    introduced.forEach(issue => {
+        console.log(chalk.red(`  + ${issue.message}`) + chalk.gray(` (${issue.ruleId}) ${formatLocation(issue)}`));
+    });
+    resolved.forEach(issue => {
+        console.log(chalk.green(`  − ${issue.message}`) + chalk.gray(` (${issue.ruleId}) ${formatLocation(issue)}`));
+    });
+    console.log(chalk.blue(`  Total Issues: ${after.length}`) +
+        chalk.gray(` (${chalk.red(`+${introduced.length}`)} ${chalk.green(`−${resolved.length}`)})`));
+}
@@ -0,0 +1,94 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { closestMatch, ConfigError, findConfigFile, loadConfig } from './loader.js';
+
+describe('loadConfig', () => {
+    let rootDir: string;
+
+    const writeConfig = (content: unknown) => fs.writeFile(
+        path.join(rootDir, 'tsa.config.json'),
+        typeof content === 'string' ? content : JSON.stringify(content)
+    );
+
+    const problemsOf = async (content: unknown) => {
+        await writeConfig(content);
+        const error = await loadConfig(rootDir).catch(caught => caught);
+        expect(error).toBeInstanceOf(ConfigError);
+        return (error as ConfigError).problems;
+    };
+
+    beforeEach(async () => {
+        rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tsa-config-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(rootDir, { recursive: true, force: true });
+    });
+
+    it('walks up from a nested directory to the config file', async () => {
+        await writeConfig({ exclude: ['generated'] });
+        const nested = path.join(rootDir, 'packages/app/src');
+        await fs.mkdir(nested, { recursive: true });
+
+        expect(findConfigFile(nested)).toBe(path.join(rootDir, 'tsa.config.json'));
+        const config = await loadConfig(nested);
+        expect(config).toMatchObject({ rootDir, configPath: path.join(rootDir, 'tsa.config.json'), exclude: ['generated'] });
+    });
+
+    it('falls back to the defaults without a config file', async () => {
+        const config = await loadConfig(rootDir);
+
+        expect(config.configPath).toBeNull();
+        expect(config.rootDir).toBe(rootDir);
+        expect(config.analysis).toEqual({ performance: true, memory: true, dependencies: true });
+    });
+
+    it('merges nested sections with the defaults', async () => {
+        await writeConfig({ analysis: { memory: false }, check: { maxIssues: { medium: 5 } }, cache: { enabled: false } });
+        const config = await loadConfig(rootDir);
+
+        expect(config.analysis).toEqual({ performance: true, memory: false, dependencies: true });
+        expect(config.check).toEqual({ maxIssues: { high: 0, medium: 5 }, maxCircularDependencies: 0 });
+        expect(config.cache).toEqual({ enabled: false, directory: 'node_modules/.cache/tsa' });
+        expect(config.reporting).toEqual({ format: 'terminal', output: '.' });
+    });
+
+    it('reports invalid JSON with the file path', async () => {
+        await writeConfig('{ "include": [ }');
+
+        await expect(loadConfig(rootDir)).rejects.toThrow(`Invalid JSON in ${path.join(rootDir, 'tsa.config.json')}`);
+    });
+
+    it('suggests the closest key for an unknown option', async () => {
+        expect(await problemsOf({ analysis: { perfomance: false }, exlude: [] })).toEqual([
+            'Unknown option "analysis.perfomance" (did you mean "performance"?)',
+            'Unknown option "exlude" (did you mean "exclude"?)'
+        ]);
+    });
+
+    it('describes values of the wrong type or outside the enum', async () => {
+        expect(await problemsOf({ include: 'src', reporting: { format: 'xml' }, check: { maxIssues: { high: -1 } } })).toEqual([
+            '"include" must be an array, got string "src"',
+            '"reporting.format" must be one of "terminal", "json", "html", got "xml"',
+            '"check.maxIssues.high" must be at least 0'
+        ]);
+    });
+
+    it('accepts a rule setting in any of its forms and rejects others', async () => {
+        await writeConfig({ rules: { 'perf/nested-loop': 'off', 'perf/await-in-loop': ['high', { ignore: [] }] } });
+        await expect(loadConfig(rootDir)).resolves.toMatchObject({ rules: { 'perf/nested-loop': 'off' } });
+
+        expect(await problemsOf({ rules: { 'perf/nested-loop': 'severe', 'perf/await-in-loop': 2 } })).toEqual([
+            '"rules.perf/nested-loop" does not match any of the allowed forms',
+            '"rules.perf/await-in-loop" does not match any of the allowed forms'
+        ]);
+    });
+});
+
+describe('closestMatch', () => {
+    it('only suggests candidates within a few edits', () => {
+        expect(closestMatch('Reportng', ['reporting', 'rules'])).toBe('reporting');
+        expect(closestMatch('coverage', ['cache', 'check'])).toBeNull();
+    });
+});
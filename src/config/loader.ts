@@ -0,0 +1,324 @@
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { configSchema, JsonSchema } from './schema.js';
+
+export const CONFIG_FILE_NAME = 'tsa.config.json';
+
+export type ReportFormat = 'terminal' | 'json' | 'html';
+
+export type RuleLevel = 'off' | 'low' | 'medium' | 'high';
+
+// "off", a severity, or [severity, options]
+export type RuleSetting = RuleLevel | [RuleLevel] | [RuleLevel, Record<string, unknown>];
+
+export interface TsaConfig {
+    $schema?: string;
+    version?: string;
+    include: string[];
+    exclude: string[];
+    tsconfig?: string;
+    workspaces: boolean;
+    analysis: {
+        performance: boolean;
+        memory: boolean;
+        dependencies: boolean;
+    };
+    reporting: {
+        format: ReportFormat;
+        output: string;
+    };
+    plugins: string[];
+    rules: Record<string, RuleSetting>;
+    suppressions: {
+        reportUnused: boolean;
+    };
+    baseline: {
+        file: string;
+    };
+    cache: {
+        enabled: boolean;
+        directory: string;
+    };
+    check: CheckThresholds;
+    backup?: Record<string, unknown>;
+    deployment?: Record<string, unknown>;
+    smart?: Record<string, unknown>;
+}
+
+// Limits enforced by "tsa check"; unset limits are not checked
+export interface CheckThresholds {
+    maxIssues: {
+        high?: number;
+        medium?: number;
+        low?: number;
+        total?: number;
+    };
+    maxCircularDependencies?: number;
+    minMaintainabilityIndex?: number;
+    maxFunctionComplexity?: number;
+    maxCognitiveComplexity?: number;
+}
+
+export interface ResolvedConfig extends TsaConfig {
+    // Directory that relative paths in the config are resolved against
+    rootDir: string;
+    // Absolute path of the config file, or null when running on defaults
+    configPath: string | null;
+}
+
+export interface ConfigOverrides {
+    perf?: boolean;
+    memory?: boolean;
+    deps?: boolean;
+    output?: ReportFormat;
+    reportDir?: string;
+    exclude?: string[];
+    // false when --no-cache is passed
+    cache?: boolean;
+}
+
+export class ConfigError extends Error {
+    constructor(message: string, public readonly configPath: string | null, public readonly problems: string[] = []) {
+        super(problems.length > 0
+            ? `${message}\n${problems.map(problem => `  - ${problem}`).join('\n')}`
+            : message);
+        this.name = 'ConfigError';
+    }
+}
+
+export function createDefaultConfig(rootDir: string): ResolvedConfig {
+    return {
+        include: [],
+        exclude: [],
+        workspaces: true,
+        analysis: {
+            performance: true,
+            memory: true,
+            dependencies: true
+        },
+        reporting: {
+            format: 'terminal',
+            output: '.'
+        },
+        plugins: [],
+        rules: {},
+        suppressions: {
+            reportUnused: true
+        },
+        baseline: {
+            file: 'tsa-baseline.json'
+        },
+        cache: {
+            enabled: true,
+            directory: 'node_modules/.cache/tsa'
+        },
+        check: {
+            maxIssues: {
+                high: 0
+            },
+            maxCircularDependencies: 0
+        },
+        rootDir,
+        configPath: null
+    };
+}
+
+// Walks up from startDir to the filesystem root looking for tsa.config.json
+export function findConfigFile(startDir: string): string | null {
+    let currentPath = path.resolve(startDir);
+    while (true) {
+        const configPath = path.join(currentPath, CONFIG_FILE_NAME);
+        if (existsSync(configPath)) {
+            return configPath;
+        }
+        const parent = path.dirname(currentPath);
+        if (parent === currentPath) {
+            return null;
+        }
+        currentPath = parent;
+    }
+}
+
+export async function loadConfig(startDir: string, explicitPath?: string): Promise<ResolvedConfig> {
+    const configPath = explicitPath
+        ? path.resolve(explicitPath)
+        : findConfigFile(startDir);
+
+    if (!configPath) {
+        return createDefaultConfig(path.resolve(startDir));
+    }
+
+    let raw: string;
+    try {
+        raw = await fs.readFile(configPath, 'utf8');
+    } catch (error) {
+        throw new ConfigError(`Cannot read config file ${configPath}: ${error instanceof Error ? error.message : error}`, configPath);
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch (error) {
+        throw new ConfigError(`Invalid JSON in ${configPath}: ${error instanceof Error ? error.message : error}`, configPath);
+    }
+
+    const problems = validateAgainstSchema(parsed, configSchema, '');
+    if (problems.length > 0) {
+        throw new ConfigError(`Invalid configuration in ${configPath}:`, configPath, problems);
+    }
+
+    return mergeWithDefaults(parsed as Partial<TsaConfig>, path.dirname(configPath), configPath);
+}
+
+export function applyOverrides(config: ResolvedConfig, overrides: ConfigOverrides): ResolvedConfig {
+    const analysis = overrides.perf || overrides.memory || overrides.deps
+        ? {
+            performance: Boolean(overrides.perf),
+            memory: Boolean(overrides.memory),
+            dependencies: Boolean(overrides.deps)
+        }
+        : config.analysis;
+
+    return {
+        ...config,
+        exclude: [...config.exclude, ...(overrides.exclude ?? [])],
+        analysis,
+        reporting: {
+            format: overrides.output ?? config.reporting.format,
+            output: overrides.reportDir ? path.resolve(overrides.reportDir) : config.reporting.output
+        },
+        cache: {
+            ...config.cache,
+            enabled: config.cache.enabled && overrides.cache !== false
+        }
+    };
+}
+
+function mergeWithDefaults(config: Partial<TsaConfig>, rootDir: string, configPath: string): ResolvedConfig {
+    const defaults = createDefaultConfig(rootDir);
+    return {
+        ...defaults,
+        ...config,
+        include: config.include ?? defaults.include,
+        exclude: config.exclude ?? defaults.exclude,
+        plugins: config.plugins ?? defaults.plugins,
+        rules: { ...defaults.rules, ...config.rules },
+        suppressions: { ...defaults.suppressions, ...config.suppressions },
+        baseline: { ...defaults.baseline, ...config.baseline },
+        cache: { ...defaults.cache, ...config.cache },
+        check: {
+            ...defaults.check,
+            ...config.check,
+            maxIssues: { ...defaults.check.maxIssues, ...config.check?.maxIssues }
+        },
+        analysis: { ...defaults.analysis, ...config.analysis },
+        reporting: { ...defaults.reporting, ...config.reporting },
+        rootDir,
+        configPath
+    };
+}
+
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, keyPath: string): string[] {
+    const label = keyPath ? `"${keyPath}"` : 'Configuration';
+
+    if (schema.oneOf) {
+        const matches = schema.oneOf.some(option => validateAgainstSchema(value, option, keyPath).length === 0);
+        return matches ? [] : [`${label} does not match any of the allowed forms`];
+    }
+
+    if (schema.type && !matchesType(value, schema.type)) {
+        return [`${label} must be ${article(schema.type)} ${schema.type}, got ${describeType(value)}`];
+    }
+
+    if (schema.enum && !schema.enum.includes(value as string | number | boolean)) {
+        return [`${label} must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}, got ${JSON.stringify(value)}`];
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            return [`${label} must be at least ${schema.minimum}`];
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            return [`${label} must be at most ${schema.maximum}`];
+        }
+    }
+
+    if (Array.isArray(value) && schema.items) {
+        return value.flatMap((item, index) => validateAgainstSchema(item, schema.items!, `${keyPath}[${index}]`));
+    }
+
+    if (schema.type === 'object' && value !== null && typeof value === 'object') {
+        const problems: string[] = [];
+        const properties = schema.properties ?? {};
+        for (const [key, child] of Object.entries(value)) {
+            const childPath = keyPath ? `${keyPath}.${key}` : key;
+            if (key in properties) {
+                problems.push(...validateAgainstSchema(child, properties[key], childPath));
+            } else if (schema.additionalProperties === false) {
+                const suggestion = closestMatch(key, Object.keys(properties));
+                problems.push(`Unknown option "${childPath}"${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`);
+            } else if (typeof schema.additionalProperties === 'object') {
+                problems.push(...validateAgainstSchema(child, schema.additionalProperties, childPath));
+            }
+        }
+        return problems;
+    }
+
+    return [];
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+    switch (type) {
+        case 'array':
+            return Array.isArray(value);
+        case 'object':
+            return value !== null && typeof value === 'object' && !Array.isArray(value);
+        case 'integer':
+            return Number.isInteger(value);
+        default:
+            return typeof value === type;
+    }
+}
+
+function describeType(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'an array';
+    return typeof value === 'object' ? 'an object' : `${typeof value} ${JSON.stringify(value)}`;
+}
+
+function article(word: string): string {
+    return /^[aeiou]/.test(word) ? 'an' : 'a';
+}
+
+// Suggests the closest known key for typos such as "perfomance"
+export function closestMatch(key: string, candidates: string[]): string | null {
+    let best: string | null = null;
+    let bestDistance = Infinity;
+    for (const candidate of candidates) {
+        const distance = levenshtein(key.toLowerCase(), candidate.toLowerCase());
+        if (distance < bestDistance) {
+            best = candidate;
+            bestDistance = distance;
+        }
+    }
+    return best !== null && bestDistance <= Math.max(2, Math.floor(key.length / 3)) ? best : null;
+}
+
+function levenshtein(a: string, b: string): number {
+    const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        let previous = row[0];
+        row[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const current = row[j];
+            row[j] = Math.min(
+                row[j] + 1,
+                row[j - 1] + 1,
+                previous + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+            previous = current;
+        }
+    }
+    return row[b.length];
+}
@@ -0,0 +1,137 @@
+// JSON schema (draft-07 subset) describing tsa.config.json. The same object
+// drives validation in the loader, so keep both in sync by editing only this.
+export interface JsonSchema {
+    type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+    description?: string;
+    enum?: readonly (string | number | boolean)[];
+    properties?: Record<string, JsonSchema>;
+    additionalProperties?: boolean | JsonSchema;
+    items?: JsonSchema;
+    oneOf?: JsonSchema[];
+    minimum?: number;
+    maximum?: number;
+    default?: unknown;
+}
+
+const stringArray: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+const limit: JsonSchema = { type: 'integer', minimum: 0 };
+
+const ruleLevel: JsonSchema = { type: 'string', enum: ['off', 'low', 'medium', 'high'] };
+
+export const configSchema: JsonSchema = {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+        $schema: { type: 'string' },
+        version: { type: 'string' },
+        include: {
+            ...stringArray,
+            description: 'Directories or globs (relative to this file) to analyze. Defaults to every file in tsconfig.json.'
+        },
+        exclude: {
+            ...stringArray,
+            description: 'Globs (relative to this file) removed from the analyzed files.'
+        },
+        tsconfig: {
+            type: 'string',
+            description: 'Path to the tsconfig.json used to build the project.'
+        },
+        workspaces: {
+            type: 'boolean',
+            default: true,
+            description: 'Analyze each package of a monorepo (npm/yarn/pnpm workspaces, tsconfig references) as its own project.'
+        },
+        analysis: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+                performance: { type: 'boolean', default: true },
+                memory: { type: 'boolean', default: true },
+                dependencies: { type: 'boolean', default: true }
+            }
+        },
+        reporting: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+                format: { type: 'string', enum: ['terminal', 'json', 'html'], default: 'terminal' },
+                output: { type: 'string', description: 'Directory where json/html reports are written.' }
+            }
+        },
+        plugins: {
+            ...stringArray,
+            description: 'Rule packages or module paths (relative to this file) to load rules from.'
+        },
+        rules: {
+            type: 'object',
+            description: 'Per-rule settings: "off", a severity, or [severity, options].',
+            additionalProperties: {
+                oneOf: [
+                    ruleLevel,
+                    { type: 'array' }
+                ]
+            }
+        },
+        suppressions: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+                reportUnused: {
+                    type: 'boolean',
+                    default: true,
+                    description: 'Report tsa-disable comments that no longer suppress anything.'
+                }
+            }
+        },
+        baseline: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+                file: {
+                    type: 'string',
+                    default: 'tsa-baseline.json',
+                    description: 'Baseline written by "tsa baseline create" and read by "tsa analyze --baseline".'
+                }
+            }
+        },
+        cache: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+                enabled: { type: 'boolean', default: true },
+                directory: {
+                    type: 'string',
+                    default: 'node_modules/.cache/tsa',
+                    description: 'Where per-file results are cached between runs.'
+                }
+            }
+        },
+        check: {
+            type: 'object',
+            description: 'Thresholds enforced by "tsa check".',
+            additionalProperties: false,
+            properties: {
+                maxIssues: {
+                    type: 'object',
+                    description: 'Maximum number of issues per severity (high defaults to 0).',
+                    additionalProperties: false,
+                    properties: {
+                        high: limit,
+                        medium: limit,
+                        low: limit,
+                        total: limit
+                    }
+                },
+                maxCircularDependencies: { ...limit, default: 0 },
+                minMaintainabilityIndex: { type: 'number', minimum: 0, maximum: 100 },
+                maxFunctionComplexity: { ...limit, minimum: 1 },
+                maxCognitiveComplexity: { ...limit, minimum: 1 }
+            }
+        },
+        // Sections owned by other commands; validated by those commands.
+        backup: { type: 'object' },
+        deployment: { type: 'object' },
+        smart: { type: 'object' }
+    }
+};
@@ -1,74 +1,84 @@
-import express from 'express';
-import cors from 'cors';
-import helmet from 'helmet';
-import compression from 'compression';
-import morgan from 'morgan';
-import { config } from 'dotenv';
-import { CodeAnalyzer } from './analyzer/CodeAnalyzer.js';
-import logger from './utils/logger.js';
+// Library entry point. Importing it has no side effects: nothing is started,
+// printed or written until one of the exported functions is called.
+// The HTTP API lives in ./server.js and is started by "tsa serve".
 
-// Load environment variables
-config();
+// Analysis
+export { CodeAnalyzer, collectIssues } from './analyzer/CodeAnalyzer.js';
+export type { AnalysisResult, AnalyzeProjectOptions, AnalyzeSourcesOptions, PackageResult, ReanalyzeOptions } from './analyzer/CodeAnalyzer.js';
+export { PerformanceAnalyzer } from './analyzer/PerformanceAnalyzer.js';
+export type {
+    FileMetrics,
+    FilePerformanceResult,
+    FunctionMetrics,
+    LineCounts,
+    PerformanceAnalysisResult,
+    PerformanceMetrics
+} from './analyzer/PerformanceAnalyzer.js';
+export { calculateMaintainabilityIndex, measureFile } from './analyzer/metrics/measure.js';
+export { METRIC_SORT_KEYS, rankByMetric } from './analyzer/metrics/ranking.js';
+export type { MetricSortKey } from './analyzer/metrics/ranking.js';
+export { MemoryLeakDetector } from './analyzer/MemoryLeakDetector.js';
+export type { MemoryAnalysisResult } from './analyzer/MemoryLeakDetector.js';
+export { DependencyAnalyzer } from './analyzer/DependencyAnalyzer.js';
+export type { DependencyAnalysisResult, FileImport, RuleScope } from './analyzer/DependencyAnalyzer.js';
+export { analyzeSourceFile } from './analyzer/fileAnalysis.js';
+export type { FileAnalysis } from './analyzer/fileAnalysis.js';
+export { createInMemoryProject, createProject } from './analyzer/project.js';
+export { discoverPackages } from './analyzer/workspaces.js';
+export type { WorkspacePackage } from './analyzer/workspaces.js';
 
-const app = express();
-const analyzer = new CodeAnalyzer();
+// Issues
+export { compareIssues, createIssue, formatLocation } from './analyzer/Issue.js';
+export type { Issue, IssueCategory, IssueDetails, RuleCategory, Severity } from './analyzer/Issue.js';
+export { Suppressions } from './analyzer/Suppressions.js';
+export type { SuppressedIssue, SuppressionResult } from './analyzer/Suppressions.js';
+export { fingerprintIssues } from './analyzer/fingerprint.js';
+export type { SourceFileLookup } from './analyzer/fingerprint.js';
+export { Baseline, BaselineMatcher } from './analyzer/Baseline.js';
+export type { BaselineEntry } from './analyzer/Baseline.js';
+export { evaluateQualityGate, GATE_EXIT_CODES } from './analyzer/QualityGate.js';
+export type { GateCheck, GateCheckKind, GateResult } from './analyzer/QualityGate.js';
 
-// Middleware
-app.use(helmet()); // Security headers
-app.use(compression()); // Compress responses
-app.use(cors()); // Enable CORS
-app.use(express.json()); // Parse JSON bodies
-app.use(morgan('combined')); // HTTP request logging
+// Configuration
+export {
+    applyOverrides,
+    CONFIG_FILE_NAME,
+    ConfigError,
+    createDefaultConfig,
+    findConfigFile,
+    loadConfig
+} from './config/loader.js';
+export type {
+    CheckThresholds,
+    ConfigOverrides,
+    ReportFormat,
+    ResolvedConfig,
+    RuleLevel,
+    RuleSetting,
+    TsaConfig
+} from './config/loader.js';
+export { configSchema } from './config/schema.js';
+export type { JsonSchema } from './config/schema.js';
 
-// Routes
-app.post('/api/analyze', async (req, res) => {
-    try {
-        const { projectPath } = req.body;
-        
-        if (!projectPath) {
-            return res.status(400).json({
-                success: false,
-                error: 'Project path is required'
-            });
-        }
+// Rules and plugins
+export { defineRule } from './rules/types.js';
+export type {
+    FileRuleContext,
+    NodeVisitor,
+    ProjectRuleContext,
+    ReportDescriptor,
+    Rule,
+    RuleMeta,
+    TsaPlugin
+} from './rules/types.js';
+export { RuleRegistry } from './rules/RuleRegistry.js';
+export type { ConfiguredRule } from './rules/RuleRegistry.js';
+export { builtinRules } from './rules/builtin.js';
+export { loadPlugin, loadRules } from './rules/loadPlugins.js';
 
-        logger.info(`Starting analysis for project: ${projectPath}`);
-        const results = await analyzer.analyzeProject(projectPath);
-        
-        logger.info(`Analysis completed for project: ${projectPath}`);
-        res.json({
-            success: true,
-            data: results
-        });
-    } catch (error) {
-        logger.error('Analysis error:', error);
-        res.status(500).json({
-            success: false,
-            error: 'Analysis failed',
-            message: error instanceof Error ? error.message : 'Unknown error'
-        });
-    }
-});
-
-app.get('/api/health', (req, res) => {
-    res.json({
-        success: true,
-        status: 'healthy',
-        timestamp: new Date().toISOString()
-    });
-});
-
-// Error handling middleware
-app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
-    logger.error('Unhandled error:', err);
-    res.status(500).json({
-        success: false,
-        error: 'Internal server error',
-        message: process.env.NODE_ENV === 'development' ? err.message : undefined
-    });
-});
-
-const PORT = process.env.PORT || 3000;
-app.listen(PORT, () => {
-    logger.info(`TypeScript Code Analyzer Pro running on port ${PORT}`);
-});
+// Reports and utilities
+export { generateReport } from './utils/report.js';
+export type { ReportOptions } from './utils/report.js';
+export { getChangedFiles } from './utils/git.js';
+export type { ChangedFilesOptions } from './utils/git.js';
+export { enableLogging } from './utils/logger.js';
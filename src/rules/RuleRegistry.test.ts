@@ -0,0 +1,102 @@
+import { jest } from '@jest/globals';
+import { SyntaxKind } from 'ts-morph';
+import { ConfigError } from '../config/loader.js';
+import { createInMemoryProject } from '../analyzer/project.js';
+import { RuleRegistry } from './RuleRegistry.js';
+import { RuleRunner } from './RuleRunner.js';
+import { defineRule } from './types.js';
+import { closureLeakRule } from './memory/closureLeak.js';
+import logger from '../utils/logger.js';
+
+const noDebuggerRule = defineRule<{ allowInTests: boolean }>({
+    meta: {
+        id: 'acme/no-debugger',
+        category: 'performance',
+        description: 'Flags debugger statements',
+        defaultSeverity: 'low',
+        options: {
+            type: 'object',
+            properties: {
+                allowInTests: { type: 'boolean', default: false }
+            }
+        }
+    },
+    createVisitor(context) {
+        return {
+            [SyntaxKind.DebuggerStatement]: node => {
+                if (context.options.allowInTests && context.sourceFile.getFilePath().endsWith('.test.ts')) return;
+                context.report({ node, message: 'debugger statement', suggestion: 'Remove it' });
+            }
+        };
+    }
+});
+
+describe('RuleRegistry', () => {
+    it('enables every rule with its default options', () => {
+        const [configured] = new RuleRegistry([noDebuggerRule]).configure({});
+        expect(configured.rule).toBe(noDebuggerRule);
+        expect(configured.severity).toBeUndefined();
+        expect(configured.options).toEqual({ allowInTests: false });
+    });
+
+    it('applies levels and options from the config', () => {
+        const registry = new RuleRegistry([noDebuggerRule]);
+        expect(registry.configure({ 'acme/no-debugger': 'off' })).toEqual([]);
+        expect(registry.configure({ 'acme/no-debugger': ['high', { allowInTests: true }] })).toEqual([
+            { rule: noDebuggerRule, severity: 'high', options: { allowInTests: true } }
+        ]);
+    });
+
+    it('rejects unknown rules and invalid options', () => {
+        const registry = new RuleRegistry([noDebuggerRule]);
+        expect(() => registry.configure({ 'acme/no-debuger': 'high' })).toThrow(ConfigError);
+        expect(() => registry.configure({ 'acme/no-debugger': ['high', { allowInTests: 'yes' }] })).toThrow(ConfigError);
+    });
+
+    it('accepts a deprecated rule in the config with a warning', () => {
+        const warn = jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+        const registry = new RuleRegistry([noDebuggerRule, closureLeakRule]);
+
+        expect(registry.configure({ 'memory/closure-leak': 'high' }).map(({ rule }) => rule)).toContain(closureLeakRule);
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('Rule "memory/closure-leak" is deprecated'));
+        warn.mockRestore();
+    });
+
+    it('rejects duplicate rule ids', () => {
+        expect(() => new RuleRegistry([noDebuggerRule, noDebuggerRule])).toThrow('registered more than once');
+    });
+});
+
+describe('RuleRunner', () => {
+    const project = createInMemoryProject({
+        '/src/a.ts': 'export function a() {\n    debugger;\n}\n',
+        '/src/a.test.ts': 'debugger;\n'
+    });
+
+    it('reports through the configured severity and options', () => {
+        const runner = new RuleRunner(new RuleRegistry([noDebuggerRule]).configure({
+            'acme/no-debugger': ['medium', { allowInTests: true }]
+        }));
+
+        expect(runner.runFile(project.getSourceFileOrThrow('/src/a.test.ts'), project)).toEqual([]);
+        const [issue] = runner.runFile(project.getSourceFileOrThrow('/src/a.ts'), project);
+        expect(issue).toMatchObject({
+            ruleId: 'acme/no-debugger',
+            severity: 'medium',
+            file: '/src/a.ts',
+            startLine: 2
+        });
+    });
+
+    it('keeps running other rules when one throws', () => {
+        const throwingRule = defineRule({
+            meta: { id: 'acme/throws', category: 'performance', description: 'Always throws', defaultSeverity: 'low' },
+            createVisitor() {
+                throw new Error('broken rule');
+            }
+        });
+        const runner = new RuleRunner(new RuleRegistry([throwingRule, noDebuggerRule]).configure({}));
+
+        expect(runner.runFile(project.getSourceFileOrThrow('/src/a.ts'), project)).toHaveLength(1);
+    });
+});
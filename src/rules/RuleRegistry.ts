@@ -0,0 +1,106 @@
+import { Severity } from '../analyzer/Issue.js';
+import { closestMatch, ConfigError, RuleSetting, validateAgainstSchema } from '../config/loader.js';
+import { Rule, TsaPlugin } from './types.js';
+import logger from '../utils/logger.js';
+
+// A rule that is enabled for this run together with its resolved settings
+export interface ConfiguredRule {
+    rule: Rule;
+    // Severity set explicitly in tsa.config.json; overrides what the rule reports
+    severity?: Severity;
+    options: Record<string, unknown>;
+}
+
+const RULE_LEVELS = ['off', 'low', 'medium', 'high'];
+
+export class RuleRegistry {
+    private rules: Map<string, Rule>;
+
+    constructor(rules: Rule[] = []) {
+        this.rules = new Map();
+        rules.forEach(rule => this.register(rule));
+    }
+
+    public register(rule: Rule): void {
+        if (!rule?.meta?.id) {
+            throw new Error('Rule is missing meta.id');
+        }
+        if (this.rules.has(rule.meta.id)) {
+            throw new Error(`Rule "${rule.meta.id}" is registered more than once`);
+        }
+        this.rules.set(rule.meta.id, rule);
+    }
+
+    public registerPlugin(plugin: TsaPlugin, source: string): void {
+        if (!Array.isArray(plugin?.rules)) {
+            throw new Error(`Plugin "${source}" does not export a "rules" array`);
+        }
+        plugin.rules.forEach(rule => this.register(rule));
+    }
+
+    public get(id: string): Rule | undefined {
+        return this.rules.get(id);
+    }
+
+    public getAll(): Rule[] {
+        return Array.from(this.rules.values());
+    }
+
+    // Resolves the "rules" section of tsa.config.json against the registered
+    // rules. Every rule is on by default; unknown ids and invalid options fail.
+    public configure(settings: Record<string, RuleSetting>, configPath: string | null = null): ConfiguredRule[] {
+        const problems: string[] = [];
+
+        for (const id of Object.keys(settings)) {
+            const rule = this.rules.get(id);
+            if (!rule) {
+                const suggestion = closestMatch(id, this.getAll().filter(known => !known.meta.deprecated).map(known => known.meta.id));
+                problems.push(`Unknown rule "${id}"${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`);
+            } else if (rule.meta.deprecated) {
+                logger.warn(`Rule "${id}" is deprecated and reports nothing; remove it from the config: ${rule.meta.deprecated}`);
+            }
+        }
+
+        const configured: ConfiguredRule[] = [];
+        for (const rule of this.rules.values()) {
+            const setting = settings[rule.meta.id];
+            const [level, options = {}] = Array.isArray(setting) ? setting : [setting];
+
+            if (level !== undefined && !RULE_LEVELS.includes(level)) {
+                problems.push(`"rules.${rule.meta.id}" must start with one of ${RULE_LEVELS.join(', ')}, got ${JSON.stringify(level)}`);
+                continue;
+            }
+            if (level === 'off') {
+                continue;
+            }
+
+            if (rule.meta.options) {
+                problems.push(...validateAgainstSchema(options, rule.meta.options, `rules.${rule.meta.id}[1]`));
+            } else if (Object.keys(options).length > 0) {
+                problems.push(`"rules.${rule.meta.id}" does not accept options`);
+            }
+
+            configured.push({
+                rule,
+                severity: level as Severity | undefined,
+                options: { ...this.getDefaultOptions(rule), ...options }
+            });
+        }
+
+        if (problems.length > 0) {
+            throw new ConfigError(`Invalid rule configuration${configPath ? ` in ${configPath}` : ''}:`, configPath, problems);
+        }
+
+        return configured;
+    }
+
+    private getDefaultOptions(rule: Rule): Record<string, unknown> {
+        const defaults: Record<string, unknown> = {};
+        for (const [key, schema] of Object.entries(rule.meta.options?.properties ?? {})) {
+            if (schema.default !== undefined) {
+                defaults[key] = schema.default;
+            }
+        }
+        return defaults;
+    }
+}
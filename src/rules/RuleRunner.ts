@@ -0,0 +1,88 @@
+import { Node, Project, SourceFile } from 'ts-morph';
+import { createIssue, Issue } from '../analyzer/Issue.js';
+import logger from '../utils/logger.js';
+import { ConfiguredRule } from './RuleRegistry.js';
+import { FileRuleContext, NodeVisitor, ProjectRuleContext, ReportDescriptor } from './types.js';
+
+export class RuleRunner {
+    constructor(private rules: ConfiguredRule[]) {}
+
+    // Runs visitor and file hooks of every rule over one file, walking the AST once
+    public runFile(sourceFile: SourceFile, project: Project): Issue[] {
+        const issues: Issue[] = [];
+        const active: Array<{ configured: ConfiguredRule; context: FileRuleContext; visitor: NodeVisitor }> = [];
+
+        for (const configured of this.rules) {
+            const context: FileRuleContext = {
+                ...this.createContext(configured, project, issues),
+                sourceFile
+            };
+            try {
+                const visitor = configured.rule.createVisitor?.(context) ?? {};
+                active.push({ configured, context, visitor });
+            } catch (error) {
+                this.logRuleError(configured, sourceFile.getFilePath(), error);
+            }
+        }
+
+        sourceFile.forEachDescendant(node => {
+            const kind = node.getKind();
+            for (const { configured, visitor } of active) {
+                const handler = visitor[kind] as ((node: Node) => void) | undefined;
+                if (!handler) continue;
+                try {
+                    handler(node);
+                } catch (error) {
+                    this.logRuleError(configured, sourceFile.getFilePath(), error);
+                }
+            }
+        });
+
+        for (const { configured, context } of active) {
+            try {
+                configured.rule.checkFile?.(context);
+            } catch (error) {
+                this.logRuleError(configured, sourceFile.getFilePath(), error);
+            }
+        }
+
+        return issues;
+    }
+
+    public runProject(project: Project): Issue[] {
+        const issues: Issue[] = [];
+
+        for (const configured of this.rules) {
+            if (!configured.rule.checkProject) continue;
+            try {
+                configured.rule.checkProject(this.createContext(configured, project, issues));
+            } catch (error) {
+                this.logRuleError(configured, 'project', error);
+            }
+        }
+
+        return issues;
+    }
+
+    private createContext(configured: ConfiguredRule, project: Project, issues: Issue[]): ProjectRuleContext {
+        const { rule, severity, options } = configured;
+        return {
+            project,
+            options,
+            report: (descriptor: ReportDescriptor) => {
+                issues.push(createIssue(descriptor.node, {
+                    ruleId: rule.meta.id,
+                    category: rule.meta.category,
+                    severity: severity ?? descriptor.severity ?? rule.meta.defaultSeverity,
+                    message: descriptor.message,
+                    suggestion: descriptor.suggestion,
+                    code: descriptor.code
+                }));
+            }
+        };
+    }
+
+    private logRuleError(configured: ConfiguredRule, location: string, error: unknown) {
+        logger.error(`Rule ${configured.rule.meta.id} failed on ${location}:`, error);
+    }
+}
@@ -0,0 +1,54 @@
+import { Rule } from './types.js';
+import { nestedLoopRule } from './performance/nestedLoop.js';
+import { largeArrayLiteralRule } from './performance/largeArrayLiteral.js';
+import { memoryIntensiveCallRule } from './performance/memoryIntensiveCall.js';
+import { cyclomaticComplexityRule } from './performance/cyclomaticComplexity.js';
+import { cognitiveComplexityRule } from './performance/cognitiveComplexity.js';
+import { awaitInLoopRule } from './performance/awaitInLoop.js';
+import { sequentialAwaitRule } from './performance/sequentialAwait.js';
+import { asyncArrayCallbackRule } from './performance/asyncArrayCallback.js';
+import { linearSearchInLoopRule } from './performance/linearSearchInLoop.js';
+import { spreadAccumulatorRule } from './performance/spreadAccumulator.js';
+import { jsonCloneInLoopRule } from './performance/jsonCloneInLoop.js';
+import { stringConcatInLoopRule } from './performance/stringConcatInLoop.js';
+import { regexpInLoopRule } from './performance/regexpInLoop.js';
+import { redosRule } from './performance/redos.js';
+import { blockingSyncCallRule } from './performance/blockingSyncCall.js';
+import { eventListenerLeakRule } from './memory/eventListenerLeak.js';
+import { timerLeakRule } from './memory/timerLeak.js';
+import { objectAccumulationRule } from './memory/objectAccumulation.js';
+import { subscriptionLeakRule } from './memory/subscriptionLeak.js';
+import { closureLeakRule } from './memory/closureLeak.js';
+import { effectCleanupRule } from './react/effectCleanup.js';
+import { exhaustiveDepsRule } from './react/exhaustiveDeps.js';
+import { setStateAfterUnmountRule } from './react/setStateAfterUnmount.js';
+import { unstableMemoPropRule } from './react/unstableMemoProp.js';
+import { rulesOfHooksRule } from './react/rulesOfHooks.js';
+
+export const builtinRules: Rule[] = [
+    nestedLoopRule,
+    largeArrayLiteralRule,
+    memoryIntensiveCallRule,
+    cyclomaticComplexityRule,
+    cognitiveComplexityRule,
+    awaitInLoopRule,
+    sequentialAwaitRule,
+    asyncArrayCallbackRule,
+    linearSearchInLoopRule,
+    spreadAccumulatorRule,
+    jsonCloneInLoopRule,
+    stringConcatInLoopRule,
+    regexpInLoopRule,
+    redosRule,
+    blockingSyncCallRule,
+    eventListenerLeakRule,
+    timerLeakRule,
+    objectAccumulationRule,
+    subscriptionLeakRule,
+    closureLeakRule,
+    effectCleanupRule,
+    exhaustiveDepsRule,
+    setStateAfterUnmountRule,
+    unstableMemoPropRule,
+    rulesOfHooksRule
+];
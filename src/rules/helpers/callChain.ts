@@ -0,0 +1,35 @@
+import { Node } from 'ts-morph';
+
+const MAX_CHAIN_LENGTH = 80;
+
+// Short form of a call for messages, keeping the chain but not the
+// arguments: db.collection('users').find({ id }) becomes db.collection().find()
+export function formatCallChain(node: Node): string {
+    const chain = format(node);
+    return chain.length > MAX_CHAIN_LENGTH ? `${chain.slice(0, MAX_CHAIN_LENGTH - 1)}…` : chain;
+}
+
+function format(node: Node): string {
+    if (Node.isAwaitExpression(node)) {
+        return `await ${format(node.getExpression())}`;
+    }
+    if (Node.isParenthesizedExpression(node) || Node.isNonNullExpression(node) || Node.isAsExpression(node)) {
+        return format(node.getExpression());
+    }
+    if (Node.isCallExpression(node)) {
+        return `${format(node.getExpression())}${node.hasQuestionDotToken() ? '?.' : ''}()`;
+    }
+    if (Node.isNewExpression(node)) {
+        return `new ${format(node.getExpression())}()`;
+    }
+    if (Node.isPropertyAccessExpression(node)) {
+        return `${format(node.getExpression())}${node.hasQuestionDotToken() ? '?.' : '.'}${node.getName()}`;
+    }
+    if (Node.isElementAccessExpression(node)) {
+        return `${format(node.getExpression())}[]`;
+    }
+    if (Node.isIdentifier(node) || Node.isPrivateIdentifier(node) || Node.isThisExpression(node) || Node.isSuperExpression(node)) {
+        return node.getText();
+    }
+    return '…';
+}
@@ -0,0 +1,38 @@
+import { Node } from 'ts-morph';
+import { ComplexityNode, isComplexityNode } from '../../analyzer/metrics/complexity.js';
+
+// The project function an expression refers to: an inline function, or a
+// function, method or function-valued variable declared in a project file.
+// Library functions (declaration files, node_modules) are not followed.
+export function resolveFunction(expression: Node): ComplexityNode | undefined {
+    if (isComplexityNode(expression)) {
+        return expression;
+    }
+    if (Node.isParenthesizedExpression(expression) || Node.isAsExpression(expression) || Node.isNonNullExpression(expression)) {
+        return resolveFunction(expression.getExpression());
+    }
+    if (!Node.isIdentifier(expression) && !Node.isPropertyAccessExpression(expression)) {
+        return undefined;
+    }
+
+    let symbol = expression.getSymbol();
+    if (symbol?.isAlias()) {
+        symbol = symbol.getAliasedSymbol();
+    }
+    for (const declaration of symbol?.getDeclarations() ?? []) {
+        const sourceFile = declaration.getSourceFile();
+        if (sourceFile.isDeclarationFile() || sourceFile.isInNodeModules()) {
+            continue;
+        }
+        if (isComplexityNode(declaration)) {
+            return declaration;
+        }
+        if (Node.isVariableDeclaration(declaration) || Node.isPropertyDeclaration(declaration) || Node.isPropertyAssignment(declaration)) {
+            const initializer = declaration.getInitializer();
+            if (initializer && isComplexityNode(initializer)) {
+                return initializer;
+            }
+        }
+    }
+    return undefined;
+}
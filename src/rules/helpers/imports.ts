@@ -0,0 +1,33 @@
+import { Node, SyntaxKind } from 'ts-morph';
+
+// The module an identifier was imported from, with any "node:" prefix removed:
+// "fs" for `import fs from 'fs'`, `import { readFileSync } from 'node:fs'`
+// or `const { execSync } = require('child_process')`. Undefined for local names.
+export function getImportSource(identifier: Node): string | undefined {
+    for (const declaration of identifier.getSymbol()?.getDeclarations() ?? []) {
+        const source = Node.isImportSpecifier(declaration) || Node.isNamespaceImport(declaration) || Node.isImportClause(declaration)
+            ? declaration.getFirstAncestorByKind(SyntaxKind.ImportDeclaration)?.getModuleSpecifierValue()
+            : getRequireSource(declaration);
+        if (source) {
+            return source.replace(/^node:/, '');
+        }
+    }
+    return undefined;
+}
+
+// const x = require('m') or const { a, b: c } = require('m')
+function getRequireSource(declaration: Node): string | undefined {
+    const variable = Node.isBindingElement(declaration)
+        ? declaration.getFirstAncestor(Node.isVariableDeclaration)
+        : declaration;
+    if (!Node.isVariableDeclaration(variable)) {
+        return undefined;
+    }
+
+    const initializer = variable.getInitializer();
+    if (!Node.isCallExpression(initializer) || initializer.getExpression().getText() !== 'require') {
+        return undefined;
+    }
+    const [argument] = initializer.getArguments();
+    return Node.isStringLiteral(argument) ? argument.getLiteralValue() : undefined;
+}
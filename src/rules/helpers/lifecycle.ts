@@ -0,0 +1,176 @@
+import { Node } from 'ts-morph';
+import { Severity } from '../../analyzer/Issue.js';
+import { getBindingName, getCallableName, isCallable } from '../../analyzer/metrics/complexity.js';
+import { getHookOwner } from './react.js';
+
+// Methods that run when a class instance or component goes away
+const TEARDOWN_METHODS = new Set([
+    'destroy', 'dispose', 'ngOnDestroy', 'componentWillUnmount', 'disconnectedCallback',
+    'close', 'stop', 'teardown', 'cleanup', 'unmount'
+]);
+// Hooks whose callback returns a cleanup function
+const EFFECT_HOOKS = new Set(['useEffect', 'useLayoutEffect', 'useInsertionEffect']);
+// Hooks whose callback is itself the cleanup
+const UNMOUNT_HOOKS = new Set(['onUnmounted', 'onBeforeUnmount', 'onDestroy']);
+const EXIT_EVENTS = new Set(['exit', 'beforeExit', 'SIGINT', 'SIGTERM']);
+
+// The class, or else the outermost function, whose lifecycle a resource
+// belongs to: cleanup in any method of the class, or anywhere in the
+// component or hook function (including effect cleanups), pairs with it.
+// Undefined at module level.
+export function getLifecycleScope(node: Node): Node | undefined {
+    const owner = node.getFirstAncestor(ancestor => Node.isClassDeclaration(ancestor) || Node.isClassExpression(ancestor));
+    if (owner) {
+        return owner;
+    }
+    let outermost: Node | undefined;
+    for (const ancestor of node.getAncestors()) {
+        if (isCallable(ancestor)) outermost = ancestor;
+    }
+    return outermost;
+}
+
+// "route GET /users" inside a route handler, otherwise the lifecycle scope
+export function describeOwner(node: Node, scope: Node, routes: ReadonlyMap<Node, string>): string {
+    const route = findRoute(node, routes);
+    return route ? `route ${route}` : describeScope(scope);
+}
+
+function findRoute(node: Node, routes: ReadonlyMap<Node, string>): string | undefined {
+    const handler = node.getAncestors().find(ancestor => routes.has(ancestor));
+    return handler && routes.get(handler);
+}
+
+export function describeScope(scope: Node): string {
+    if (Node.isClassDeclaration(scope) || Node.isClassExpression(scope)) {
+        return `class ${scope.getName() ?? '(anonymous)'}`;
+    }
+    return isCallable(scope) ? getCallableName(scope) : 'this scope';
+}
+
+// Whether the node is a local variable of the scope holding a value created
+// there, such as a stream or watcher, or such a value itself
+export function isCreatedInScope(target: Node, scope: Node): boolean {
+    if (Node.isCallExpression(target) || Node.isNewExpression(target)) {
+        return true;
+    }
+    if (!Node.isIdentifier(target)) {
+        return false;
+    }
+    return (target.getSymbol()?.getDeclarations() ?? []).some(declaration => {
+        const initializer = Node.isVariableDeclaration(declaration) ? declaration.getInitializer() : undefined;
+        return (Node.isCallExpression(initializer) || Node.isNewExpression(initializer) || Node.isAwaitExpression(initializer))
+            && declaration.getSourceFile() === scope.getSourceFile()
+            && declaration.getStart() >= scope.getStart() && declaration.getEnd() <= scope.getEnd();
+    });
+}
+
+// Reference text for comparing targets and handles: "this.timer!" and
+// "this?.timer" both become "this.timer"
+export function normalizeReference(text: string): string {
+    return text.replace(/\s+/g, '').replace(/\?\./g, '.').replace(/!/g, '');
+}
+
+// Whether the node runs when its owner goes away:
+// - in a teardown method such as destroy, dispose, ngOnDestroy or componentWillUnmount
+// - in the cleanup function returned from a useEffect callback, or in onUnmounted
+// - in a process.on('exit') or SIGINT/SIGTERM handler
+export function isInTeardown(node: Node): boolean {
+    for (const ancestor of node.getAncestors()) {
+        if (!isCallable(ancestor)) continue;
+
+        const name = getBindingName(ancestor);
+        if (name && TEARDOWN_METHODS.has(name) && (Node.isMethodDeclaration(ancestor) || Node.isPropertyDeclaration(ancestor.getParent()))) {
+            return true;
+        }
+        if (isEffectCleanup(ancestor) || isHookCallback(ancestor, UNMOUNT_HOOKS) || isExitHandler(ancestor)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+// A function returned from an effect callback: useEffect(() => { ...; return () => cleanup })
+function isEffectCleanup(fn: Node): boolean {
+    const parent = fn.getParent();
+    const returnedFrom = Node.isReturnStatement(parent)
+        ? parent.getFirstAncestor(isCallable)
+        : Node.isArrowFunction(parent) ? parent : undefined;
+    return returnedFrom !== undefined && isHookCallback(returnedFrom, EFFECT_HOOKS);
+}
+
+function isHookCallback(fn: Node, hooks: Set<string>): boolean {
+    const call = fn.getParent();
+    if (!Node.isCallExpression(call) || call.getArguments()[0] !== fn) {
+        return false;
+    }
+    const callee = call.getExpression();
+    const name = Node.isPropertyAccessExpression(callee) ? callee.getName() : callee.getText();
+    return hooks.has(name);
+}
+
+function isExitHandler(fn: Node): boolean {
+    const call = fn.getParent();
+    if (!Node.isCallExpression(call)) {
+        return false;
+    }
+    const callee = call.getExpression();
+    const [event] = call.getArguments();
+    return Node.isPropertyAccessExpression(callee)
+        && callee.getExpression().getText() === 'process'
+        && ['on', 'once'].includes(callee.getName())
+        && Node.isStringLiteral(event) && EXIT_EVENTS.has(event.getLiteralValue());
+}
+
+// How long the owner of a resource lives, which decides what a leak costs:
+// - request: inside a route handler, so every request leaks another one
+// - instance: Angular components and directives or React components, created and destroyed as the UI changes
+// - application: module level, or an Angular service provided in root, created once
+// - unknown: any other class or function
+export type OwnerLifetime = 'request' | 'instance' | 'application' | 'unknown';
+
+const COMPONENT_DECORATORS = new Set(['Component', 'Directive', 'Pipe']);
+
+const LEAK_SEVERITY: Record<OwnerLifetime, Severity> = {
+    request: 'high',
+    instance: 'high',
+    unknown: 'medium',
+    application: 'low'
+};
+
+const LEAK_COST: Record<OwnerLifetime, string> = {
+    request: ', so another one leaks on every request',
+    instance: ', so another one leaks with every instance',
+    unknown: '',
+    application: ' (its owner lives as long as the application)'
+};
+
+export function getLeakSeverity(lifetime: OwnerLifetime): Severity {
+    return LEAK_SEVERITY[lifetime];
+}
+
+// Appended to a leak message to say what it costs
+export function describeLeakCost(lifetime: OwnerLifetime): string {
+    return LEAK_COST[lifetime];
+}
+
+// routes maps route handlers to their route, as from findRouteHandlers
+export function getOwnerLifetime(node: Node, routes: ReadonlyMap<Node, string>): OwnerLifetime {
+    if (findRoute(node, routes)) {
+        return 'request';
+    }
+
+    const scope = getLifecycleScope(node);
+    if (!scope) {
+        return 'application';
+    }
+    if (Node.isClassDeclaration(scope)) {
+        const decorators = scope.getDecorators();
+        if (decorators.some(decorator => COMPONENT_DECORATORS.has(decorator.getName()))) return 'instance';
+        if (decorators.some(decorator => decorator.getName() === 'Injectable' && /providedIn\s*:\s*['"]root['"]/.test(decorator.getText()))) {
+            return 'application';
+        }
+        return 'unknown';
+    }
+    return getHookOwner(scope) ? 'instance' : 'unknown';
+}
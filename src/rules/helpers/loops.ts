@@ -0,0 +1,78 @@
+import { Node, SyntaxKind } from 'ts-morph';
+import { isCallable } from '../../analyzer/metrics/complexity.js';
+import { formatCallChain } from './callChain.js';
+import { isArrayLike } from './typeChecks.js';
+
+// Array methods that call their callback once per element
+const ITERATION_METHODS = new Set([
+    'forEach', 'map', 'flatMap', 'filter', 'reduce', 'reduceRight',
+    'some', 'every', 'find', 'findIndex', 'findLast', 'findLastIndex'
+]);
+
+// The innermost loop whose every iteration runs the node: a loop statement
+// or a callback passed to an array iteration method such as forEach. The
+// parts of a loop that run once (for initializer, for-of/for-in operand)
+// don't count, and the search stops at any other function.
+export function findEnclosingLoop(node: Node): Node | undefined {
+    let child: Node = node;
+    let parent: Node | undefined = node.getParent();
+    while (parent) {
+        if (isCallable(parent)) {
+            return isIterationCallback(parent) ? parent : undefined;
+        }
+        if (Node.isForOfStatement(parent) || Node.isForInStatement(parent)) {
+            if (child !== parent.getExpression()) return parent;
+        } else if (Node.isForStatement(parent)) {
+            if (child !== parent.getInitializer()) return parent;
+        } else if (Node.isWhileStatement(parent) || Node.isDoStatement(parent)) {
+            return parent;
+        }
+        child = parent;
+        parent = parent.getParent();
+    }
+    return undefined;
+}
+
+function isIterationCallback(callable: Node): boolean {
+    const call = callable.getParent();
+    if (!Node.isCallExpression(call) || call.getArguments()[0] !== callable) {
+        return false;
+    }
+    const callee = call.getExpression();
+    return Node.isPropertyAccessExpression(callee)
+        && ITERATION_METHODS.has(callee.getName())
+        && isArrayLike(callee.getExpression());
+}
+
+// Short loop header for messages, e.g. "for (const id of ids)" or "items.forEach()"
+export function describeLoop(loop: Node): string {
+    if (Node.isForOfStatement(loop)) {
+        return `for (${loop.getInitializer().getText()} of ${formatCallChain(loop.getExpression())})`;
+    }
+    if (Node.isForInStatement(loop)) {
+        return `for (${loop.getInitializer().getText()} in ${formatCallChain(loop.getExpression())})`;
+    }
+    if (Node.isForStatement(loop)) return 'for (…)';
+    if (Node.isWhileStatement(loop)) return 'while (…)';
+    if (Node.isDoStatement(loop)) return 'do … while (…)';
+
+    const call = loop.getParent();
+    return call ? formatCallChain(call) : 'loop';
+}
+
+// Whether every variable the expression reads is declared outside the loop,
+// i.e. the expression has the same value on every iteration (barring
+// reassignment) and could be computed once before the loop
+export function isLoopInvariant(expression: Node, loop: Node): boolean {
+    const identifiers = Node.isIdentifier(expression)
+        ? [expression]
+        : expression.getDescendantsOfKind(SyntaxKind.Identifier);
+
+    return identifiers.every(identifier => {
+        const declarations = identifier.getSymbol()?.getDeclarations() ?? [];
+        return declarations.every(declaration =>
+            declaration.getSourceFile() !== loop.getSourceFile()
+            || declaration.getStart() < loop.getStart()
+            || declaration.getStart() >= loop.getEnd());
+    });
+}
@@ -0,0 +1,193 @@
+import { CallExpression, Node, SyntaxKind } from 'ts-morph';
+import { ComplexityNode, getBindingName, isCallable } from '../../analyzer/metrics/complexity.js';
+
+const HOOK_NAME = /^use[A-Z0-9]/;
+const COMPONENT_NAME = /^[A-Z]/;
+const EFFECT_HOOKS = new Set(['useEffect', 'useLayoutEffect', 'useInsertionEffect']);
+// Wrappers whose first argument is a component: memo(function Row() {})
+const COMPONENT_WRAPPERS = new Set(['memo', 'forwardRef']);
+
+export interface HookCall {
+    call: CallExpression;
+    name: string;
+    // 1-based position among the hook calls of the component, in source order
+    index: number;
+}
+
+// A function component or custom hook, the unit React keeps hook state for
+export interface HookOwner {
+    fn: ComplexityNode;
+    name: string;
+}
+
+// "useState" for useState() and React.useState()
+export function getHookName(call: CallExpression): string | undefined {
+    const callee = call.getExpression();
+    const name = Node.isPropertyAccessExpression(callee) ? callee.getName() : callee.getText();
+    return HOOK_NAME.test(name) ? name : undefined;
+}
+
+export function isEffectHook(name: string): boolean {
+    return EFFECT_HOOKS.has(name);
+}
+
+// The component or custom hook a function is, by React's naming rules:
+// PascalCase for components (also inside memo() and forwardRef()), use* for hooks
+export function getHookOwner(fn: Node): HookOwner | undefined {
+    if (!isCallable(fn)) {
+        return undefined;
+    }
+    let name = getBindingName(fn);
+    const parent = fn.getParent();
+    if (!name && Node.isCallExpression(parent) && COMPONENT_WRAPPERS.has(getCalleeName(parent))) {
+        const declaration = parent.getParent();
+        name = Node.isVariableDeclaration(declaration) ? declaration.getName() : undefined;
+    }
+    return name && (COMPONENT_NAME.test(name) || HOOK_NAME.test(name)) ? { fn, name } : undefined;
+}
+
+// The component or hook whose body directly contains the node, i.e. with
+// no other function in between
+function findHookOwner(node: Node): HookOwner | undefined {
+    const fn = node.getFirstAncestor(isCallable);
+    return fn && getHookOwner(fn);
+}
+
+// The innermost component or hook around the node, looking through callbacks
+export function findEnclosingHookOwner(node: Node): HookOwner | undefined {
+    for (const ancestor of node.getAncestors()) {
+        const owner = getHookOwner(ancestor);
+        if (owner) return owner;
+    }
+    return undefined;
+}
+
+// Hook calls made directly by the component, counting conditional ones
+function getHookCalls(owner: HookOwner): HookCall[] {
+    const hooks: HookCall[] = [];
+    owner.fn.getBody()?.forEachDescendant((node, traversal) => {
+        if (isCallable(node)) {
+            traversal.skip();
+            return;
+        }
+        const name = Node.isCallExpression(node) ? getHookName(node) : undefined;
+        if (name) {
+            hooks.push({ call: node as CallExpression, name, index: hooks.length + 1 });
+        }
+    });
+    return hooks;
+}
+
+export interface LocatedHook {
+    owner: HookOwner;
+    hook: HookCall;
+}
+
+// Finds the component and index of hook calls, listing each component's
+// hooks once. Create one per file visitor.
+export function createHookLocator(): (call: CallExpression) => LocatedHook | undefined {
+    const hooksByOwner = new Map<Node, HookCall[]>();
+    return call => {
+        const owner = getHookName(call) ? findHookOwner(call) : undefined;
+        if (!owner) {
+            return undefined;
+        }
+        let hooks = hooksByOwner.get(owner.fn);
+        if (!hooks) {
+            hooks = getHookCalls(owner);
+            hooksByOwner.set(owner.fn, hooks);
+        }
+        const hook = hooks.find(candidate => candidate.call === call);
+        return hook && { owner, hook };
+    };
+}
+
+// e.g. "useEffect #2 in Profile"
+export function describeHook(hook: HookCall, owner: HookOwner): string {
+    return `${hook.name} #${hook.index} in ${owner.name}`;
+}
+
+// The function passed to useEffect, useCallback, useMemo and similar hooks
+export function getHookCallback(call: CallExpression): ComplexityNode | undefined {
+    const [callback] = call.getArguments();
+    return callback && isCallable(callback) ? callback : undefined;
+}
+
+// Values React keeps identical between renders, so closures never see a
+// stale version: state setters, dispatch functions and refs
+export function isStableValue(declaration: Node): boolean {
+    if (Node.isBindingElement(declaration)) {
+        const pattern = declaration.getParent();
+        const variable = pattern?.getParent();
+        return Node.isArrayBindingPattern(pattern)
+            && pattern.getElements().indexOf(declaration) === 1
+            && Node.isVariableDeclaration(variable)
+            && ['useState', 'useReducer'].includes(getInitializerHook(variable) ?? '');
+    }
+    return Node.isVariableDeclaration(declaration) && getInitializerHook(declaration) === 'useRef';
+}
+
+// The declaration of a state setter from const [value, setValue] = useState()
+export function isStateSetter(declaration: Node): boolean {
+    return isStableValue(declaration) && Node.isBindingElement(declaration);
+}
+
+function getInitializerHook(variable: Node): string | undefined {
+    const initializer = Node.isVariableDeclaration(variable) ? variable.getInitializer() : undefined;
+    return Node.isCallExpression(initializer) ? getHookName(initializer) : undefined;
+}
+
+// Whether a component was wrapped in memo() or React.memo(), so unchanged
+// props skip its render. Follows imports to the declaring file, including
+// default exports: export default memo(Row) and export default Row.
+export function isMemoizedComponent(tagName: Node): boolean {
+    let symbol = tagName.getSymbol();
+    if (symbol?.isAlias()) {
+        symbol = symbol.getAliasedSymbol();
+    }
+    return (symbol?.getDeclarations() ?? []).some(declaration => {
+        if (Node.isExportAssignment(declaration)) {
+            const expression = declaration.getExpression();
+            return Node.isIdentifier(expression) ? isMemoizedComponent(expression) : isMemoCall(expression);
+        }
+        return Node.isVariableDeclaration(declaration) && isMemoCall(declaration.getInitializer());
+    });
+}
+
+function isMemoCall(node: Node | undefined): boolean {
+    return Node.isCallExpression(node) && getCalleeName(node) === 'memo';
+}
+
+function getCalleeName(call: CallExpression): string {
+    const callee = call.getExpression();
+    return Node.isPropertyAccessExpression(callee) ? callee.getName() : callee.getText();
+}
+
+// Whether the effect returns a function, i.e. has a cleanup. A returned call
+// counts when it returns a function, as in () => store.subscribe(listener).
+export function returnsCleanup(callback: ComplexityNode): boolean {
+    return getOwnReturns(callback).some(node => {
+        const value = Node.isReturnStatement(node) ? node.getExpression() : node;
+        if (!value) return false;
+        const type = value.getType();
+        return type.isAny() || type.getCallSignatures().length > 0
+            || (type.isUnion() && type.getUnionTypes().some(member => member.getCallSignatures().length > 0));
+    });
+}
+
+// The top-level return statements of a callback body, skipping nested functions
+function getOwnReturns(fn: ComplexityNode): Node[] {
+    const body = fn.getBody();
+    if (!body) {
+        return [];
+    }
+    if (!Node.isBlock(body)) {
+        return [body];
+    }
+    const returns: Node[] = [];
+    body.forEachDescendant((node, traversal) => {
+        if (isCallable(node)) traversal.skip();
+        else if (node.getKind() === SyntaxKind.ReturnStatement) returns.push(node);
+    });
+    return returns;
+}
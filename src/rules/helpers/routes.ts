@@ -0,0 +1,80 @@
+import { Node, SourceFile, SyntaxKind } from 'ts-morph';
+import { ComplexityNode } from '../../analyzer/metrics/complexity.js';
+import { resolveFunction } from './callGraph.js';
+
+const HTTP_METHODS = new Set(['get', 'post', 'put', 'patch', 'delete', 'head', 'options', 'all']);
+
+export interface RouteHandler {
+    // e.g. "GET /users/:id"
+    route: string;
+    handler: ComplexityNode;
+}
+
+// Handlers registered with Express or Fastify style routing in the file:
+// - app.get('/users', auth, handler) and router.post(...), for every HTTP method
+// - router.route('/users').get(handler)
+// - fastify.route({ method: 'GET', url: '/users', handler })
+// Only calls whose path starts with "/" or "*" count, so map.get('key') is not a route.
+export function findRouteHandlers(sourceFile: SourceFile): RouteHandler[] {
+    const routes: RouteHandler[] = [];
+
+    for (const call of sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+        const callee = call.getExpression();
+        if (!Node.isPropertyAccessExpression(callee)) continue;
+
+        const method = callee.getName();
+        const args = call.getArguments();
+
+        if (HTTP_METHODS.has(method)) {
+            // router.route('/users').get(handler) has its path on the receiver
+            const routePath = getRoutePath(callee.getExpression());
+            const path = routePath ?? getPath(args[0]);
+            if (path === undefined) continue;
+
+            const handlers = (routePath !== undefined ? args : args.slice(1))
+                .flatMap(arg => Node.isArrayLiteralExpression(arg) ? arg.getElements() : [arg]);
+            for (const handler of handlers) {
+                const resolved = resolveFunction(handler);
+                if (resolved) routes.push({ route: `${method.toUpperCase()} ${path}`, handler: resolved });
+            }
+        } else if (method === 'route' && Node.isObjectLiteralExpression(args[0])) {
+            const options = args[0];
+            const path = getPath(getPropertyValue(options, 'url') ?? getPropertyValue(options, 'path'));
+            const handler = getPropertyValue(options, 'handler');
+            const resolved = handler && resolveFunction(handler);
+            if (path === undefined || !resolved) continue;
+
+            const methodValue = getPropertyValue(options, 'method');
+            const httpMethod = Node.isStringLiteral(methodValue) ? methodValue.getLiteralValue().toUpperCase() : 'ROUTE';
+            routes.push({ route: `${httpMethod} ${path}`, handler: resolved });
+        }
+    }
+
+    return routes;
+}
+
+// The path of router.route('/users'), when the receiver is such a call
+function getRoutePath(receiver: Node): string | undefined {
+    if (!Node.isCallExpression(receiver)) return undefined;
+    const callee = receiver.getExpression();
+    return Node.isPropertyAccessExpression(callee) && callee.getName() === 'route'
+        ? getPath(receiver.getArguments()[0])
+        : undefined;
+}
+
+function getPath(node: Node | undefined): string | undefined {
+    if (!Node.isStringLiteral(node) && !Node.isNoSubstitutionTemplateLiteral(node)) {
+        return undefined;
+    }
+    const path = node.getLiteralValue();
+    return path.startsWith('/') || path.startsWith('*') ? path : undefined;
+}
+
+// The value of `name: value` or the shorthand `{ name }` in an object literal
+function getPropertyValue(object: Node, name: string): Node | undefined {
+    if (!Node.isObjectLiteralExpression(object)) return undefined;
+    const property = object.getProperty(name);
+    if (Node.isPropertyAssignment(property)) return property.getInitializer();
+    if (Node.isShorthandPropertyAssignment(property)) return property.getNameNode();
+    return Node.isMethodDeclaration(property) ? property : undefined;
+}
@@ -0,0 +1,44 @@
+import { Node, Type } from 'ts-morph';
+
+// Whether the node's type is a promise or another thenable, as far as the
+// type checker knows. any and unknown are not confirmed, so callers stay
+// quiet on untyped code instead of guessing.
+export function isPromiseLike(node: Node): boolean {
+    return isThenable(node.getType(), node);
+}
+
+// Whether calling a function of this type returns a promise, e.g. an async
+// callback or a reference to an async function
+export function returnsPromise(node: Node): boolean {
+    return node.getType().getCallSignatures().some(signature => isThenable(signature.getReturnType(), node));
+}
+
+function isThenable(type: Type, node: Node): boolean {
+    if (type.isAny() || type.isUnknown()) {
+        return false;
+    }
+    if (type.isUnion()) {
+        return type.getUnionTypes().some(member => isThenable(member, node));
+    }
+
+    const then = type.getApparentType().getProperty('then');
+    return then !== undefined && then.getTypeAtLocation(node).getCallSignatures().length > 0;
+}
+
+// Arrays, readonly arrays and tuples
+export function isArrayLike(node: Node): boolean {
+    const type = node.getType();
+    return type.isArray() || type.isReadonlyArray() || type.isTuple();
+}
+
+export function isStringLike(node: Node): boolean {
+    const type = node.getType();
+    return type.isString() || type.isStringLiteral() || type.isTemplateLiteral();
+}
+
+// Whether the identifier refers to a built-in such as JSON or RegExp rather
+// than a local variable of the same name
+export function isBuiltin(identifier: Node): boolean {
+    const declarations = identifier.getSymbol()?.getDeclarations() ?? [];
+    return declarations.length > 0 && declarations.every(declaration => declaration.getSourceFile().isDeclarationFile());
+}
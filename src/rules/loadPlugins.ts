@@ -0,0 +1,43 @@
+import path from 'path';
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import { ConfigError, ResolvedConfig } from '../config/loader.js';
+import { builtinRules } from './builtin.js';
+import { ConfiguredRule, RuleRegistry } from './RuleRegistry.js';
+import { TsaPlugin } from './types.js';
+
+// Imports a plugin by package name or by path relative to the config file.
+// Package names are resolved from the config directory so that plugins
+// installed in the analyzed project are found, not ones next to tsa.
+export async function loadPlugin(specifier: string, rootDir: string): Promise<TsaPlugin> {
+    let resolved: string;
+    try {
+        resolved = specifier.startsWith('.') || path.isAbsolute(specifier)
+            ? path.resolve(rootDir, specifier)
+            : createRequire(path.join(rootDir, 'package.json')).resolve(specifier);
+    } catch (error) {
+        throw new Error(`Cannot find plugin "${specifier}" from ${rootDir}`);
+    }
+
+    const module = await import(pathToFileURL(resolved).href);
+    return (module.default?.rules ? module.default : module) as TsaPlugin;
+}
+
+// Builds the rule set for a run: built-in rules, plus rules from every
+// configured plugin, resolved against the "rules" section of the config
+export async function loadRules(config: ResolvedConfig): Promise<ConfiguredRule[]> {
+    const registry = new RuleRegistry(builtinRules);
+
+    for (const specifier of config.plugins) {
+        try {
+            registry.registerPlugin(await loadPlugin(specifier, config.rootDir), specifier);
+        } catch (error) {
+            throw new ConfigError(
+                `Failed to load plugin "${specifier}": ${error instanceof Error ? error.message : error}`,
+                config.configPath
+            );
+        }
+    }
+
+    return registry.configure(config.rules, config.configPath);
+}
@@ -0,0 +1,12 @@
+import { defineRule } from '../types.js';
+
+// Replaced by the type-aware memory and React rules; remove in the next release
+export const closureLeakRule = defineRule({
+    meta: {
+        id: 'memory/closure-leak',
+        category: 'memory',
+        description: 'Removed; reports nothing',
+        defaultSeverity: 'low',
+        deprecated: 'the type-aware memory/ and react/ rules cover the leaks it was meant to find'
+    }
+});
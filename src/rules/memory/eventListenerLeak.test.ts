@@ -0,0 +1,62 @@
+import { CodeAnalyzer, collectIssues } from '../../analyzer/CodeAnalyzer.js';
+
+async function findLeaks(text: string) {
+    const result = await new CodeAnalyzer().analyzeSources(
+        { 'src/widget.ts': text },
+        { compilerOptions: { lib: ['lib.es2022.d.ts', 'lib.dom.d.ts'] } }
+    );
+    return collectIssues(result)
+        .filter(issue => issue.ruleId === 'memory/event-listener-leak')
+        .map(({ startLine, severity }) => ({ startLine, severity }));
+}
+
+describe('memory/event-listener-leak', () => {
+    it('pairs additions with removals by target, event and handler', async () => {
+        expect(await findLeaks([
+            'export class Widget {',
+            '    onResize = () => {};',
+            '    connectedCallback() {',
+            "        window.addEventListener('resize', this.onResize);",
+            "        window.addEventListener('scroll', this.onResize);",
+            "        document.addEventListener('click', () => {}, { once: true });",
+            '    }',
+            '    disconnectedCallback() {',
+            "        window.removeEventListener('resize', this.onResize);",
+            '    }',
+            '}',
+            ''
+        ].join('\n'))).toEqual([{ startLine: 5, severity: 'medium' }]);
+    });
+
+    it('reports handlers created with bind(), which can never be removed', async () => {
+        expect(await findLeaks([
+            'export class Widget {',
+            "    start() { window.addEventListener('keydown', this.onKey.bind(this)); }",
+            "    stop() { window.removeEventListener('keydown', this.onKey.bind(this)); }",
+            '    onKey() {}',
+            '}',
+            ''
+        ].join('\n'))).toEqual([{ startLine: 2, severity: 'high' }]);
+    });
+
+    it('pairs on() with off() on emitter-like receivers only', async () => {
+        expect(await findLeaks([
+            'declare class Emitter {',
+            '    on(event: string, handler: () => void): void;',
+            '    off(event: string, handler: () => void): void;',
+            '}',
+            'const jq = { on(event: string, handler: () => void) {} };',
+            'export class Feed {',
+            '    private emitter = new Emitter();',
+            '    start() {',
+            "        this.emitter.on('data', this.onData);",
+            "        this.emitter.on('end', this.onData);",
+            "        jq.on('click', this.onData);",
+            '    }',
+            "    dispose() { this.emitter.off('data', this.onData); }",
+            '    onData() {}',
+            '}',
+            ''
+        ].join('\n'))).toEqual([{ startLine: 10, severity: 'medium' }]);
+    });
+});
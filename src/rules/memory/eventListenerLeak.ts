@@ -0,0 +1,159 @@
+import { CallExpression, Node, SyntaxKind } from 'ts-morph';
+import {
+    describeLeakCost, describeOwner, getLeakSeverity, getLifecycleScope, getOwnerLifetime, isCreatedInScope, normalizeReference
+} from '../helpers/lifecycle.js';
+import { findRouteHandlers } from '../helpers/routes.js';
+import { defineRule } from '../types.js';
+
+// DOM EventTarget and Node EventEmitter methods that add a listener, and the
+// ones that remove it again. once() and prependOnceListener() remove themselves.
+const ADD_METHODS = new Set(['addEventListener', 'on', 'addListener', 'prependListener']);
+const REMOVE_METHODS = new Set(['removeEventListener', 'off', 'removeListener', 'removeAllListeners']);
+
+interface Listener {
+    // Receiver as written, e.g. "window" or "this.socket"; empty for a bare addEventListener()
+    target: string;
+    event: string;
+    handler: Node;
+}
+
+function getListener(call: CallExpression, methods: Set<string>): Listener | undefined {
+    const callee = call.getExpression();
+    const method = Node.isPropertyAccessExpression(callee) ? callee.getName() : callee.getText();
+    if (!methods.has(method)) {
+        return undefined;
+    }
+    if (!method.endsWith('EventListener') && !isEventEmitter(callee)) {
+        return undefined;
+    }
+
+    const [event, handler] = call.getArguments();
+    return {
+        target: Node.isPropertyAccessExpression(callee) ? normalizeReference(callee.getExpression().getText()) : '',
+        event: Node.isStringLiteral(event) || Node.isNoSubstitutionTemplateLiteral(event) ? event.getLiteralValue() : event?.getText() ?? '',
+        handler
+    };
+}
+
+// on/off are common names, so only receivers that also have a removeListener
+// or off method count, such as EventEmitter, streams, sockets and process
+function isEventEmitter(callee: Node): boolean {
+    if (!Node.isPropertyAccessExpression(callee)) {
+        return false;
+    }
+    const type = callee.getExpression().getType();
+    return type.getProperty('removeListener') !== undefined || type.getProperty('off') !== undefined;
+}
+
+// { once: true } and { signal } remove the listener without a matching call.
+// Options in a variable may contain either, so they are trusted too.
+function removesItself(call: CallExpression): boolean {
+    const options = call.getArguments()[2];
+    if (!options || Node.isTrueLiteral(options) || Node.isFalseLiteral(options)) {
+        return false;
+    }
+    if (!Node.isObjectLiteralExpression(options)) {
+        return true;
+    }
+    return options.getProperties().some(property => {
+        if (Node.isShorthandPropertyAssignment(property)) return property.getName() === 'signal';
+        if (!Node.isPropertyAssignment(property)) return Node.isSpreadAssignment(property);
+        const name = property.getName();
+        return name === 'signal' || (name === 'once' && !Node.isFalseLiteral(property.getInitializer()));
+    });
+}
+
+// Libraries whose on() returns an unsubscribe function or a disposable
+// leave cleanup to whoever keeps the result
+function keepsResult(call: CallExpression): boolean {
+    const parent = call.getParent();
+    return Node.isVariableDeclaration(parent) || Node.isReturnStatement(parent) || Node.isArrowFunction(parent)
+        || Node.isPropertyAssignment(parent) || (Node.isBinaryExpression(parent) && parent.getRight() === call);
+}
+
+// A handler that is created in the call can never be passed to the remove call
+function getUnremovableReason(handler: Node): string | undefined {
+    if (Node.isArrowFunction(handler) || Node.isFunctionExpression(handler)) {
+        return 'is an inline function';
+    }
+    if (Node.isCallExpression(handler)) {
+        const callee = handler.getExpression();
+        if (Node.isPropertyAccessExpression(callee) && callee.getName() === 'bind') {
+            return 'is created with bind(), which returns a new function on every call';
+        }
+    }
+    return undefined;
+}
+
+export const eventListenerLeakRule = defineRule({
+    meta: {
+        id: 'memory/event-listener-leak',
+        category: 'memory',
+        description: 'Flags addEventListener and EventEmitter on calls without a matching removal in the same class or component',
+        defaultSeverity: 'medium'
+    },
+    createVisitor(context) {
+        const removalsByScope = new Map<Node, Listener[]>();
+        const getRemovals = (scope: Node) => {
+            let removals = removalsByScope.get(scope);
+            if (!removals) {
+                removals = scope.getDescendantsOfKind(SyntaxKind.CallExpression)
+                    .map(call => getListener(call, REMOVE_METHODS))
+                    .filter((listener): listener is Listener => listener !== undefined);
+                removalsByScope.set(scope, removals);
+            }
+            return removals;
+        };
+
+        const routes = new Map<Node, string>(findRouteHandlers(context.sourceFile).map(({ handler, route }) => [handler, route]));
+
+        return {
+            [SyntaxKind.CallExpression]: node => {
+                const listener = getListener(node, ADD_METHODS);
+                // Listeners added at module level are registered once, for the lifetime of the process
+                const scope = listener && getLifecycleScope(node);
+                if (!listener || !listener.handler || !scope || removesItself(node) || keepsResult(node)) {
+                    return;
+                }
+                const callee = node.getExpression();
+                if (Node.isPropertyAccessExpression(callee) && isCreatedInScope(callee.getExpression(), scope)) {
+                    return;
+                }
+
+                const unremovable = getUnremovableReason(listener.handler);
+                const handler = normalizeReference(listener.handler.getText());
+                const removed = getRemovals(scope).some(removal =>
+                    removal.target === listener.target
+                    && (removal.event === '' || removal.event === listener.event)
+                    // removeAllListeners() and removeAllListeners(event) take no handler
+                    && (!removal.handler || (!unremovable && normalizeReference(removal.handler.getText()) === handler)));
+                if (removed) {
+                    return;
+                }
+
+                const description = `"${listener.event}" listener on ${listener.target || 'the global object'}`;
+                const lifetime = getOwnerLifetime(node, routes);
+                if (unremovable) {
+                    context.report({
+                        node,
+                        severity: 'high',
+                        message: `The handler of the ${description} ${unremovable}, so it can never be removed${describeLeakCost(lifetime)}`,
+                        suggestion: 'Store the handler in a variable or class field and remove that same function on cleanup, ' +
+                            'or pass { signal } from an AbortController and abort it',
+                        code: node.getText().split('\n')[0]
+                    });
+                    return;
+                }
+
+                context.report({
+                    node,
+                    severity: getLeakSeverity(lifetime),
+                    message: `The ${description} is never removed in ${describeOwner(node, scope, routes)}${describeLeakCost(lifetime)}`,
+                    suggestion: `Remove ${listener.handler.getText()} on cleanup (componentWillUnmount, ngOnDestroy, ` +
+                        'disconnectedCallback or the effect cleanup), or pass { once: true } or an AbortController signal',
+                    code: node.getText().split('\n')[0]
+                });
+            }
+        };
+    }
+});
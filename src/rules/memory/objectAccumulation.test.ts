@@ -0,0 +1,65 @@
+import { CodeAnalyzer, collectIssues } from '../../analyzer/CodeAnalyzer.js';
+
+async function findGrowth(files: Record<string, string[]>) {
+    const sources = Object.fromEntries(Object.entries(files).map(([file, lines]) => [file, lines.join('\n') + '\n']));
+    const result = await new CodeAnalyzer().analyzeSources(sources);
+    return collectIssues(result)
+        .filter(issue => issue.ruleId === 'memory/object-accumulation')
+        .map(({ file, startLine, severity, suggestion }) => ({ file: file.replace(/^.*\/src\//, 'src/'), startLine, severity, suggestion }));
+}
+
+describe('memory/object-accumulation', () => {
+    it('reports module-level collections that only grow, higher on request paths', async () => {
+        const issues = await findGrowth({
+            'src/sessions.ts': [
+                'declare const app: { post(path: string, handler: (req: { id: string }) => void): void };',
+                'const sessions = new Map<string, number>();',
+                'const seen = new Set<object>();',
+                'const recent: string[] = [];',
+                "app.post('/login', req => { sessions.set(req.id, Date.now()); });",
+                'export function track(value: object) { seen.add(value); }',
+                'export function remember(id: string) {',
+                '    recent.push(id);',
+                '    if (recent.length > 100) recent.shift();',
+                '}'
+            ]
+        });
+        expect(issues.map(({ startLine, severity }) => ({ startLine, severity }))).toEqual([
+            { startLine: 2, severity: 'high' },
+            { startLine: 3, severity: 'medium' }
+        ]);
+        expect(issues[1].suggestion).toMatch(/WeakSet/);
+    });
+
+    it('only reports instance fields of singletons', async () => {
+        expect(await findGrowth({
+            'src/registry.ts': [
+                'export class Registry {',
+                '    private entries: string[] = [];',
+                '    add(entry: string) { this.entries.push(entry); }',
+                '}',
+                'export class Request {',
+                '    private headers: Record<string, string> = {};',
+                '    set(name: string, value: string) { this.headers[name] = value; }',
+                '}',
+                'export function handle() { return new Request(); }'
+            ],
+            'src/main.ts': [
+                "import { Registry } from './registry.js';",
+                'export const registry = new Registry();'
+            ]
+        })).toEqual([{ file: 'src/registry.ts', startLine: 2, severity: 'medium', suggestion: expect.any(String) }]);
+    });
+
+    it('recognizes singletons by a static instance field', async () => {
+        expect(await findGrowth({
+            'src/cache.ts': [
+                'export class Cache {',
+                '    static instance?: Cache;',
+                '    private values = new Map<string, string>();',
+                '    put(key: string, value: string) { this.values.set(key, value); }',
+                '}'
+            ]
+        })).toEqual([{ file: 'src/cache.ts', startLine: 3, severity: 'medium', suggestion: expect.any(String) }]);
+    });
+});
@@ -0,0 +1,238 @@
+import { ClassDeclaration, Identifier, Node, Project, SyntaxKind, ts, Type } from 'ts-morph';
+import { getCallableName, isCallable } from '../../analyzer/metrics/complexity.js';
+import { findRouteHandlers } from '../helpers/routes.js';
+import { defineRule } from '../types.js';
+
+type CollectionKind = 'Map' | 'Set' | 'array' | 'object';
+
+// A collection that lives as long as the process
+interface Collection {
+    name: Identifier;
+    kind: CollectionKind;
+    // e.g. "module-level Map sessions" or "static field RateLimiter.hits"
+    label: string;
+    // Class of an instance field, which only lives as long as the process
+    // when the class is a singleton
+    instanceOf?: ClassDeclaration;
+}
+
+const WRITE_METHODS: Record<CollectionKind, string[]> = {
+    Map: ['set'],
+    Set: ['add'],
+    array: ['push', 'unshift'],
+    object: []
+};
+// Any of these means entries can go away again
+const SHRINK_METHODS = ['delete', 'clear', 'pop', 'shift', 'splice'];
+const COMPARISON_OPERATORS = new Set([
+    SyntaxKind.LessThanToken, SyntaxKind.LessThanEqualsToken, SyntaxKind.GreaterThanToken, SyntaxKind.GreaterThanEqualsToken,
+    SyntaxKind.EqualsEqualsEqualsToken, SyntaxKind.ExclamationEqualsEqualsToken, SyntaxKind.EqualsEqualsToken, SyntaxKind.ExclamationEqualsToken
+]);
+
+function getCollectionKind(initializer: Node | undefined): CollectionKind | undefined {
+    if (Node.isNewExpression(initializer)) {
+        const name = initializer.getExpression().getText();
+        return name === 'Map' || name === 'Set' ? name : undefined;
+    }
+    if (Node.isArrayLiteralExpression(initializer)) return 'array';
+    // Only empty objects are used as dictionaries; others are configuration
+    if (Node.isObjectLiteralExpression(initializer) && initializer.getProperties().length === 0) return 'object';
+    return undefined;
+}
+
+// Module-level variables, static fields, and instance fields. Whether the
+// class of an instance field is a singleton is checked later, and only for
+// fields that grow without bound, since finding out may search the project.
+function findCollections(project: Project): Collection[] {
+    const collections: Collection[] = [];
+    for (const sourceFile of project.getSourceFiles()) {
+        if (sourceFile.isDeclarationFile() || sourceFile.isInNodeModules()) continue;
+
+        for (const statement of sourceFile.getVariableStatements()) {
+            for (const declaration of statement.getDeclarations()) {
+                const kind = getCollectionKind(declaration.getInitializer());
+                const name = declaration.getNameNode();
+                if (kind && Node.isIdentifier(name)) {
+                    collections.push({ name, kind, label: `module-level ${kind} ${name.getText()}` });
+                }
+            }
+        }
+
+        for (const cls of sourceFile.getClasses()) {
+            for (const property of cls.getProperties()) {
+                const kind = getCollectionKind(property.getInitializer());
+                const name = property.getNameNode();
+                if (!kind || !Node.isIdentifier(name)) continue;
+                collections.push(property.isStatic()
+                    ? { name, kind, label: `static ${kind} ${cls.getName() ?? 'class'}.${name.getText()}` }
+                    : { name, kind, label: `${kind} ${name.getText()} of singleton ${cls.getName() ?? 'class'}`, instanceOf: cls });
+            }
+        }
+    }
+    return collections;
+}
+
+// Classes provided in root, holding a static instance of themselves, or
+// instantiated at module level. The cheap checks come first; the search for
+// a module-level "new" looks in the class's own file before the project.
+function isSingleton(cls: ClassDeclaration): boolean {
+    const providedInRoot = cls.getDecorators().some(decorator =>
+        decorator.getName() === 'Injectable' && /providedIn\s*:\s*['"]root['"]/.test(decorator.getText()));
+    if (providedInRoot) {
+        return true;
+    }
+    if (cls.getStaticProperties().some(property => property.getType().getNonNullableType().getSymbol() === cls.getSymbol())) {
+        return true;
+    }
+
+    const isModuleLevelCreation = (node: Node) => {
+        if (!Node.isNewExpression(node) || node.getFirstAncestor(isCallable) !== undefined) {
+            return false;
+        }
+        // new Registry() in another file refers to the import
+        let symbol = node.getExpression().getSymbol();
+        if (symbol?.isAlias()) symbol = symbol.getAliasedSymbol();
+        return symbol === cls.getSymbol();
+    };
+    const name = cls.getNameNode();
+    return cls.getSourceFile().getDescendantsOfKind(SyntaxKind.NewExpression).some(isModuleLevelCreation)
+        || (name !== undefined && cls.isExported() && name.findReferencesAsNodes().some(reference => {
+            const creation = reference.getParent();
+            return creation !== undefined && isModuleLevelCreation(creation);
+        }));
+}
+
+interface Usage {
+    // Writes made inside functions, which can run any number of times
+    writes: Node[];
+    bounded: boolean;
+    // Key type of the first Map or Set write, to tell object keys from strings
+    keyType?: Type;
+}
+
+function getUsage(collection: Collection): Usage {
+    const usage: Usage = { writes: [], bounded: false };
+
+    for (const reference of collection.name.findReferencesAsNodes()) {
+        // cache for a variable; this.cache or Service.cache for a field
+        const parentOfReference = reference.getParent();
+        const expression = Node.isPropertyAccessExpression(parentOfReference) && parentOfReference.getNameNode() === reference
+            ? parentOfReference
+            : reference;
+        const parent = expression.getParent();
+
+        // cache = new Map() resets it
+        if (Node.isBinaryExpression(parent) && parent.getLeft() === expression
+            && parent.getOperatorToken().getKind() === SyntaxKind.EqualsToken && !isInitializer(parent)) {
+            usage.bounded = true;
+        } else if (Node.isPropertyAccessExpression(parent) && parent.getExpression() === expression) {
+            const member = parent.getName();
+            const call = parent.getParent();
+            if (Node.isCallExpression(call) && call.getExpression() === parent) {
+                if (SHRINK_METHODS.includes(member)) usage.bounded = true;
+                if (WRITE_METHODS[collection.kind].includes(member)) {
+                    addWrite(usage, call);
+                    usage.keyType ??= call.getArguments()[0]?.getType();
+                }
+            } else if ((member === 'size' || member === 'length') && isSizeCheck(parent)) {
+                usage.bounded = true;
+            }
+        } else if (Node.isElementAccessExpression(parent) && parent.getExpression() === expression) {
+            const outer = parent.getParent();
+            if (Node.isDeleteExpression(outer)) {
+                usage.bounded = true;
+            } else if (Node.isBinaryExpression(outer) && outer.getLeft() === parent
+                && outer.getOperatorToken().getKind() === SyntaxKind.EqualsToken) {
+                addWrite(usage, outer);
+            }
+        }
+    }
+    return usage;
+}
+
+function addWrite(usage: Usage, write: Node) {
+    if (write.getFirstAncestor(isCallable)) {
+        usage.writes.push(write);
+    }
+}
+
+// this.cache = new Map() in a constructor sets it up rather than resetting it
+function isInitializer(assignment: Node): boolean {
+    return assignment.getFirstAncestor(isCallable)?.getKind() === SyntaxKind.Constructor;
+}
+
+// cache.size > MAX, items.length >= limit, or items.length = 0
+function isSizeCheck(access: Node): boolean {
+    const parent = access.getParent();
+    if (!Node.isBinaryExpression(parent)) {
+        return false;
+    }
+    const operator = parent.getOperatorToken().getKind();
+    return COMPARISON_OPERATORS.has(operator) || (operator === SyntaxKind.EqualsToken && parent.getLeft() === access);
+}
+
+function hasObjectKeys(collection: Collection, usage: Usage): boolean {
+    if (collection.kind !== 'Map' && collection.kind !== 'Set') {
+        return false;
+    }
+    const type = usage.keyType;
+    // Object types and the object keyword, but not arrays used as tuple keys
+    return type !== undefined && !type.isArray()
+        && (type.isObject() || (type.getFlags() & ts.TypeFlags.NonPrimitive) !== 0);
+}
+
+export const objectAccumulationRule = defineRule({
+    meta: {
+        id: 'memory/object-accumulation',
+        category: 'memory',
+        description: 'Flags module-level, static and singleton collections that are written to but never shrink',
+        defaultSeverity: 'medium'
+    },
+    checkProject(context) {
+        const routes = new Map<Node, string>();
+        for (const sourceFile of context.project.getSourceFiles()) {
+            if (sourceFile.isDeclarationFile() || sourceFile.isInNodeModules()) continue;
+            for (const { handler, route } of findRouteHandlers(sourceFile)) {
+                routes.set(handler, route);
+            }
+        }
+
+        const singletons = new Map<ClassDeclaration, boolean>();
+        const isCachedSingleton = (cls: ClassDeclaration) => {
+            if (!singletons.has(cls)) {
+                singletons.set(cls, isSingleton(cls));
+            }
+            return singletons.get(cls)!;
+        };
+
+        for (const collection of findCollections(context.project)) {
+            const usage = getUsage(collection);
+            if (usage.bounded || usage.writes.length === 0) {
+                continue;
+            }
+            if (collection.instanceOf && !isCachedSingleton(collection.instanceOf)) {
+                continue;
+            }
+
+            // Prefer a write on a request path, which grows with traffic
+            const routeWrite = usage.writes
+                .map(write => ({ write, handler: write.getAncestors().find(ancestor => routes.has(ancestor)) }))
+                .find(({ handler }) => handler !== undefined);
+            const write = routeWrite?.write ?? usage.writes[0];
+            const writer = write.getFirstAncestor(isCallable);
+            const where = routeWrite
+                ? `on every request to ${routes.get(routeWrite.handler!)}`
+                : `in ${writer ? getCallableName(writer) : 'a function'}`;
+
+            context.report({
+                node: collection.name,
+                severity: routeWrite ? 'high' : 'medium',
+                message: `The ${collection.label} grows ${where} but is never deleted from, cleared or size-checked`,
+                suggestion: hasObjectKeys(collection, usage)
+                    ? `Use a Weak${collection.kind} so entries go away with their keys`
+                    : 'Bound it: delete entries once they are done, cap its size with an LRU cache, or expire entries after a TTL',
+                code: write.getText().split('\n')[0]
+            });
+        }
+    }
+});
@@ -0,0 +1,75 @@
+import { CodeAnalyzer, collectIssues } from '../../analyzer/CodeAnalyzer.js';
+
+const declarations = [
+    'interface Unsubscribable { unsubscribe(): void; }',
+    'interface Observable<T> {',
+    '    subscribe(next?: (value: T) => void): Unsubscribable;',
+    '    pipe(...operators: unknown[]): Observable<T>;',
+    '}',
+    'interface Store { subscribe(listener: () => void): () => void; getState(): object; }',
+    'declare function take(count: number): unknown;',
+    'declare const ticks: Observable<number>;',
+    'declare const store: Store;'
+];
+
+async function findLeaks(lines: string[]) {
+    const result = await new CodeAnalyzer().analyzeSources({ 'src/profile.ts': [...declarations, ...lines].join('\n') + '\n' });
+    return collectIssues(result)
+        .filter(issue => issue.ruleId === 'memory/subscription-leak')
+        .map(({ startLine, severity }) => ({ startLine: startLine - declarations.length, severity }));
+}
+
+describe('memory/subscription-leak', () => {
+    it('requires component subscriptions to be released on teardown', async () => {
+        expect(await findLeaks([
+            'export class ProfileComponent {',
+            '    private sub?: Unsubscribable;',
+            '    private unsubscribeStore?: () => void;',
+            '    ngOnInit() {',
+            '        this.sub = ticks.subscribe();',
+            '        this.unsubscribeStore = store.subscribe(() => {});',
+            '        ticks.pipe(take(1)).subscribe();',
+            '        ticks.subscribe(n => console.log(n));',
+            '    }',
+            '    ngOnDestroy() {',
+            '        this.sub?.unsubscribe();',
+            '        this.unsubscribeStore!();',
+            '    }',
+            '}'
+        ])).toEqual([{ startLine: 8, severity: 'medium' }]);
+    });
+
+    it('grades severity by how long the owner lives', async () => {
+        expect(await findLeaks([
+            'declare function Component(options: object): ClassDecorator;',
+            'declare function Injectable(options: object): ClassDecorator;',
+            'declare const app: { get(path: string, handler: (req: unknown, res: unknown) => void): void };',
+            "@Injectable({ providedIn: 'root' })",
+            'export class ClockService {',
+            '    constructor() { ticks.subscribe(); }',
+            '}',
+            "@Component({ selector: 'app-clock' })",
+            'export class ClockComponent {',
+            '    ngOnInit() { ticks.subscribe(); }',
+            '}',
+            "app.get('/events', (req, res) => {",
+            '    ticks.subscribe();',
+            '});',
+            '// Made once, for the lifetime of the process',
+            'ticks.subscribe();'
+        ])).toEqual([
+            { startLine: 6, severity: 'low' },
+            { startLine: 10, severity: 'high' },
+            { startLine: 13, severity: 'high' }
+        ]);
+    });
+
+    it('ignores receivers that are not observables or stores', async () => {
+        expect(await findLeaks([
+            'const topic = { subscribe(listener: () => void) {} };',
+            'export function listen() {',
+            '    topic.subscribe(() => {});',
+            '}'
+        ])).toEqual([]);
+    });
+});
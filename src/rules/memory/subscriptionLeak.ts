@@ -0,0 +1,141 @@
+import { CallExpression, Node, SyntaxKind, Type } from 'ts-morph';
+import { formatCallChain } from '../helpers/callChain.js';
+import {
+    describeLeakCost, describeOwner, getLeakSeverity, getLifecycleScope, getOwnerLifetime, isInTeardown, normalizeReference
+} from '../helpers/lifecycle.js';
+import { findRouteHandlers } from '../helpers/routes.js';
+import { defineRule } from '../types.js';
+
+// RxJS operators after which the observable completes by itself
+const COMPLETING_OPERATORS = new Set(['takeUntil', 'takeUntilDestroyed', 'take', 'first', 'takeWhile', 'single']);
+// Sources that complete after one value, such as Angular's HttpClient
+const COMPLETING_SOURCES = new Set(['HttpClient']);
+
+type SourceKind = 'observable' | 'store';
+
+// Observables (RxJS, Angular EventEmitter) have subscribe and pipe; Redux and
+// Zustand stores have subscribe and getState. Untyped receivers are skipped.
+function getSourceKind(type: Type): SourceKind | undefined {
+    if (type.isAny() || type.isUnknown()) return undefined;
+    const has = (name: string) => type.getProperty(name) !== undefined || type.getApparentType().getProperty(name) !== undefined;
+    if (!has('subscribe')) return undefined;
+    if (has('pipe')) return 'observable';
+    return has('getState') ? 'store' : undefined;
+}
+
+// Whether the observable chain completes by itself: source.pipe(take(1)).subscribe()
+function completesItself(receiver: Node): boolean {
+    let node: Node = receiver;
+    while (Node.isCallExpression(node)) {
+        const callee = node.getExpression();
+        if (!Node.isPropertyAccessExpression(callee)) break;
+        if (callee.getName() === 'pipe' && node.getArguments().some(operator =>
+            Node.isCallExpression(operator) && COMPLETING_OPERATORS.has(operator.getExpression().getText()))) {
+            return true;
+        }
+        node = callee.getExpression();
+    }
+    // this.http in this.http.get(url)
+    const typeName = node.getType().getSymbol()?.getName();
+    return node !== receiver && typeName !== undefined && COMPLETING_SOURCES.has(typeName);
+}
+
+type Handle =
+    // Stored in a variable or field, or added to a Subscription or array held there
+    | { kind: 'stored'; reference: string }
+    | { kind: 'escaped' }
+    | { kind: 'discarded' };
+
+function getHandle(call: CallExpression): Handle {
+    const parent = call.getParent();
+    if (Node.isVariableDeclaration(parent)) {
+        return { kind: 'stored', reference: parent.getName() };
+    }
+    if (Node.isBinaryExpression(parent) && parent.getOperatorToken().getKind() === SyntaxKind.EqualsToken) {
+        return { kind: 'stored', reference: normalizeReference(parent.getLeft().getText()) };
+    }
+    if (Node.isPropertyDeclaration(parent)) {
+        return { kind: 'stored', reference: `this.${parent.getName()}` };
+    }
+    // this.subscriptions.add(source.subscribe()) or this.subscriptions.push(...)
+    const callee = Node.isCallExpression(parent) ? parent.getExpression() : undefined;
+    if (Node.isPropertyAccessExpression(callee) && ['add', 'push'].includes(callee.getName())) {
+        return { kind: 'stored', reference: normalizeReference(callee.getExpression().getText()) };
+    }
+    return Node.isExpressionStatement(parent) ? { kind: 'discarded' } : { kind: 'escaped' };
+}
+
+// unsubscription.unsubscribe(), unsubscribe() for a store, or
+// subscriptions.forEach(s => s.unsubscribe())
+function releases(call: CallExpression, reference: string): boolean {
+    const callee = normalizeReference(call.getExpression().getText());
+    return callee === reference || callee.startsWith(`${reference}.`)
+        || call.getArguments().some(argument => normalizeReference(argument.getText()) === reference);
+}
+
+export const subscriptionLeakRule = defineRule({
+    meta: {
+        id: 'memory/subscription-leak',
+        category: 'memory',
+        description: 'Flags Observable and store subscriptions that are never unsubscribed by their owner',
+        defaultSeverity: 'medium'
+    },
+    createVisitor(context) {
+        const routes = new Map<Node, string>(findRouteHandlers(context.sourceFile).map(({ handler, route }) => [handler, route]));
+        const callsByScope = new Map<Node, CallExpression[]>();
+        const getCalls = (scope: Node) => {
+            let calls = callsByScope.get(scope);
+            if (!calls) {
+                calls = scope.getDescendantsOfKind(SyntaxKind.CallExpression);
+                callsByScope.set(scope, calls);
+            }
+            return calls;
+        };
+
+        return {
+            [SyntaxKind.CallExpression]: node => {
+                const callee = node.getExpression();
+                if (!Node.isPropertyAccessExpression(callee) || callee.getName() !== 'subscribe') {
+                    return;
+                }
+                const receiver = callee.getExpression();
+                const kind = getSourceKind(receiver.getType());
+                const handle = kind && getHandle(node);
+                if (!kind || !handle || handle.kind === 'escaped' || (kind === 'observable' && completesItself(receiver))) {
+                    return;
+                }
+
+                // Module-level subscriptions are made once, for the lifetime of the process
+                const scope = getLifecycleScope(node);
+                if (!scope) {
+                    return;
+                }
+                let released = false;
+                if (handle.kind === 'stored') {
+                    const releasing = getCalls(scope).filter(call => call !== node && releases(call, handle.reference));
+                    released = releasing.some(call => isInTeardown(call) || node.getArguments().some(argument =>
+                        call.getStart() >= argument.getStart() && call.getEnd() <= argument.getEnd()));
+                }
+                if (released) {
+                    return;
+                }
+
+                const lifetime = getOwnerLifetime(node, routes);
+                const owner = describeOwner(node, scope, routes);
+                const source = formatCallChain(receiver);
+                context.report({
+                    node,
+                    severity: getLeakSeverity(lifetime),
+                    message: (handle.kind === 'stored'
+                        ? `Subscription to ${source} is kept in ${handle.reference} but never released on teardown in ${owner}`
+                        : `Subscription to ${source} in ${owner} is never unsubscribed`) + describeLeakCost(lifetime),
+                    suggestion: kind === 'observable'
+                        ? 'Pipe through takeUntil(destroy$), takeUntilDestroyed() or take(1), use the async pipe, ' +
+                            'or keep the Subscription and unsubscribe in ngOnDestroy or the effect cleanup'
+                        : 'Keep the function returned by subscribe() and call it on teardown',
+                    code: formatCallChain(node)
+                });
+            }
+        };
+    }
+});
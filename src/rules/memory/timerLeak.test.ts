@@ -0,0 +1,47 @@
+import { CodeAnalyzer, collectIssues } from '../../analyzer/CodeAnalyzer.js';
+
+async function findLeaks(lines: string[]) {
+    const result = await new CodeAnalyzer().analyzeSources(
+        { 'src/poller.ts': lines.join('\n') + '\n' },
+        { compilerOptions: { lib: ['lib.es2022.d.ts', 'lib.dom.d.ts'] } }
+    );
+    return collectIssues(result)
+        .filter(issue => issue.ruleId === 'memory/timer-leak')
+        .map(({ startLine, severity }) => ({ startLine, severity }));
+}
+
+describe('memory/timer-leak', () => {
+    it('reports intervals whose handle is discarded', async () => {
+        expect(await findLeaks([
+            "setInterval(() => console.log('tick'), 1000);",
+            "setTimeout(() => console.log('once'), 1000);"
+        ])).toEqual([{ startLine: 1, severity: 'high' }]);
+    });
+
+    it('requires class timers to be cleared on teardown', async () => {
+        expect(await findLeaks([
+            'export class Poller {',
+            '    private timer?: number;',
+            '    private other?: number;',
+            '    start() {',
+            '        this.timer = setInterval(() => this.poll(), 1000);',
+            '        this.other = setInterval(() => this.poll(), 1000);',
+            '    }',
+            '    pause() { clearInterval(this.other); }',
+            '    poll() {}',
+            '    dispose() { clearInterval(this.timer!); }',
+            '}'
+        ])).toEqual([{ startLine: 6, severity: 'low' }]);
+    });
+
+    it('matches local handles by declaration, not by name', async () => {
+        expect(await findLeaks([
+            'export function track(value: number) {',
+            '    {',
+            '        const id = setInterval(() => console.log(value), 1000);',
+            '    }',
+            '    const id = setInterval(() => { if (value) clearInterval(id); }, 1000);',
+            '}'
+        ])).toEqual([{ startLine: 3, severity: 'medium' }]);
+    });
+});
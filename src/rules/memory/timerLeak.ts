@@ -0,0 +1,162 @@
+import { CallExpression, Node, SyntaxKind } from 'ts-morph';
+import { isCallable } from '../../analyzer/metrics/complexity.js';
+import { getImportSource } from '../helpers/imports.js';
+import { describeScope, getLifecycleScope, isInTeardown, normalizeReference } from '../helpers/lifecycle.js';
+import { defineRule } from '../types.js';
+
+const TIMERS = new Set(['setTimeout', 'setInterval']);
+const CLEARS = new Set(['clearTimeout', 'clearInterval']);
+
+// "setInterval" for setInterval(), window.setInterval() and globalThis.setInterval().
+// timers/promises returns promises, not handles.
+function getTimerName(call: CallExpression, names: Set<string>): string | undefined {
+    const callee = call.getExpression();
+    const name = Node.isPropertyAccessExpression(callee) && ['window', 'globalThis', 'self'].includes(callee.getExpression().getText())
+        ? callee.getName()
+        : callee.getText();
+    if (!names.has(name) || (Node.isIdentifier(callee) && getImportSource(callee) === 'timers/promises')) {
+        return undefined;
+    }
+    return name;
+}
+
+type Handle =
+    // Stored in a variable or property, e.g. "this.timer"; variables are
+    // matched by declaration, since effects often reuse the same name
+    | { kind: 'stored'; reference: string; variable?: Node }
+    // Returned, pushed into a collection or passed on: someone else clears it
+    | { kind: 'escaped' }
+    | { kind: 'discarded' };
+
+function getHandle(call: CallExpression): Handle {
+    // setInterval(...).unref() still returns the handle
+    let node: Node = call;
+    let parent = node.getParent();
+    while (Node.isPropertyAccessExpression(parent) && Node.isCallExpression(parent.getParent())
+        && ['unref', 'ref'].includes(parent.getName())) {
+        node = parent.getParentOrThrow();
+        parent = node.getParent();
+    }
+    while (Node.isAsExpression(parent) || Node.isParenthesizedExpression(parent) || Node.isNonNullExpression(parent)) {
+        node = parent;
+        parent = node.getParent();
+    }
+
+    if (Node.isVariableDeclaration(parent)) {
+        return { kind: 'stored', reference: parent.getName(), variable: parent };
+    }
+    if (Node.isBinaryExpression(parent) && parent.getOperatorToken().getKind() === SyntaxKind.EqualsToken && parent.getRight() === node) {
+        return { kind: 'stored', reference: normalizeReference(parent.getLeft().getText()) };
+    }
+    if (Node.isPropertyDeclaration(parent)) {
+        return { kind: 'stored', reference: `this.${parent.getName()}` };
+    }
+    if (Node.isExpressionStatement(parent) || Node.isVoidExpression(parent)) {
+        return { kind: 'discarded' };
+    }
+    return { kind: 'escaped' };
+}
+
+// Whether the callback keeps anything alive besides itself: this, or
+// parameters and locals of enclosing functions. Module-level state lives
+// as long as the process anyway.
+function capturesState(callback: Node | undefined): boolean {
+    if (!callback) {
+        return false;
+    }
+    if (!isCallable(callback)) {
+        return Node.isPropertyAccessExpression(callback) || isLocal(callback);
+    }
+    if (callback.getDescendantsOfKind(SyntaxKind.ThisKeyword).length > 0 && Node.isArrowFunction(callback)) {
+        return true;
+    }
+    return callback.getDescendantsOfKind(SyntaxKind.Identifier).some(identifier =>
+        isLocal(identifier) && !isWithin(identifier.getSymbol()?.getDeclarations()[0], callback));
+}
+
+function isLocal(identifier: Node): boolean {
+    const declaration = identifier.getSymbol()?.getDeclarations()[0];
+    return declaration !== undefined && !declaration.getSourceFile().isDeclarationFile()
+        && declaration.getFirstAncestor(isCallable) !== undefined;
+}
+
+function isWithin(node: Node | undefined, container: Node): boolean {
+    return node !== undefined && node.getSourceFile() === container.getSourceFile()
+        && node.getStart() >= container.getStart() && node.getEnd() <= container.getEnd();
+}
+
+export const timerLeakRule = defineRule({
+    meta: {
+        id: 'memory/timer-leak',
+        category: 'memory',
+        description: 'Flags setInterval and setTimeout handles that are not cleared when their owner is torn down',
+        defaultSeverity: 'medium'
+    },
+    createVisitor(context) {
+        const clearsByScope = new Map<Node, CallExpression[]>();
+        const getClears = (scope: Node) => {
+            let clears = clearsByScope.get(scope);
+            if (!clears) {
+                clears = scope.getDescendantsOfKind(SyntaxKind.CallExpression).filter(call => getTimerName(call, CLEARS));
+                clearsByScope.set(scope, clears);
+            }
+            return clears;
+        };
+
+        return {
+            [SyntaxKind.CallExpression]: node => {
+                const timer = getTimerName(node, TIMERS);
+                const handle = timer && getHandle(node);
+                if (!timer || !handle || handle.kind === 'escaped') {
+                    return;
+                }
+
+                const interval = timer === 'setInterval';
+                const [callback] = node.getArguments();
+                const scope = getLifecycleScope(node) ?? node.getSourceFile();
+                const where = Node.isSourceFile(scope) ? 'at module level' : `in ${describeScope(scope)}`;
+
+                if (handle.kind === 'discarded') {
+                    // A one-shot timeout that holds no state is gone after it fires
+                    if (!interval && !capturesState(callback)) return;
+                    context.report({
+                        node,
+                        severity: interval ? 'high' : 'low',
+                        message: interval
+                            ? `setInterval handle is discarded ${where}, so the interval can never be stopped`
+                            : `setTimeout handle is discarded ${where}, so the callback and the state it captures cannot be released early`,
+                        suggestion: interval
+                            ? 'Store the handle and pass it to clearInterval in the teardown (dispose, ngOnDestroy, componentWillUnmount or the effect cleanup)'
+                            : 'Store the handle and clear it on teardown if the owner can go away before the timeout fires',
+                        code: node.getText().split('\n')[0]
+                    });
+                    return;
+                }
+
+                const clears = getClears(scope).filter(clear => {
+                    const [argument] = clear.getArguments();
+                    if (!argument || normalizeReference(argument.getText()) !== handle.reference) return false;
+                    return !handle.variable || (argument.getSymbol()?.getDeclarations() ?? []).includes(handle.variable);
+                });
+                // Cleared on teardown, or by the callback itself once it is done
+                if (clears.some(clear => isInTeardown(clear) || (callback && isWithin(clear, callback)))) {
+                    return;
+                }
+                if (!interval && (clears.length > 0 || !capturesState(callback))) {
+                    return;
+                }
+
+                context.report({
+                    node,
+                    severity: interval && clears.length === 0 ? 'medium' : 'low',
+                    message: clears.length > 0
+                        ? `${timer} handle ${handle.reference} is cleared ${where}, but not on teardown`
+                        : `${timer} handle ${handle.reference} is never cleared ${where}`,
+                    suggestion: `Call ${interval ? 'clearInterval' : 'clearTimeout'}(${handle.reference}) in the teardown ` +
+                        '(dispose, ngOnDestroy, componentWillUnmount, the effect cleanup or a process exit handler)',
+                    code: node.getText().split('\n')[0]
+                });
+            }
+        };
+    }
+});
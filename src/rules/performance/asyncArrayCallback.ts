@@ -0,0 +1,86 @@
+import { CallExpression, Node, SyntaxKind } from 'ts-morph';
+import { formatCallChain } from '../helpers/callChain.js';
+import { isArrayLike, returnsPromise } from '../helpers/typeChecks.js';
+import { defineRule } from '../types.js';
+
+// What goes wrong when each array method gets a promise-returning callback
+const PROBLEMS: Record<string, { message: string; suggestion: string }> = {
+    forEach: {
+        message: 'forEach ignores the promises returned by its async callback, so nothing waits for them',
+        suggestion: 'Use for...of with await for sequential work, or await Promise.all(items.map(async ...)) for parallel work'
+    },
+    map: {
+        message: 'The promises returned by map are never awaited',
+        suggestion: 'Wrap the call in await Promise.all(...)'
+    },
+    filter: {
+        message: 'An async predicate returns a promise, which is always truthy',
+        suggestion: 'Resolve the conditions first with Promise.all, then filter on the results'
+    },
+    reduce: {
+        message: 'An async reducer awaits the previous step on every iteration, so the work runs one item at a time',
+        suggestion: 'Run the independent work with Promise.all and reduce the resolved values'
+    },
+    sort: {
+        message: 'An async comparator returns a promise instead of a number',
+        suggestion: 'Resolve the sort keys first with Promise.all, then sort synchronously'
+    }
+};
+
+const METHOD_PROBLEMS: Record<string, keyof typeof PROBLEMS> = {
+    forEach: 'forEach',
+    map: 'map',
+    flatMap: 'map',
+    filter: 'filter',
+    some: 'filter',
+    every: 'filter',
+    find: 'filter',
+    findIndex: 'filter',
+    findLast: 'filter',
+    findLastIndex: 'filter',
+    reduce: 'reduce',
+    reduceRight: 'reduce',
+    sort: 'sort'
+};
+
+// map is fine when its promises are handed on, e.g. to Promise.all or a
+// variable; only a discarded or directly awaited array of promises is lost
+function isResultDiscarded(call: CallExpression): boolean {
+    const parent = call.getParent();
+    return Node.isExpressionStatement(parent) || Node.isAwaitExpression(parent);
+}
+
+export const asyncArrayCallbackRule = defineRule({
+    meta: {
+        id: 'perf/async-array-callback',
+        category: 'performance',
+        description: 'Flags async callbacks passed to array methods that do not wait for promises',
+        defaultSeverity: 'high'
+    },
+    createVisitor(context) {
+        return {
+            [SyntaxKind.CallExpression]: node => {
+                const callee = node.getExpression();
+                if (!Node.isPropertyAccessExpression(callee)) return;
+
+                const method = callee.getName();
+                const problem = Object.prototype.hasOwnProperty.call(METHOD_PROBLEMS, method) ? METHOD_PROBLEMS[method] : undefined;
+                const [callback] = node.getArguments();
+                if (!problem || !callback || !returnsPromise(callback) || !isArrayLike(callee.getExpression())) {
+                    return;
+                }
+                if (problem === 'map' && !isResultDiscarded(node)) {
+                    return;
+                }
+
+                const chain = formatCallChain(node);
+                context.report({
+                    node,
+                    message: `${PROBLEMS[problem].message}: ${chain}`,
+                    suggestion: PROBLEMS[problem].suggestion,
+                    code: chain
+                });
+            }
+        };
+    }
+});
@@ -0,0 +1,53 @@
+import { CodeAnalyzer, collectIssues } from '../../analyzer/CodeAnalyzer.js';
+
+async function findAwaits(body: string[]): Promise<number[]> {
+    const text = [
+        'declare function fetchUser(id: string): Promise<{ id: string }>;',
+        'declare function nextPage(): Promise<string[]>;',
+        'declare const ids: string[];',
+        'declare const stream: AsyncIterable<string>;',
+        'export async function run() {',
+        ...body.map(line => `    ${line}`),
+        '}',
+        ''
+    ].join('\n');
+    const result = await new CodeAnalyzer().analyzeSources({ 'src/run.ts': text });
+    return collectIssues(result)
+        .filter(issue => issue.ruleId === 'perf/await-in-loop')
+        .map(issue => issue.startLine - 5);
+}
+
+describe('perf/await-in-loop', () => {
+    it('flags awaits in for-of, for, while and do-while loops', async () => {
+        expect(await findAwaits([
+            'for (const id of ids) await fetchUser(id);',
+            'for (let i = 0; i < ids.length; i++) await fetchUser(ids[i]);',
+            'let i = 0;',
+            'while (i < ids.length) await fetchUser(ids[i++]);',
+            'do { await fetchUser(ids[i--]); } while (i > 0);'
+        ])).toEqual([1, 2, 4, 5]);
+    });
+
+    it('allows for-await loops and awaits that run once', async () => {
+        expect(await findAwaits([
+            'for await (const id of stream) await fetchUser(id);',
+            'for (const page of await nextPage()) console.log(page);',
+            'for (const id of ids) {',
+            '    if (id === "me") return await fetchUser(id);',
+            '}'
+        ])).toEqual([]);
+    });
+
+    it('leaves array callbacks and nested functions to other rules', async () => {
+        expect(await findAwaits([
+            'await Promise.all(ids.map(async id => await fetchUser(id)));',
+            'for (const id of ids) setTimeout(async () => await fetchUser(id));'
+        ])).toEqual([]);
+    });
+
+    it('ignores awaited values that are not promises', async () => {
+        expect(await findAwaits([
+            'for (const id of ids) await id;'
+        ])).toEqual([]);
+    });
+});
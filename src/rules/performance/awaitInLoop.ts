@@ -0,0 +1,39 @@
+import { Node, SyntaxKind } from 'ts-morph';
+import { formatCallChain } from '../helpers/callChain.js';
+import { describeLoop, findEnclosingLoop } from '../helpers/loops.js';
+import { isPromiseLike } from '../helpers/typeChecks.js';
+import { defineRule } from '../types.js';
+
+export const awaitInLoopRule = defineRule({
+    meta: {
+        id: 'perf/await-in-loop',
+        category: 'performance',
+        description: 'Flags promises awaited one at a time inside loops',
+        defaultSeverity: 'medium'
+    },
+    createVisitor(context) {
+        return {
+            [SyntaxKind.AwaitExpression]: node => {
+                const loop = findEnclosingLoop(node);
+                // Callbacks of array methods run concurrently (see perf/async-array-callback)
+                // and for-await-of loops are sequential on purpose
+                if (!loop || !Node.isStatement(loop) || (Node.isForOfStatement(loop) && loop.isAwaited())) {
+                    return;
+                }
+                // Leaving the loop right after the await is a search, not a batch
+                if (Node.isReturnStatement(node.getParent()) || !isPromiseLike(node.getExpression())) {
+                    return;
+                }
+
+                const chain = `${describeLoop(loop)} › ${formatCallChain(node)}`;
+                context.report({
+                    node,
+                    message: `Promise awaited on every loop iteration: ${chain}`,
+                    suggestion: 'Start all calls first and await them together with Promise.all, ' +
+                        'or use a concurrency-limited pool if order or rate limits matter',
+                    code: chain
+                });
+            }
+        };
+    }
+});
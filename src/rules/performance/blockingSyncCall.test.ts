@@ -0,0 +1,62 @@
+import { CodeAnalyzer, collectIssues } from '../../analyzer/CodeAnalyzer.js';
+import { createDefaultConfig, RuleSetting } from '../../config/loader.js';
+
+const declarations = [
+    "import fs from 'fs';",
+    "import { execSync } from 'child_process';",
+    'declare const app: { get(path: string, handler: (req: unknown, res: { send(body: unknown): void }) => void): void };'
+];
+
+async function findBlockingCalls(lines: string[], setting?: RuleSetting) {
+    const config = createDefaultConfig('/');
+    if (setting) {
+        config.rules = { 'perf/blocking-sync-call': setting };
+    }
+    const result = await new CodeAnalyzer().analyzeSources({ 'src/server.ts': [...declarations, ...lines].join('\n') + '\n' }, { config });
+    return collectIssues(result)
+        .filter(issue => issue.ruleId === 'perf/blocking-sync-call')
+        .map(({ startLine, severity, message }) => ({ startLine: startLine - declarations.length, severity, message }));
+}
+
+describe('perf/blocking-sync-call', () => {
+    it('reports sync calls reachable from a route handler with the call chain', async () => {
+        expect(await findBlockingCalls([
+            "app.get('/config', (req, res) => res.send(loadConfig()));",
+            'function loadConfig() {',
+            "    return fs.readFileSync('config.json', 'utf8');",
+            '}'
+        ])).toEqual([{
+            startLine: 3,
+            severity: 'high',
+            message: 'Synchronous fs.readFileSync() blocks the event loop in route GET /config, called through loadConfig()'
+        }]);
+    });
+
+    it('reports sync calls in async functions with medium severity', async () => {
+        expect(await findBlockingCalls([
+            'export async function build() {',
+            "    execSync('make');",
+            '}'
+        ])).toEqual([expect.objectContaining({ startLine: 2, severity: 'medium' })]);
+    });
+
+    it('ignores sync calls outside request paths and async functions', async () => {
+        expect(await findBlockingCalls([
+            "const settings = fs.readFileSync('settings.json', 'utf8');",
+            'export function readAll(files: string[]) {',
+            "    return files.map(file => fs.readFileSync(file, 'utf8')).concat(settings);",
+            '}'
+        ])).toEqual([]);
+    });
+
+    it('follows calls only up to maxDepth', async () => {
+        const lines = [
+            "app.get('/report', (req, res) => res.send(render()));",
+            'function render() { return format(); }',
+            "function format() { return fs.readFileSync('report.txt', 'utf8'); }"
+        ];
+
+        expect(await findBlockingCalls(lines, ['high', { maxDepth: 2 }])).toHaveLength(1);
+        expect(await findBlockingCalls(lines, ['high', { maxDepth: 1 }])).toEqual([]);
+    });
+});
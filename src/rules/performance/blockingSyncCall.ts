@@ -0,0 +1,184 @@
+import { CallExpression, Node, Project } from 'ts-morph';
+import { ComplexityNode, getCallableName, isCallable } from '../../analyzer/metrics/complexity.js';
+import { formatCallChain } from '../helpers/callChain.js';
+import { resolveFunction } from '../helpers/callGraph.js';
+import { getImportSource } from '../helpers/imports.js';
+import { findRouteHandlers } from '../helpers/routes.js';
+import { defineRule } from '../types.js';
+
+type BlockingSyncCallOptions = {
+    maxDepth: number;
+};
+
+// Node modules whose *Sync functions block the event loop
+const BLOCKING_MODULES = new Set(['fs', 'child_process', 'crypto', 'zlib']);
+
+// A function that runs while requests or other async work wait on the event
+// loop: a route handler, or an async function
+interface EntryPoint {
+    label: string;
+    isRoute: boolean;
+    fn: ComplexityNode;
+}
+
+interface FunctionCalls {
+    blocking: CallExpression[];
+    callees: Array<{ call: CallExpression; target: ComplexityNode }>;
+}
+
+interface BlockingPath {
+    entry: EntryPoint;
+    // Entry label, then each call on the way, ending with the blocking call
+    path: string[];
+    otherEntries: number;
+}
+
+// The module of fs.readFileSync(), readFileSync() or execSync() when it is a blocking Node API
+function getBlockingModule(call: CallExpression): string | undefined {
+    const callee = call.getExpression();
+    const name = Node.isPropertyAccessExpression(callee) ? callee.getName() : callee.getText();
+    const binding = Node.isPropertyAccessExpression(callee) ? callee.getExpression() : callee;
+    if (!name.endsWith('Sync') || !Node.isIdentifier(binding)) {
+        return undefined;
+    }
+
+    const source = getImportSource(binding);
+    return source && BLOCKING_MODULES.has(source) ? source : undefined;
+}
+
+function findEntryPoints(project: Project): EntryPoint[] {
+    const sourceFiles = project.getSourceFiles().filter(file => !file.isDeclarationFile() && !file.isInNodeModules());
+    const routes = sourceFiles.flatMap(findRouteHandlers)
+        .map(({ route, handler }): EntryPoint => ({ label: route, isRoute: true, fn: handler }));
+    const handlers = new Set(routes.map(route => route.fn));
+
+    const asyncFunctions: EntryPoint[] = [];
+    for (const file of sourceFiles) {
+        file.forEachDescendant(node => {
+            if (isCallable(node) && isAsync(node) && !handlers.has(node)) {
+                const name = getCallableName(node);
+                const label = name === 'anonymous function' ? 'async anonymous function' : `async ${name}()`;
+                asyncFunctions.push({ label, isRoute: false, fn: node });
+            }
+        });
+    }
+
+    // Routes first, so a blocking call reachable from both is reported with its route
+    return [...routes, ...asyncFunctions];
+}
+
+function isAsync(fn: ComplexityNode): boolean {
+    return 'isAsync' in fn && fn.isAsync();
+}
+
+// Blocking calls and project functions called from the body. Callbacks
+// inside it count as part of it; nested async functions are entry points
+// of their own.
+function collectCalls(fn: ComplexityNode): FunctionCalls {
+    const calls: FunctionCalls = { blocking: [], callees: [] };
+    fn.getBody()?.forEachDescendant((node, traversal) => {
+        if (isCallable(node) && isAsync(node)) {
+            traversal.skip();
+            return;
+        }
+        if (!Node.isCallExpression(node)) return;
+
+        if (getBlockingModule(node)) {
+            calls.blocking.push(node);
+            return;
+        }
+        const target = resolveFunction(node.getExpression());
+        if (target && target !== fn) {
+            calls.callees.push({ call: node, target });
+        }
+    });
+    return calls;
+}
+
+function getSuggestion(call: CallExpression, module: string): string {
+    const name = formatCallChain(call.getExpression()).replace(/^.*\./, '');
+    const asyncName = name.replace(/Sync$/, '');
+    if (module === 'fs') {
+        // fs/promises has no exists
+        if (asyncName === 'exists') {
+            return 'Use access or stat from fs/promises and await it, or check once at startup';
+        }
+        return `Use ${asyncName} from fs/promises and await it, or read the file once at startup`;
+    }
+    return `Use the asynchronous ${module}.${asyncName}, promisified with util.promisify if needed, ` +
+        'or move the work to a worker thread';
+}
+
+export const blockingSyncCallRule = defineRule<BlockingSyncCallOptions>({
+    meta: {
+        id: 'perf/blocking-sync-call',
+        category: 'performance',
+        description: 'Flags synchronous fs, child_process, crypto and zlib calls reachable from route handlers and async functions',
+        defaultSeverity: 'medium',
+        options: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+                // How many calls deep to follow from a handler into project functions
+                maxDepth: { type: 'integer', minimum: 0, default: 3 }
+            }
+        }
+    },
+    checkProject(context) {
+        const callsByFunction = new Map<ComplexityNode, FunctionCalls>();
+        const getCalls = (fn: ComplexityNode) => {
+            let calls = callsByFunction.get(fn);
+            if (!calls) {
+                calls = collectCalls(fn);
+                callsByFunction.set(fn, calls);
+            }
+            return calls;
+        };
+
+        const found = new Map<CallExpression, BlockingPath>();
+        for (const entry of findEntryPoints(context.project)) {
+            // Breadth first, so each blocking call gets its shortest path from the entry
+            const seenFromEntry = new Set<CallExpression>();
+            const visited = new Set<ComplexityNode>([entry.fn]);
+            let level: Array<{ fn: ComplexityNode; path: string[] }> = [{ fn: entry.fn, path: [entry.label] }];
+
+            for (let depth = 0; depth <= context.options.maxDepth && level.length > 0; depth++) {
+                const next: typeof level = [];
+                for (const { fn, path } of level) {
+                    const calls = getCalls(fn);
+                    for (const call of calls.blocking) {
+                        if (seenFromEntry.has(call)) continue;
+                        seenFromEntry.add(call);
+
+                        const existing = found.get(call);
+                        if (existing) {
+                            existing.otherEntries++;
+                        } else {
+                            found.set(call, { entry, path: [...path, formatCallChain(call)], otherEntries: 0 });
+                        }
+                    }
+                    for (const { call, target } of calls.callees) {
+                        if (visited.has(target)) continue;
+                        visited.add(target);
+                        next.push({ fn: target, path: [...path, formatCallChain(call)] });
+                    }
+                }
+                level = next;
+            }
+        }
+
+        for (const [call, { entry, path, otherEntries }] of found) {
+            const chain = path.join(' › ');
+            const where = entry.isRoute ? `route ${entry.label}` : entry.label;
+            const others = otherEntries > 0 ? ` (and ${otherEntries} other entry point${otherEntries === 1 ? '' : 's'})` : '';
+            context.report({
+                node: call,
+                severity: entry.isRoute ? 'high' : 'medium',
+                message: `Synchronous ${formatCallChain(call)} blocks the event loop in ${where}${others}` +
+                    (path.length > 2 ? `, called through ${path.slice(1, -1).join(' › ')}` : ''),
+                suggestion: getSuggestion(call, getBlockingModule(call)!),
+                code: chain
+            });
+        }
+    }
+});
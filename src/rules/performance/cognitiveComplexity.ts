@@ -0,0 +1,56 @@
+import { SyntaxKind } from 'ts-morph';
+import { calculateCognitiveComplexity } from '../../analyzer/metrics/cognitive.js';
+import {
+    calculateCyclomaticComplexity,
+    ComplexityNode,
+    getCallableName,
+    isComplexityNode
+} from '../../analyzer/metrics/complexity.js';
+import { defineRule } from '../types.js';
+
+type CognitiveComplexityOptions = {
+    threshold: number;
+    highThreshold: number;
+};
+
+export const cognitiveComplexityRule = defineRule<CognitiveComplexityOptions>({
+    meta: {
+        id: 'perf/cognitive-complexity',
+        category: 'performance',
+        description: 'Flags functions whose cognitive complexity exceeds the threshold',
+        defaultSeverity: 'medium',
+        options: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+                threshold: { type: 'integer', minimum: 1, default: 15 },
+                highThreshold: { type: 'integer', minimum: 1, default: 30 }
+            }
+        }
+    },
+    createVisitor(context) {
+        const check = (node: ComplexityNode) => {
+            if (!isComplexityNode(node)) return;
+            const complexity = calculateCognitiveComplexity(node);
+            if (complexity > context.options.threshold) {
+                context.report({
+                    node,
+                    severity: complexity > context.options.highThreshold ? 'high' : 'medium',
+                    message: `High cognitive complexity (${complexity}, cyclomatic ${calculateCyclomaticComplexity(node)})`,
+                    suggestion: 'Flatten nested conditions with early returns and move deeply nested blocks into named functions',
+                    code: getCallableName(node)
+                });
+            }
+        };
+
+        return {
+            [SyntaxKind.FunctionDeclaration]: check,
+            [SyntaxKind.FunctionExpression]: check,
+            [SyntaxKind.ArrowFunction]: check,
+            [SyntaxKind.MethodDeclaration]: check,
+            [SyntaxKind.Constructor]: check,
+            [SyntaxKind.GetAccessor]: check,
+            [SyntaxKind.SetAccessor]: check
+        };
+    }
+});
@@ -0,0 +1,56 @@
+import { SyntaxKind } from 'ts-morph';
+import { calculateCognitiveComplexity } from '../../analyzer/metrics/cognitive.js';
+import {
+    calculateCyclomaticComplexity,
+    ComplexityNode,
+    getCallableName,
+    isComplexityNode
+} from '../../analyzer/metrics/complexity.js';
+import { defineRule } from '../types.js';
+
+type CyclomaticComplexityOptions = {
+    threshold: number;
+    highThreshold: number;
+};
+
+export const cyclomaticComplexityRule = defineRule<CyclomaticComplexityOptions>({
+    meta: {
+        id: 'perf/cyclomatic-complexity',
+        category: 'performance',
+        description: 'Flags functions whose cyclomatic complexity exceeds the threshold',
+        defaultSeverity: 'medium',
+        options: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+                threshold: { type: 'integer', minimum: 1, default: 10 },
+                highThreshold: { type: 'integer', minimum: 1, default: 20 }
+            }
+        }
+    },
+    createVisitor(context) {
+        const check = (node: ComplexityNode) => {
+            if (!isComplexityNode(node)) return;
+            const complexity = calculateCyclomaticComplexity(node);
+            if (complexity > context.options.threshold) {
+                context.report({
+                    node,
+                    severity: complexity > context.options.highThreshold ? 'high' : 'medium',
+                    message: `High cyclomatic complexity (${complexity}, cognitive ${calculateCognitiveComplexity(node)})`,
+                    suggestion: 'Consider breaking down this function into smaller functions',
+                    code: getCallableName(node)
+                });
+            }
+        };
+
+        return {
+            [SyntaxKind.FunctionDeclaration]: check,
+            [SyntaxKind.FunctionExpression]: check,
+            [SyntaxKind.ArrowFunction]: check,
+            [SyntaxKind.MethodDeclaration]: check,
+            [SyntaxKind.Constructor]: check,
+            [SyntaxKind.GetAccessor]: check,
+            [SyntaxKind.SetAccessor]: check
+        };
+    }
+});
@@ -0,0 +1,32 @@
+import { CodeAnalyzer, collectIssues } from '../../analyzer/CodeAnalyzer.js';
+
+async function findClones(lines: string[]): Promise<number[]> {
+    const result = await new CodeAnalyzer().analyzeSources({ 'src/state.ts': lines.join('\n') + '\n' });
+    return collectIssues(result)
+        .filter(issue => issue.ruleId === 'perf/json-clone-in-loop')
+        .map(({ startLine }) => startLine);
+}
+
+describe('perf/json-clone-in-loop', () => {
+    it('reports JSON deep copies inside loops and array callbacks', async () => {
+        expect(await findClones([
+            'export function snapshots(states: object[]) {',
+            '    const copies: object[] = [];',
+            '    for (const state of states) copies.push(JSON.parse(JSON.stringify(state)));',
+            '    return states.map(state => JSON.parse(JSON.stringify(state))).concat(copies);',
+            '}'
+        ])).toEqual([3, 4]);
+    });
+
+    it('ignores a single copy and a local JSON object', async () => {
+        expect(await findClones([
+            'export function copy(state: object) {',
+            '    return JSON.parse(JSON.stringify(state));',
+            '}',
+            'export function fake(states: string[]) {',
+            '    const JSON = { parse: (text: string) => text, stringify: (text: string) => text };',
+            '    for (const state of states) console.log(JSON.parse(JSON.stringify(state)));',
+            '}'
+        ])).toEqual([]);
+    });
+});
@@ -0,0 +1,44 @@
+import { Node, SyntaxKind } from 'ts-morph';
+import { describeLoop, findEnclosingLoop } from '../helpers/loops.js';
+import { isBuiltin } from '../helpers/typeChecks.js';
+import { defineRule } from '../types.js';
+
+// JSON.parse / JSON.stringify of the built-in JSON object
+function isJsonCall(node: Node, method: string): boolean {
+    if (!Node.isCallExpression(node)) return false;
+    const callee = node.getExpression();
+    if (!Node.isPropertyAccessExpression(callee) || callee.getName() !== method) return false;
+    const object = callee.getExpression();
+    return Node.isIdentifier(object) && object.getText() === 'JSON' && isBuiltin(object);
+}
+
+export const jsonCloneInLoopRule = defineRule({
+    meta: {
+        id: 'perf/json-clone-in-loop',
+        category: 'performance',
+        description: 'Flags JSON.parse(JSON.stringify(...)) deep copies repeated on every loop iteration',
+        defaultSeverity: 'medium'
+    },
+    createVisitor(context) {
+        return {
+            [SyntaxKind.CallExpression]: node => {
+                const [argument] = node.getArguments();
+                if (!isJsonCall(node, 'parse') || !argument || !isJsonCall(argument, 'stringify')) {
+                    return;
+                }
+                const loop = findEnclosingLoop(node);
+                if (!loop) {
+                    return;
+                }
+
+                const chain = `${describeLoop(loop)} › JSON.parse(JSON.stringify())`;
+                context.report({
+                    node,
+                    message: `Deep copy through JSON on every loop iteration: ${chain}`,
+                    suggestion: 'Use structuredClone(), copy only the fields that change, or clone once outside the loop',
+                    code: chain
+                });
+            }
+        };
+    }
+});
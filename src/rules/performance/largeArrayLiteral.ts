@@ -0,0 +1,32 @@
+import { SyntaxKind } from 'ts-morph';
+import { defineRule } from '../types.js';
+
+export const largeArrayLiteralRule = defineRule<{ maxElements: number }>({
+    meta: {
+        id: 'perf/large-array-literal',
+        category: 'performance',
+        description: 'Flags array literals with more elements than maxElements',
+        defaultSeverity: 'medium',
+        options: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+                maxElements: { type: 'integer', minimum: 1, default: 1000 }
+            }
+        }
+    },
+    createVisitor(context) {
+        return {
+            [SyntaxKind.ArrayLiteralExpression]: node => {
+                if (node.getElements().length > context.options.maxElements) {
+                    context.report({
+                        node,
+                        message: 'Large array literal detected',
+                        suggestion: 'Consider loading large arrays dynamically or paginating',
+                        code: node.getText().substring(0, 100) + '...'
+                    });
+                }
+            }
+        };
+    }
+});
@@ -0,0 +1,34 @@
+import { CodeAnalyzer, collectIssues } from '../../analyzer/CodeAnalyzer.js';
+
+async function findSearches(lines: string[]): Promise<number[]> {
+    const result = await new CodeAnalyzer().analyzeSources({ 'src/users.ts': lines.join('\n') + '\n' });
+    return collectIssues(result)
+        .filter(issue => issue.ruleId === 'perf/linear-search-in-loop')
+        .map(({ startLine }) => startLine);
+}
+
+describe('perf/linear-search-in-loop', () => {
+    it('reports searches of an array that stays the same across iterations', async () => {
+        expect(await findSearches([
+            'export function active(ids: string[], allowed: string[]) {',
+            '    return ids.filter(id => allowed.includes(id)).concat(ids.filter(id => !allowed.includes(id)));',
+            '}',
+            'export function pick(ids: string[], users: Array<{ id: string }>) {',
+            '    for (const id of ids) {',
+            '        console.log(users.find(user => user.id === id));',
+            '    }',
+            '}'
+        ])).toEqual([2, 2, 6]);
+    });
+
+    it('ignores Sets, strings, literals and arrays built inside the loop', async () => {
+        expect(await findSearches([
+            'export function check(ids: string[], allowed: Set<string>, text: string) {',
+            '    for (const id of ids) {',
+            "        const parts = id.split('-');",
+            "        console.log(allowed.has(id), text.includes(id), ['a', 'b'].includes(id), parts.indexOf('x'));",
+            '    }',
+            '}'
+        ])).toEqual([]);
+    });
+});
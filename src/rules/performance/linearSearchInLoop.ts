@@ -0,0 +1,51 @@
+import { Node, SyntaxKind } from 'ts-morph';
+import { formatCallChain } from '../helpers/callChain.js';
+import { describeLoop, findEnclosingLoop, isLoopInvariant } from '../helpers/loops.js';
+import { isArrayLike } from '../helpers/typeChecks.js';
+import { defineRule } from '../types.js';
+
+const SEARCH_METHODS = new Set([
+    'includes', 'indexOf', 'lastIndexOf', 'find', 'findIndex', 'findLast', 'findLastIndex', 'some'
+]);
+
+export const linearSearchInLoopRule = defineRule({
+    meta: {
+        id: 'perf/linear-search-in-loop',
+        category: 'performance',
+        description: 'Flags array searches such as includes and find repeated on every loop iteration',
+        defaultSeverity: 'medium'
+    },
+    createVisitor(context) {
+        return {
+            [SyntaxKind.CallExpression]: node => {
+                const callee = node.getExpression();
+                if (!Node.isPropertyAccessExpression(callee) || !SEARCH_METHODS.has(callee.getName())) {
+                    return;
+                }
+
+                // Strings and Sets have methods of the same names; literals and
+                // tuples are small and fixed
+                const receiver = callee.getExpression();
+                if (Node.isArrayLiteralExpression(receiver) || receiver.getType().isTuple() || !isArrayLike(receiver)) {
+                    return;
+                }
+
+                // A receiver built inside the loop is a different array on every iteration
+                const loop = findEnclosingLoop(node);
+                if (!loop || !isLoopInvariant(receiver, loop)) {
+                    return;
+                }
+
+                const chain = `${describeLoop(loop)} › ${formatCallChain(node)}`;
+                context.report({
+                    node,
+                    message: `Linear array search on every loop iteration, O(n·m): ${chain}`,
+                    suggestion: ['includes', 'indexOf', 'lastIndexOf'].includes(callee.getName())
+                        ? `Build a Set from ${formatCallChain(receiver)} once before the loop and use has()`
+                        : `Build a Map from ${formatCallChain(receiver)} keyed by the property you search for, once before the loop`,
+                    code: chain
+                });
+            }
+        };
+    }
+});
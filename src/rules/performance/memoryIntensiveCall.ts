@@ -0,0 +1,33 @@
+import { Node, SyntaxKind } from 'ts-morph';
+import { formatCallChain } from '../helpers/callChain.js';
+import { isArrayLike } from '../helpers/typeChecks.js';
+import { defineRule } from '../types.js';
+
+export const memoryIntensiveCallRule = defineRule({
+    meta: {
+        id: 'perf/memory-intensive-call',
+        category: 'performance',
+        description: 'Flags concat and splice calls that copy or shift whole arrays',
+        defaultSeverity: 'low'
+    },
+    createVisitor(context) {
+        return {
+            [SyntaxKind.CallExpression]: node => {
+                const callee = node.getExpression();
+                // Only Array methods: strings have concat, and other objects may have either
+                if (!Node.isPropertyAccessExpression(callee)
+                    || !['concat', 'splice'].includes(callee.getName())
+                    || !isArrayLike(callee.getExpression())) {
+                    return;
+                }
+
+                context.report({
+                    node,
+                    message: 'Memory-intensive array operation detected',
+                    suggestion: 'Consider using more efficient array operations',
+                    code: formatCallChain(node)
+                });
+            }
+        };
+    }
+});
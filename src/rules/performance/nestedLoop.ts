@@ -0,0 +1,36 @@
+import { Node, SyntaxKind } from 'ts-morph';
+import { defineRule } from '../types.js';
+
+function isLoop(node: Node): boolean {
+    return node.getKind() === SyntaxKind.ForStatement ||
+        node.getKind() === SyntaxKind.ForInStatement ||
+        node.getKind() === SyntaxKind.ForOfStatement;
+}
+
+export const nestedLoopRule = defineRule({
+    meta: {
+        id: 'perf/nested-loop',
+        category: 'performance',
+        description: 'Flags loops nested inside other loops',
+        defaultSeverity: 'high'
+    },
+    createVisitor(context) {
+        const check = (node: Node) => {
+            // Check for nested loops
+            if (node.getFirstAncestor(isLoop)) {
+                context.report({
+                    node,
+                    message: 'Nested loop detected - potential performance issue',
+                    suggestion: 'Consider restructuring to avoid nested loops or use array methods',
+                    code: node.getText()
+                });
+            }
+        };
+
+        return {
+            [SyntaxKind.ForStatement]: check,
+            [SyntaxKind.ForInStatement]: check,
+            [SyntaxKind.ForOfStatement]: check
+        };
+    }
+});
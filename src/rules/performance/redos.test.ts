@@ -0,0 +1,29 @@
+import { CodeAnalyzer, collectIssues } from '../../analyzer/CodeAnalyzer.js';
+
+async function findRedos(lines: string[]) {
+    const result = await new CodeAnalyzer().analyzeSources({ 'src/patterns.ts': lines.join('\n') + '\n' });
+    return collectIssues(result).filter(issue => issue.ruleId === 'perf/redos');
+}
+
+describe('perf/redos', () => {
+    it('checks regex literals and RegExp constructors with literal patterns', async () => {
+        const issues = await findRedos([
+            'export const words = /^(\\w+\\s?)+$/;',
+            "export const digits = new RegExp('\\\\d+\\\\d+$');",
+            'export const safe = /^[a-z]+$/;'
+        ]);
+
+        expect(issues.map(issue => issue.startLine)).toEqual([1, 2]);
+        expect(issues[0].message).toContain('exponential');
+        expect(issues[1].message).toContain('polynomial');
+    });
+
+    it('ignores a local class named RegExp', async () => {
+        const issues = await findRedos([
+            'class RegExp { constructor(readonly source: string) {} }',
+            "export const notARegex = new RegExp('(a+)+$');"
+        ]);
+
+        expect(issues).toEqual([]);
+    });
+});
@@ -0,0 +1,66 @@
+import { Node, SyntaxKind } from 'ts-morph';
+import { findBacktracking } from '../../analyzer/regex/backtracking.js';
+import { isBuiltin } from '../helpers/typeChecks.js';
+import { defineRule } from '../types.js';
+
+// The string value of a literal, or of a constant whose type is a string literal
+function getConstantString(node: Node | undefined): string | undefined {
+    if (!node) return undefined;
+    if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node)) {
+        return node.getLiteralValue();
+    }
+    const type = node.getType();
+    return type.isStringLiteral() ? String(type.getLiteralValue()) : undefined;
+}
+
+export const redosRule = defineRule({
+    meta: {
+        id: 'perf/redos',
+        category: 'performance',
+        description: 'Flags regular expressions that can backtrack catastrophically on crafted input (ReDoS)',
+        defaultSeverity: 'high'
+    },
+    createVisitor(context) {
+        const check = (node: Node, pattern: string, flags: string) => {
+            const finding = findBacktracking(pattern, flags);
+            if (!finding) {
+                return;
+            }
+
+            const regex = `/${pattern}/${flags}`;
+            context.report({
+                node,
+                severity: finding.risk === 'exponential' ? 'high' : 'medium',
+                message: `Regular expression ${regex} can take ${finding.risk} time on non-matching input: ${finding.reason}`,
+                suggestion: finding.safePattern
+                    ? `Use /${finding.safePattern}/${flags}, which matches the same text without ambiguity, or limit the input length before matching`
+                    : `Make ${finding.fragment} unambiguous so each character can only be matched one way, or limit the input length before matching`,
+                code: regex
+            });
+        };
+
+        const checkConstructor = (node: Node & { getExpression(): Node; getArguments(): Node[] }) => {
+            const callee = node.getExpression();
+            if (!Node.isIdentifier(callee) || callee.getText() !== 'RegExp' || !isBuiltin(callee)) {
+                return;
+            }
+            // new RegExp(/literal/) is checked as a literal
+            const [patternArgument, flagsArgument] = node.getArguments();
+            const pattern = getConstantString(patternArgument);
+            const flags = flagsArgument ? getConstantString(flagsArgument) : '';
+            if (pattern !== undefined && flags !== undefined) {
+                check(node, pattern, flags);
+            }
+        };
+
+        return {
+            [SyntaxKind.RegularExpressionLiteral]: node => {
+                const text = node.getText();
+                const lastSlash = text.lastIndexOf('/');
+                check(node, text.slice(1, lastSlash), text.slice(lastSlash + 1));
+            },
+            [SyntaxKind.NewExpression]: checkConstructor,
+            [SyntaxKind.CallExpression]: checkConstructor
+        };
+    }
+});
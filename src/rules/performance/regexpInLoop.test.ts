@@ -0,0 +1,35 @@
+import { CodeAnalyzer, collectIssues } from '../../analyzer/CodeAnalyzer.js';
+
+async function findRegExps(lines: string[]): Promise<number[]> {
+    const result = await new CodeAnalyzer().analyzeSources({ 'src/match.ts': lines.join('\n') + '\n' });
+    return collectIssues(result)
+        .filter(issue => issue.ruleId === 'perf/regexp-in-loop')
+        .map(({ startLine }) => startLine);
+}
+
+describe('perf/regexp-in-loop', () => {
+    it('reports patterns compiled from values that do not change', async () => {
+        expect(await findRegExps([
+            'export function count(lines: string[], word: string) {',
+            '    let total = 0;',
+            '    for (const line of lines) {',
+            "        if (new RegExp(word, 'i').test(line)) total++;",
+            "        if (RegExp('^#').test(line)) total--;",
+            '    }',
+            '    return total;',
+            '}'
+        ])).toEqual([4, 5]);
+    });
+
+    it('ignores patterns built from the loop variable and a local RegExp', async () => {
+        expect(await findRegExps([
+            'export function matchAll(words: string[], text: string) {',
+            '    return words.filter(word => new RegExp(word).test(text));',
+            '}',
+            'export function local(lines: string[]) {',
+            '    const RegExp = (pattern: string) => pattern;',
+            "    for (const line of lines) console.log(RegExp('x'), line);",
+            '}'
+        ])).toEqual([]);
+    });
+});
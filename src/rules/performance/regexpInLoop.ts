@@ -0,0 +1,40 @@
+import { Node, SyntaxKind } from 'ts-morph';
+import { describeLoop, findEnclosingLoop, isLoopInvariant } from '../helpers/loops.js';
+import { isBuiltin } from '../helpers/typeChecks.js';
+import { defineRule } from '../types.js';
+
+export const regexpInLoopRule = defineRule({
+    meta: {
+        id: 'perf/regexp-in-loop',
+        category: 'performance',
+        description: 'Flags new RegExp(...) compiled on every loop iteration from values that do not change',
+        defaultSeverity: 'medium'
+    },
+    createVisitor(context) {
+        const check = (node: Node & { getExpression(): Node; getArguments(): Node[] }) => {
+            const callee = node.getExpression();
+            if (!Node.isIdentifier(callee) || callee.getText() !== 'RegExp' || !isBuiltin(callee)) {
+                return;
+            }
+
+            // A pattern built from the loop variable has to be compiled per iteration
+            const loop = findEnclosingLoop(node);
+            if (!loop || !node.getArguments().every(argument => isLoopInvariant(argument, loop))) {
+                return;
+            }
+
+            const chain = `${describeLoop(loop)} › ${Node.isNewExpression(node) ? 'new ' : ''}RegExp()`;
+            context.report({
+                node,
+                message: `Regular expression compiled on every loop iteration: ${chain}`,
+                suggestion: 'Create the RegExp once before the loop; reset lastIndex if it uses the g or y flag',
+                code: chain
+            });
+        };
+
+        return {
+            [SyntaxKind.NewExpression]: check,
+            [SyntaxKind.CallExpression]: check
+        };
+    }
+});
@@ -0,0 +1,113 @@
+import { Node, SyntaxKind, VariableStatement } from 'ts-morph';
+import { formatCallChain } from '../helpers/callChain.js';
+import { isPromiseLike } from '../helpers/typeChecks.js';
+import { defineRule } from '../types.js';
+
+type SequentialAwaitOptions = {
+    minAwaits: number;
+};
+
+const MAX_INLINE_LENGTH = 40;
+
+// const x = await <promise>, for every declaration of the statement
+function isAwaitDeclaration(statement: Node): statement is VariableStatement {
+    return Node.isVariableStatement(statement) && statement.getDeclarations().every(declaration => {
+        const initializer = declaration.getInitializer();
+        return Node.isAwaitExpression(initializer) && isPromiseLike(initializer.getExpression());
+    });
+}
+
+function getDeclaredNames(statement: VariableStatement): string[] {
+    return statement.getDeclarations().flatMap(declaration => {
+        const name = declaration.getNameNode();
+        return Node.isIdentifier(name)
+            ? [name.getText()]
+            : name.getDescendantsOfKind(SyntaxKind.Identifier).map(identifier => identifier.getText());
+    });
+}
+
+function usesAny(statement: VariableStatement, names: Set<string>): boolean {
+    return statement.getDeclarations().some(declaration => {
+        const initializer = declaration.getInitializerOrThrow();
+        return [initializer, ...initializer.getDescendantsOfKind(SyntaxKind.Identifier)]
+            .some(node => Node.isIdentifier(node) && names.has(node.getText()));
+    });
+}
+
+function awaitedExpressions(statement: VariableStatement): Node[] {
+    return statement.getDeclarations().map(declaration =>
+        declaration.getInitializerIfKindOrThrow(SyntaxKind.AwaitExpression).getExpression());
+}
+
+// const [a, b] = await Promise.all([f(), g()]) for a run of single declarations
+function suggestPromiseAll(run: VariableStatement[]): string | undefined {
+    if (run.some(statement => statement.getDeclarations().length !== 1)) {
+        return undefined;
+    }
+    const names = run.map(statement => statement.getDeclarations()[0].getNameNode().getText());
+    const calls = run.map(statement => {
+        const expression = awaitedExpressions(statement)[0];
+        const text = expression.getText();
+        return text.length > MAX_INLINE_LENGTH || text.includes('\n') ? formatCallChain(expression) : text;
+    });
+    return `const [${names.join(', ')}] = await Promise.all([${calls.join(', ')}])`;
+}
+
+export const sequentialAwaitRule = defineRule<SequentialAwaitOptions>({
+    meta: {
+        id: 'perf/sequential-await',
+        category: 'performance',
+        description: 'Flags consecutive awaits that do not depend on each other and could run concurrently',
+        defaultSeverity: 'low',
+        options: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+                minAwaits: { type: 'integer', minimum: 2, default: 2 }
+            }
+        }
+    },
+    createVisitor(context) {
+        // Only declarations are considered: bare "await save(a); await save(b);"
+        // statements are usually ordered writes
+        const check = (statements: Node[]) => {
+            let run: VariableStatement[] = [];
+            let declared = new Set<string>();
+
+            const flush = () => {
+                if (run.length >= context.options.minAwaits) {
+                    const chain = run.flatMap(awaitedExpressions).map(formatCallChain).join(' → ');
+                    const rewrite = suggestPromiseAll(run);
+                    context.report({
+                        node: run[0],
+                        message: `${run.length} independent awaits run one after another: ${chain}`,
+                        suggestion: rewrite
+                            ? `Run them concurrently: ${rewrite}`
+                            : 'Run them concurrently with Promise.all',
+                        code: chain
+                    });
+                }
+                run = [];
+                declared = new Set();
+            };
+
+            for (const statement of statements) {
+                if (!isAwaitDeclaration(statement)) {
+                    flush();
+                    continue;
+                }
+                if (usesAny(statement, declared)) {
+                    flush();
+                }
+                run.push(statement);
+                getDeclaredNames(statement).forEach(name => declared.add(name));
+            }
+            flush();
+        };
+
+        return {
+            [SyntaxKind.Block]: node => check(node.getStatements()),
+            [SyntaxKind.SourceFile]: node => check(node.getStatements())
+        };
+    }
+});
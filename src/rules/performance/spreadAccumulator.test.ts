@@ -0,0 +1,36 @@
+import { CodeAnalyzer, collectIssues } from '../../analyzer/CodeAnalyzer.js';
+
+async function findCopies(lines: string[]): Promise<number[]> {
+    const result = await new CodeAnalyzer().analyzeSources({ 'src/group.ts': lines.join('\n') + '\n' });
+    return collectIssues(result)
+        .filter(issue => issue.ruleId === 'perf/spread-accumulator')
+        .map(({ startLine }) => startLine);
+}
+
+describe('perf/spread-accumulator', () => {
+    it('reports accumulators copied in reduce callbacks and loops', async () => {
+        expect(await findCopies([
+            'export function index(items: Array<{ id: string }>) {',
+            '    const ids = items.reduce((acc: string[], item) => [...acc, item.id], []);',
+            '    const byId = items.reduce((acc, item) => {',
+            '        return { ...acc, [item.id]: item };',
+            '    }, {} as Record<string, { id: string }>);',
+            '    let all: string[] = [];',
+            '    for (const item of items) all = all.concat(item.id);',
+            '    return { ids, byId, all };',
+            '}'
+        ])).toEqual([2, 4, 7]);
+    });
+
+    it('ignores accumulators mutated in place and reduce on non-arrays', async () => {
+        expect(await findCopies([
+            'declare const stream: { reduce<T>(fn: (acc: T, chunk: string) => T, initial: T): T };',
+            'export function collect(items: string[]) {',
+            '    const ids = items.reduce((acc: string[], item) => { acc.push(item); return acc; }, []);',
+            '    const chunks = stream.reduce((acc: string[], chunk) => [...acc, chunk], []);',
+            '    const merged = [...ids, ...chunks];',
+            '    return merged;',
+            '}'
+        ])).toEqual([]);
+    });
+});
@@ -0,0 +1,103 @@
+import { Node, SyntaxKind } from 'ts-morph';
+import { isCallable } from '../../analyzer/metrics/complexity.js';
+import { formatCallChain } from '../helpers/callChain.js';
+import { describeLoop, findEnclosingLoop } from '../helpers/loops.js';
+import { isArrayLike } from '../helpers/typeChecks.js';
+import { defineRule } from '../types.js';
+
+function skipParentheses(node: Node): Node {
+    while (Node.isParenthesizedExpression(node)) {
+        node = node.getExpression();
+    }
+    return node;
+}
+
+// [...acc, x], { ...acc, key: x } or acc.concat(x): a full copy of the accumulator
+function copiesAccumulator(expression: Node, name: string): boolean {
+    expression = skipParentheses(expression);
+    const isAccumulator = (node: Node) => Node.isIdentifier(skipParentheses(node)) && skipParentheses(node).getText() === name;
+
+    if (Node.isArrayLiteralExpression(expression)) {
+        return expression.getElements().some(element => Node.isSpreadElement(element) && isAccumulator(element.getExpression()));
+    }
+    if (Node.isObjectLiteralExpression(expression)) {
+        return expression.getProperties().some(property => Node.isSpreadAssignment(property) && isAccumulator(property.getExpression()));
+    }
+    if (Node.isCallExpression(expression)) {
+        const callee = expression.getExpression();
+        return Node.isPropertyAccessExpression(callee) && callee.getName() === 'concat' && isAccumulator(callee.getExpression());
+    }
+    return false;
+}
+
+// Values the callback returns, not counting nested functions
+function getReturnedExpressions(callback: Node): Node[] {
+    if (Node.isArrowFunction(callback) && !Node.isBlock(callback.getBody())) {
+        return [callback.getBody()];
+    }
+    const returned: Node[] = [];
+    const visit = (node: Node) => {
+        if (isCallable(node)) return;
+        if (Node.isReturnStatement(node)) {
+            const expression = node.getExpression();
+            if (expression) returned.push(expression);
+        }
+        node.forEachChild(visit);
+    };
+    callback.forEachChild(visit);
+    return returned;
+}
+
+export const spreadAccumulatorRule = defineRule({
+    meta: {
+        id: 'perf/spread-accumulator',
+        category: 'performance',
+        description: 'Flags accumulators copied with spread or concat on every reduce step or loop iteration',
+        defaultSeverity: 'medium'
+    },
+    createVisitor(context) {
+        const report = (node: Node, where: string, name: string) => {
+            context.report({
+                node,
+                message: `${name} is copied on every iteration, O(n²): ${where}`,
+                suggestion: `Mutate ${name} in place (push, or assign the key) and return it, or collect the values in a plain loop`,
+                code: `${where} › ${node.getText().split('\n')[0]}`
+            });
+        };
+
+        return {
+            // arr.reduce((acc, x) => [...acc, x], [])
+            [SyntaxKind.CallExpression]: node => {
+                const callee = node.getExpression();
+                if (!Node.isPropertyAccessExpression(callee) || !['reduce', 'reduceRight'].includes(callee.getName())) {
+                    return;
+                }
+                const [callback] = node.getArguments();
+                if (!(Node.isArrowFunction(callback) || Node.isFunctionExpression(callback)) || !isArrayLike(callee.getExpression())) {
+                    return;
+                }
+                const accumulator = callback.getParameters()[0]?.getNameNode();
+                if (!Node.isIdentifier(accumulator)) {
+                    return;
+                }
+
+                for (const expression of getReturnedExpressions(callback)) {
+                    if (copiesAccumulator(expression, accumulator.getText())) {
+                        report(expression, formatCallChain(node), accumulator.getText());
+                    }
+                }
+            },
+            // for (...) { result = [...result, x]; }
+            [SyntaxKind.BinaryExpression]: node => {
+                const target = node.getLeft();
+                if (node.getOperatorToken().getKind() !== SyntaxKind.EqualsToken || !Node.isIdentifier(target)) {
+                    return;
+                }
+                const loop = findEnclosingLoop(node);
+                if (loop && copiesAccumulator(node.getRight(), target.getText())) {
+                    report(node, describeLoop(loop), target.getText());
+                }
+            }
+        };
+    }
+});
@@ -0,0 +1,39 @@
+import { CodeAnalyzer, collectIssues } from '../../analyzer/CodeAnalyzer.js';
+
+async function findConcatenations(lines: string[]): Promise<number[]> {
+    const result = await new CodeAnalyzer().analyzeSources({ 'src/csv.ts': lines.join('\n') + '\n' });
+    return collectIssues(result)
+        .filter(issue => issue.ruleId === 'perf/string-concat-in-loop')
+        .map(({ startLine }) => startLine);
+}
+
+describe('perf/string-concat-in-loop', () => {
+    it('reports strings that grow across iterations with += or s = s + x', async () => {
+        expect(await findConcatenations([
+            'export function toCsv(rows: string[][]) {',
+            "    let csv = '';",
+            "    let last = '';",
+            '    for (const row of rows) {',
+            "        csv += row.join(',');",
+            "        last = last + row[0];",
+            '    }',
+            '    return csv + last;',
+            '}'
+        ])).toEqual([5, 6]);
+    });
+
+    it('ignores numbers and strings declared inside the loop', async () => {
+        expect(await findConcatenations([
+            'export function total(rows: number[][]) {',
+            '    let sum = 0;',
+            '    for (const row of rows) {',
+            "        let line = '';",
+            '        for (const cell of row) sum += cell;',
+            '        line += String(sum);',
+            '        console.log(line);',
+            '    }',
+            '    return sum;',
+            '}'
+        ])).toEqual([]);
+    });
+});
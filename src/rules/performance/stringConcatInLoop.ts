@@ -0,0 +1,47 @@
+import { Node, SyntaxKind } from 'ts-morph';
+import { describeLoop, findEnclosingLoop, isLoopInvariant } from '../helpers/loops.js';
+import { isStringLike } from '../helpers/typeChecks.js';
+import { defineRule } from '../types.js';
+
+// s += x, or s = s + x
+function isAppend(node: Node & { getLeft(): Node; getRight(): Node }, operator: SyntaxKind): boolean {
+    if (operator === SyntaxKind.PlusEqualsToken) return true;
+    if (operator !== SyntaxKind.EqualsToken) return false;
+    const right = node.getRight();
+    return Node.isBinaryExpression(right)
+        && right.getOperatorToken().getKind() === SyntaxKind.PlusToken
+        && right.getLeft().getText() === node.getLeft().getText();
+}
+
+export const stringConcatInLoopRule = defineRule({
+    meta: {
+        id: 'perf/string-concat-in-loop',
+        category: 'performance',
+        description: 'Flags strings built up with += across loop iterations',
+        defaultSeverity: 'low'
+    },
+    createVisitor(context) {
+        return {
+            [SyntaxKind.BinaryExpression]: node => {
+                const target = node.getLeft();
+                if (!Node.isIdentifier(target) || !isAppend(node, node.getOperatorToken().getKind()) || !isStringLike(target)) {
+                    return;
+                }
+
+                // Only strings that outlive the iteration grow with the loop
+                const loop = findEnclosingLoop(node);
+                if (!loop || !isLoopInvariant(target, loop)) {
+                    return;
+                }
+
+                const chain = `${describeLoop(loop)} › ${target.getText()} += …`;
+                context.report({
+                    node,
+                    message: `String built up by concatenation across loop iterations: ${chain}`,
+                    suggestion: `Push the parts into an array and join them once after the loop, or use map(...).join('')`,
+                    code: chain
+                });
+            }
+        };
+    }
+});
@@ -0,0 +1,50 @@
+import { ts } from 'ts-morph';
+import { CodeAnalyzer, collectIssues } from '../../analyzer/CodeAnalyzer.js';
+
+const react = [
+    'export declare function useState<T>(initial: T): [T, (next: T | ((previous: T) => T)) => void];',
+    'export declare function useEffect(effect: () => void | (() => void), deps?: unknown[]): void;',
+    'export declare function useCallback<T>(callback: T, deps: unknown[]): T;',
+    'export declare function useMemo<T>(factory: () => T, deps: unknown[]): T;',
+    'export declare function useRef<T>(initial: T): { current: T };',
+    ''
+].join('\n');
+
+async function findIssues(lines: string[]) {
+    const result = await new CodeAnalyzer().analyzeSources(
+        { 'src/react.ts': react, 'src/Profile.tsx': lines.join('\n') + '\n' },
+        { compilerOptions: { jsx: ts.JsxEmit.Preserve, lib: ['lib.es2022.d.ts', 'lib.dom.d.ts'] } }
+    );
+    return collectIssues(result)
+        .filter(issue => issue.ruleId === 'react/effect-cleanup')
+        .map(({ startLine, severity }) => ({ startLine, severity }));
+}
+
+
+describe('react/effect-cleanup', () => {
+    it('flags effects that start listeners or intervals without returning a cleanup', async () => {
+        expect(await findIssues([
+            "import { useEffect, useState } from './react';",
+            'export function Profile() {',
+            '    const [count, setCount] = useState(0);',
+            '    useEffect(() => {',
+            "        window.addEventListener('resize', () => setCount(c => c + 1));",
+            '    }, []);',
+            '    useEffect(() => {',
+            '        const id = setInterval(() => setCount(c => c + 1), 1000);',
+            '        return () => clearInterval(id);',
+            '    }, []);',
+            '    return count;',
+            '}'
+        ])).toEqual([{ startLine: 4, severity: 'medium' }]);
+    });
+
+    it('ignores functions that are not components or hooks', async () => {
+        expect(await findIssues([
+            "import { useEffect } from './react';",
+            'export function register() {',
+            "    useEffect(() => { window.addEventListener('resize', () => {}); });",
+            '}'
+        ])).toEqual([]);
+    });
+});
@@ -0,0 +1,54 @@
+import { CallExpression, Node, SyntaxKind } from 'ts-morph';
+import { formatCallChain } from '../helpers/callChain.js';
+import { createHookLocator, describeHook, getHookCallback, isEffectHook, returnsCleanup } from '../helpers/react.js';
+import { defineRule } from '../types.js';
+
+// Calls that keep something running after the effect: listeners, subscriptions, timers
+const SUBSCRIBE_METHODS = new Set([
+    'addEventListener', 'addListener', 'on', 'subscribe', 'observe', 'listen', 'watch', 'setInterval', 'setTimeout'
+]);
+const SUBSCRIBE_CONSTRUCTORS = new Set(['WebSocket', 'EventSource', 'IntersectionObserver', 'ResizeObserver', 'MutationObserver']);
+
+function isSubscription(node: Node): boolean {
+    if (Node.isCallExpression(node)) {
+        const callee = node.getExpression();
+        const name = Node.isPropertyAccessExpression(callee) ? callee.getName() : callee.getText();
+        return SUBSCRIBE_METHODS.has(name);
+    }
+    return Node.isNewExpression(node) && SUBSCRIBE_CONSTRUCTORS.has(node.getExpression().getText());
+}
+
+export const effectCleanupRule = defineRule({
+    meta: {
+        id: 'react/effect-cleanup',
+        category: 'memory',
+        description: 'Flags useEffect callbacks that add listeners, subscriptions or timers without returning a cleanup',
+        defaultSeverity: 'medium'
+    },
+    createVisitor(context) {
+        const locateHook = createHookLocator();
+        return {
+            [SyntaxKind.CallExpression]: node => {
+                const located = locateHook(node);
+                const callback = located && isEffectHook(located.hook.name) ? getHookCallback(node) : undefined;
+                if (!located || !callback || returnsCleanup(callback)) {
+                    return;
+                }
+                const { owner, hook } = located;
+
+                const subscription = callback.getFirstDescendant(isSubscription) as CallExpression | undefined;
+                if (!subscription) {
+                    return;
+                }
+
+                context.report({
+                    node,
+                    message: `${describeHook(hook, owner)} starts ${formatCallChain(subscription)} but returns no cleanup, ` +
+                        'so it keeps running after unmount and piles up on every re-run',
+                    suggestion: 'Return a function from the effect that removes the listener, unsubscribes or clears the timer',
+                    code: formatCallChain(subscription)
+                });
+            }
+        };
+    }
+});
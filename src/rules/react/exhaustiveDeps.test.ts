@@ -0,0 +1,50 @@
+import { ts } from 'ts-morph';
+import { CodeAnalyzer, collectIssues } from '../../analyzer/CodeAnalyzer.js';
+
+const react = [
+    'export declare function useState<T>(initial: T): [T, (next: T | ((previous: T) => T)) => void];',
+    'export declare function useEffect(effect: () => void | (() => void), deps?: unknown[]): void;',
+    'export declare function useCallback<T>(callback: T, deps: unknown[]): T;',
+    'export declare function useMemo<T>(factory: () => T, deps: unknown[]): T;',
+    'export declare function useRef<T>(initial: T): { current: T };',
+    ''
+].join('\n');
+
+async function findIssues(lines: string[]) {
+    const result = await new CodeAnalyzer().analyzeSources(
+        { 'src/react.ts': react, 'src/Profile.tsx': lines.join('\n') + '\n' },
+        { compilerOptions: { jsx: ts.JsxEmit.Preserve, lib: ['lib.es2022.d.ts', 'lib.dom.d.ts'] } }
+    );
+    return collectIssues(result)
+        .filter(issue => issue.ruleId === 'react/exhaustive-deps')
+        .map(({ startLine, severity }) => ({ startLine, severity }));
+}
+
+
+describe('react/exhaustive-deps', () => {
+    it('flags props and state read but missing from the dependency array', async () => {
+        expect(await findIssues([
+            "import { useCallback, useEffect, useState } from './react';",
+            'export function Profile({ step }: { step: number }) {',
+            '    const [count, setCount] = useState(0);',
+            '    useEffect(() => {',
+            '        const id = setInterval(() => setCount(count + step), 1000);',
+            '        return () => clearInterval(id);',
+            '    }, [count]);',
+            '    const reset = useCallback(() => setCount(count - step), [count, step]);',
+            '    return reset;',
+            '}'
+        ])).toEqual([{ startLine: 4, severity: 'medium' }]);
+    });
+
+    it('does not require stable values such as setters and refs', async () => {
+        expect(await findIssues([
+            "import { useCallback, useRef, useState } from './react';",
+            'export function Profile() {',
+            '    const [count, setCount] = useState(0);',
+            '    const ref = useRef(0);',
+            '    return useCallback(() => { ref.current = 1; setCount(c => c + 1); }, []);',
+            '}'
+        ])).toEqual([]);
+    });
+});
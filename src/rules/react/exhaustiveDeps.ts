@@ -0,0 +1,93 @@
+import { Node, SyntaxKind } from 'ts-morph';
+import { ComplexityNode } from '../../analyzer/metrics/complexity.js';
+import { createHookLocator, describeHook, getHookCallback, HookOwner, isStableValue } from '../helpers/react.js';
+import { defineRule } from '../types.js';
+
+// Hooks that take a callback and a dependency array
+const DEPENDENCY_HOOKS = new Set(['useEffect', 'useLayoutEffect', 'useInsertionEffect', 'useCallback', 'useMemo']);
+
+// Props, state and other values of the component the callback reads, as
+// written: "count", "props.step". Stable values and the callback's own
+// variables are left out.
+function getDependencies(callback: ComplexityNode, owner: HookOwner): string[] {
+    const dependencies = new Set<string>();
+    for (const identifier of callback.getDescendantsOfKind(SyntaxKind.Identifier)) {
+        const parent = identifier.getParent();
+        if (Node.isPropertyAccessExpression(parent) && parent.getNameNode() === identifier) continue;
+
+        const declaration = identifier.getSymbol()?.getDeclarations()[0];
+        if (!declaration || !isRenderValue(declaration, callback, owner) || isStableValue(declaration)) continue;
+
+        dependencies.add(getPropertyChain(identifier));
+    }
+    return [...dependencies];
+}
+
+// Declared in the component body or as a prop, and not inside the callback
+function isRenderValue(declaration: Node, callback: ComplexityNode, owner: HookOwner): boolean {
+    const kinds = [SyntaxKind.VariableDeclaration, SyntaxKind.BindingElement, SyntaxKind.Parameter, SyntaxKind.FunctionDeclaration];
+    return kinds.includes(declaration.getKind())
+        && declaration !== owner.fn
+        && declaration.getSourceFile() === owner.fn.getSourceFile()
+        && isWithin(declaration, owner.fn)
+        && !isWithin(declaration, callback);
+}
+
+function isWithin(node: Node, container: Node): boolean {
+    return node.getStart() >= container.getStart() && node.getEnd() <= container.getEnd();
+}
+
+// props.user.name for the props identifier of props.user.name, stopping at
+// calls so that items.map() depends on items
+function getPropertyChain(identifier: Node): string {
+    let node = identifier;
+    let parent = node.getParent();
+    while (Node.isPropertyAccessExpression(parent) && parent.getExpression() === node
+        && !Node.isCallExpression(parent.getParent())) {
+        node = parent;
+        parent = node.getParent();
+    }
+    return node.getText().replace(/\?\./g, '.');
+}
+
+function isListed(dependency: string, listed: string[]): boolean {
+    return listed.some(entry => dependency === entry || dependency.startsWith(`${entry}.`));
+}
+
+export const exhaustiveDepsRule = defineRule({
+    meta: {
+        id: 'react/exhaustive-deps',
+        category: 'memory',
+        description: 'Flags hook callbacks that read props or state missing from their dependency array (stale closures)',
+        defaultSeverity: 'medium'
+    },
+    createVisitor(context) {
+        const locateHook = createHookLocator();
+        return {
+            [SyntaxKind.CallExpression]: node => {
+                const located = locateHook(node);
+                const callback = located && DEPENDENCY_HOOKS.has(located.hook.name) ? getHookCallback(node) : undefined;
+                // Without an array the callback runs with fresh values on every render
+                const array = node.getArguments()[1];
+                if (!located || !callback || !Node.isArrayLiteralExpression(array)) {
+                    return;
+                }
+
+                const listed = array.getElements().map(element => element.getText().replace(/\?\./g, '.'));
+                const missing = getDependencies(callback, located.owner).filter(dependency => !isListed(dependency, listed));
+                if (missing.length === 0) {
+                    return;
+                }
+
+                context.report({
+                    node,
+                    message: `${describeHook(located.hook, located.owner)} reads ${missing.join(', ')} without listing ` +
+                        `${missing.length === 1 ? 'it as a dependency' : 'them as dependencies'}, ` +
+                        'so it keeps the values from the render it was created in',
+                    suggestion: `Add ${missing.join(', ')} to the dependency array, or move the value into a ref if the callback must not re-run`,
+                    code: `[${[...listed, ...missing].join(', ')}]`
+                });
+            }
+        };
+    }
+});
@@ -0,0 +1,54 @@
+import { ts } from 'ts-morph';
+import { CodeAnalyzer, collectIssues } from '../../analyzer/CodeAnalyzer.js';
+
+const react = [
+    'export declare function useState<T>(initial: T): [T, (next: T | ((previous: T) => T)) => void];',
+    'export declare function useEffect(effect: () => void | (() => void), deps?: unknown[]): void;',
+    'export declare function useCallback<T>(callback: T, deps: unknown[]): T;',
+    'export declare function useMemo<T>(factory: () => T, deps: unknown[]): T;',
+    'export declare function useRef<T>(initial: T): { current: T };',
+    ''
+].join('\n');
+
+async function findIssues(lines: string[]) {
+    const result = await new CodeAnalyzer().analyzeSources(
+        { 'src/react.ts': react, 'src/Profile.tsx': lines.join('\n') + '\n' },
+        { compilerOptions: { jsx: ts.JsxEmit.Preserve, lib: ['lib.es2022.d.ts', 'lib.dom.d.ts'] } }
+    );
+    return collectIssues(result)
+        .filter(issue => issue.ruleId === 'react/rules-of-hooks')
+        .map(({ startLine, severity }) => ({ startLine, severity }));
+}
+
+
+describe('react/rules-of-hooks', () => {
+    it('flags hooks after an early return, in conditions and in callbacks', async () => {
+        expect(await findIssues([
+            "import { useEffect, useMemo, useState } from './react';",
+            'export function Profile({ items }: { items: number[] | null }) {',
+            '    const [count] = useState(0);',
+            '    if (!items) return null;',
+            '    const [open] = useState(false);',
+            '    if (count > 3) {',
+            '        useEffect(() => {});',
+            '    }',
+            '    return items.map(item => useMemo(() => item * 2, [item]));',
+            '}'
+        ])).toEqual([
+            { startLine: 5, severity: 'high' },
+            { startLine: 7, severity: 'high' },
+            { startLine: 9, severity: 'high' }
+        ]);
+    });
+
+    it('accepts hooks called unconditionally at the top of a component', async () => {
+        expect(await findIssues([
+            "import { useMemo, useState } from './react';",
+            'export function Profile({ items }: { items: number[] }) {',
+            '    const [count] = useState(0);',
+            '    const total = useMemo(() => items.length + count, [items, count]);',
+            '    return total;',
+            '}'
+        ])).toEqual([]);
+    });
+});
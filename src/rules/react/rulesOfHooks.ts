@@ -0,0 +1,77 @@
+import { Node, SyntaxKind } from 'ts-morph';
+import { isCallable } from '../../analyzer/metrics/complexity.js';
+import { createHookLocator, describeHook, findEnclosingHookOwner, getHookName } from '../helpers/react.js';
+import { defineRule } from '../types.js';
+
+// Why the hook does not run on every render in the same order, if it doesn't
+function getConditionalReason(call: Node, fn: Node): string | undefined {
+    let child = call;
+    for (const ancestor of call.getAncestors()) {
+        if (ancestor === fn) break;
+
+        if (Node.isIfStatement(ancestor) && child !== ancestor.getExpression()) return 'inside an if';
+        if (Node.isConditionalExpression(ancestor) && child !== ancestor.getCondition()) return 'inside a conditional expression';
+        if (Node.isBinaryExpression(ancestor) && child === ancestor.getRight()
+            && [SyntaxKind.AmpersandAmpersandToken, SyntaxKind.BarBarToken, SyntaxKind.QuestionQuestionToken]
+                .includes(ancestor.getOperatorToken().getKind())) {
+            return `after ${ancestor.getOperatorToken().getText()}`;
+        }
+        if (Node.isSwitchStatement(ancestor) && child !== ancestor.getExpression()) return 'inside a switch';
+        if (Node.isIterationStatement(ancestor)) return 'inside a loop';
+        if (Node.isTryStatement(ancestor) && child !== ancestor.getTryBlock()) return 'inside a catch or finally block';
+        child = ancestor;
+    }
+
+    // A return before the hook skips it on some renders
+    const earlyReturn = fn.getDescendantsOfKind(SyntaxKind.ReturnStatement).find(statement =>
+        statement.getEnd() <= call.getStart() && statement.getFirstAncestor(isCallable) === fn);
+    return earlyReturn ? `after the early return on line ${earlyReturn.getStartLineNumber()}` : undefined;
+}
+
+export const rulesOfHooksRule = defineRule({
+    meta: {
+        id: 'react/rules-of-hooks',
+        category: 'memory',
+        description: 'Flags hooks called conditionally, in loops, after an early return or inside callbacks',
+        defaultSeverity: 'high'
+    },
+    createVisitor(context) {
+        const locateHook = createHookLocator();
+        return {
+            [SyntaxKind.CallExpression]: node => {
+                const name = getHookName(node);
+                const fn = name && node.getFirstAncestor(isCallable);
+                if (!name || !fn) {
+                    return;
+                }
+
+                const located = locateHook(node);
+                if (!located) {
+                    // Hooks in callbacks of a component: items.map(() => useItem())
+                    const owner = findEnclosingHookOwner(fn);
+                    if (!owner) return;
+                    context.report({
+                        node,
+                        message: `${name} is called inside a callback in ${owner.name}, so React cannot match it to the same hook on every render`,
+                        suggestion: 'Call hooks only at the top level of the component or custom hook, ' +
+                            'e.g. by moving the callback body into a child component',
+                        code: node.getText().split('\n')[0]
+                    });
+                    return;
+                }
+
+                const reason = getConditionalReason(node, located.owner.fn);
+                if (!reason) {
+                    return;
+                }
+                context.report({
+                    node,
+                    message: `${describeHook(located.hook, located.owner)} is called ${reason}, ` +
+                        'so the hooks after it shift position between renders and read the wrong state',
+                    suggestion: 'Call the hook unconditionally at the top of the component and put the condition inside it',
+                    code: node.getText().split('\n')[0]
+                });
+            }
+        };
+    }
+});
@@ -0,0 +1,42 @@
+import { ts } from 'ts-morph';
+import { CodeAnalyzer, collectIssues } from '../../analyzer/CodeAnalyzer.js';
+
+const react = [
+    'export declare function useState<T>(initial: T): [T, (next: T | ((previous: T) => T)) => void];',
+    'export declare function useEffect(effect: () => void | (() => void), deps?: unknown[]): void;',
+    'export declare function useCallback<T>(callback: T, deps: unknown[]): T;',
+    'export declare function useMemo<T>(factory: () => T, deps: unknown[]): T;',
+    'export declare function useRef<T>(initial: T): { current: T };',
+    ''
+].join('\n');
+
+async function findIssues(lines: string[]) {
+    const result = await new CodeAnalyzer().analyzeSources(
+        { 'src/react.ts': react, 'src/Profile.tsx': lines.join('\n') + '\n' },
+        { compilerOptions: { jsx: ts.JsxEmit.Preserve, lib: ['lib.es2022.d.ts', 'lib.dom.d.ts'] } }
+    );
+    return collectIssues(result)
+        .filter(issue => issue.ruleId === 'react/set-state-after-unmount')
+        .map(({ startLine, severity }) => ({ startLine, severity }));
+}
+
+
+describe('react/set-state-after-unmount', () => {
+    it('flags state updates after async work in an effect without a cancellation check', async () => {
+        expect(await findIssues([
+            "import { useEffect, useState } from './react';",
+            'export function Profile({ userId }: { userId: string }) {',
+            '    const [user, setUser] = useState<unknown>(null);',
+            '    useEffect(() => {',
+            '        fetch(`/api/users/${userId}`).then(response => response.json()).then(data => setUser(data));',
+            '    }, [userId]);',
+            '    useEffect(() => {',
+            '        let cancelled = false;',
+            "        fetch('/api/me').then(response => response.json()).then(data => { if (!cancelled) setUser(data); });",
+            '        return () => { cancelled = true; };',
+            '    }, []);',
+            '    return user;',
+            '}'
+        ])).toEqual([{ startLine: 5, severity: 'medium' }]);
+    });
+});
@@ -0,0 +1,67 @@
+import { CallExpression, Node, SyntaxKind } from 'ts-morph';
+import { isCallable } from '../../analyzer/metrics/complexity.js';
+import { createHookLocator, describeHook, getHookCallback, isEffectHook, isStateSetter, returnsCleanup } from '../helpers/react.js';
+import { defineRule } from '../types.js';
+
+const PROMISE_CALLBACKS = new Set(['then', 'catch', 'finally']);
+
+// Whether the call runs after the effect has returned: after an await, or
+// in a then/catch/finally callback
+function runsLater(call: CallExpression, effect: Node): boolean {
+    for (const ancestor of call.getAncestors()) {
+        if (ancestor === effect) break;
+        if (!isCallable(ancestor)) continue;
+
+        const parent = ancestor.getParent();
+        const callee = Node.isCallExpression(parent) ? parent.getExpression() : undefined;
+        if (Node.isPropertyAccessExpression(callee) && PROMISE_CALLBACKS.has(callee.getName())) {
+            return true;
+        }
+    }
+
+    const fn = call.getFirstAncestor(isCallable);
+    return fn !== undefined
+        && fn.getDescendantsOfKind(SyntaxKind.AwaitExpression).some(awaited => awaited.getEnd() <= call.getStart()
+            && awaited.getFirstAncestor(isCallable) === fn);
+}
+
+export const setStateAfterUnmountRule = defineRule({
+    meta: {
+        id: 'react/set-state-after-unmount',
+        category: 'memory',
+        description: 'Flags state updates after await or in promise callbacks of effects that cannot be cancelled',
+        defaultSeverity: 'medium'
+    },
+    createVisitor(context) {
+        const locateHook = createHookLocator();
+        return {
+            [SyntaxKind.CallExpression]: node => {
+                const located = locateHook(node);
+                const effect = located && isEffectHook(located.hook.name) ? getHookCallback(node) : undefined;
+                // A cleanup can set a cancelled flag or abort the request
+                if (!located || !effect || returnsCleanup(effect)) {
+                    return;
+                }
+
+                const update = effect.getDescendantsOfKind(SyntaxKind.CallExpression).find(call => {
+                    const callee = call.getExpression();
+                    const declaration = Node.isIdentifier(callee) ? callee.getSymbol()?.getDeclarations()[0] : undefined;
+                    return declaration !== undefined && isStateSetter(declaration) && runsLater(call, effect);
+                });
+                if (!update) {
+                    return;
+                }
+
+                const setter = update.getExpression().getText();
+                context.report({
+                    node: update,
+                    message: `${setter}() in ${describeHook(located.hook, located.owner)} runs after async work, ` +
+                        'and can update the component after it unmounted or apply a stale response',
+                    suggestion: 'Return a cleanup that sets a cancelled flag checked before the update, ' +
+                        'or aborts the request with an AbortController',
+                    code: update.getText().split('\n')[0]
+                });
+            }
+        };
+    }
+});
@@ -0,0 +1,70 @@
+import { ts } from 'ts-morph';
+import { CodeAnalyzer, collectIssues } from '../../analyzer/CodeAnalyzer.js';
+
+const react = [
+    'export declare function memo<T>(component: T): T;',
+    'declare const React: { memo<T>(component: T): T };',
+    'export default React;',
+    ''
+].join('\n');
+
+async function findProps(files: Record<string, string>): Promise<string[]> {
+    const result = await new CodeAnalyzer().analyzeSources(
+        { 'src/react.ts': react, ...files },
+        { compilerOptions: { jsx: ts.JsxEmit.Preserve } }
+    );
+    return collectIssues(result)
+        .filter(issue => issue.ruleId === 'react/unstable-memo-prop')
+        .map(issue => `${issue.file}:${issue.startLine}`);
+}
+
+const app = (imports: string) => [
+    imports,
+    'export function App() {',
+    '    return <Row style={{ color: "red" }} onClick={() => {}} />;',
+    '}',
+    ''
+].join('\n');
+
+describe('react/unstable-memo-prop', () => {
+    it('flags inline values passed to a memo component in the same file', async () => {
+        expect(await findProps({
+            'src/App.tsx': [
+                "import { memo } from './react';",
+                'const Row = memo(function Row(props: { style: object; onClick(): void }) { return null; });',
+                'const Plain = (props: { style: object }) => null;',
+                'export function App() {',
+                '    return <>',
+                '        <Row style={{ color: "red" }} onClick={() => {}} />',
+                '        <Plain style={{ color: "red" }} />',
+                '    </>;',
+                '}',
+                ''
+            ].join('\n')
+        })).toEqual(['/src/App.tsx:6', '/src/App.tsx:6']);
+    });
+
+    it('follows named imports to a React.memo component', async () => {
+        expect(await findProps({
+            'src/Row.tsx': "import React from './react';\nexport const Row = React.memo((props: { style: object; onClick(): void }) => null);\n",
+            'src/App.tsx': app("import { Row } from './Row';")
+        })).toEqual(['/src/App.tsx:3', '/src/App.tsx:3']);
+    });
+
+    it.each([
+        ['export default memo(...)', "import { memo } from './react';\nexport default memo((props: { style: object; onClick(): void }) => null);\n"],
+        ['export default of a memo variable', "import { memo } from './react';\nconst Row = memo((props: { style: object; onClick(): void }) => null);\nexport default Row;\n"]
+    ])('follows default imports through %s', async (_, row) => {
+        expect(await findProps({
+            'src/Row.tsx': row,
+            'src/App.tsx': app("import Row from './Row';")
+        })).toHaveLength(2);
+    });
+
+    it('ignores imported components that are not memoized', async () => {
+        expect(await findProps({
+            'src/Row.tsx': 'export default function Row(props: { style: object; onClick(): void }) { return null; }\n',
+            'src/App.tsx': app("import Row from './Row';")
+        })).toEqual([]);
+    });
+});
@@ -0,0 +1,53 @@
+import { Node, SyntaxKind } from 'ts-morph';
+import { findEnclosingHookOwner, isMemoizedComponent } from '../helpers/react.js';
+import { defineRule } from '../types.js';
+
+// What kind of new value the expression creates on every render, if any
+function describeUnstableValue(value: Node): string | undefined {
+    if (Node.isObjectLiteralExpression(value)) return 'object';
+    if (Node.isArrayLiteralExpression(value)) return 'array';
+    if (Node.isArrowFunction(value) || Node.isFunctionExpression(value)) return 'function';
+    if (Node.isCallExpression(value)) {
+        const callee = value.getExpression();
+        if (Node.isPropertyAccessExpression(callee) && callee.getName() === 'bind') return 'bound function';
+    }
+    return undefined;
+}
+
+export const unstableMemoPropRule = defineRule({
+    meta: {
+        id: 'react/unstable-memo-prop',
+        category: 'performance',
+        description: 'Flags inline objects, arrays and functions passed to components wrapped in memo()',
+        defaultSeverity: 'low'
+    },
+    createVisitor(context) {
+        return {
+            [SyntaxKind.JsxAttribute]: node => {
+                const initializer = node.getInitializer();
+                const value = Node.isJsxExpression(initializer) ? initializer.getExpression() : undefined;
+                const kind = value && describeUnstableValue(value);
+                const element = node.getFirstAncestor(ancestor => Node.isJsxOpeningElement(ancestor) || Node.isJsxSelfClosingElement(ancestor));
+                if (!kind || !(Node.isJsxOpeningElement(element) || Node.isJsxSelfClosingElement(element))) {
+                    return;
+                }
+
+                const tag = element.getTagNameNode();
+                if (!isMemoizedComponent(tag)) {
+                    return;
+                }
+
+                const owner = findEnclosingHookOwner(node);
+                const prop = node.getNameNode().getText();
+                const wrapper = kind === 'function' || kind === 'bound function' ? 'useCallback' : 'useMemo';
+                context.report({
+                    node,
+                    message: `Inline ${kind} passed as ${prop} to memoized ${tag.getText()}${owner ? ` in ${owner.name}` : ''} ` +
+                        'is a new value on every render, so memo() never skips a render',
+                    suggestion: `Wrap the value in ${wrapper} or move it outside the component`,
+                    code: node.getText().split('\n')[0]
+                });
+            }
+        };
+    }
+});
@@ -0,0 +1,64 @@
+import { KindToNodeMappings, Node, Project, SourceFile, SyntaxKind } from 'ts-morph';
+import { RuleCategory, Severity } from '../analyzer/Issue.js';
+import { JsonSchema } from '../config/schema.js';
+
+export interface RuleMeta {
+    // Stable identifier, namespaced by category or plugin: "perf/nested-loop", "acme/no-legacy-api"
+    id: string;
+    category: RuleCategory;
+    description: string;
+    defaultSeverity: Severity;
+    // Object schema for the options accepted in tsa.config.json; defaults are taken from it
+    options?: JsonSchema;
+    // Set on rules that no longer report anything but stay registered for a
+    // release, so configs naming them still load; says what to use instead
+    deprecated?: string;
+}
+
+export interface ReportDescriptor {
+    node: Node;
+    message: string;
+    suggestion: string;
+    // Used unless the user configured an explicit severity for the rule
+    severity?: Severity;
+    code?: string;
+}
+
+export interface ProjectRuleContext<Options = Record<string, unknown>> {
+    project: Project;
+    options: Options;
+    report(descriptor: ReportDescriptor): void;
+}
+
+export interface FileRuleContext<Options = Record<string, unknown>> extends ProjectRuleContext<Options> {
+    sourceFile: SourceFile;
+}
+
+// Handlers keyed by SyntaxKind, called for every matching node in the file
+export type NodeVisitor = {
+    [Kind in SyntaxKind]?: (node: KindToNodeMappings[Kind]) => void;
+};
+
+// Options should be declared with a type alias rather than an interface:
+// interfaces have no index signature, so the rule would not fit in Rule[]
+export interface Rule<Options = Record<string, unknown>> {
+    meta: RuleMeta;
+    // Called once per analyzed file; the returned visitor sees every node of that file
+    createVisitor?(context: FileRuleContext<Options>): NodeVisitor;
+    // Called once per analyzed file, after the visitor has run
+    checkFile?(context: FileRuleContext<Options>): void;
+    // Called once after all files have been visited
+    checkProject?(context: ProjectRuleContext<Options>): void;
+}
+
+// Shape of a rule package listed under "plugins" in tsa.config.json.
+// Either the default export or the module namespace itself.
+export interface TsaPlugin {
+    name?: string;
+    rules: Rule[];
+}
+
+// Identity helper so plugin authors get type checking on their rule objects
+export function defineRule<Options = Record<string, unknown>>(rule: Rule<Options>): Rule<Options> {
+    return rule;
+}
@@ -0,0 +1,75 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { createServer } from './server.js';
+
+describe('createServer', () => {
+    let server: Server;
+    let baseUrl: string;
+    let tempDir: string;
+
+    beforeAll(async () => {
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tsa-server-'));
+        server = createServer().listen(0);
+        await new Promise(resolve => server.once('listening', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+        await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    async function post(route: string, body: unknown): Promise<{ status: number; body: any }> {
+        const response = await fetch(`${baseUrl}${route}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body)
+        });
+        return { status: response.status, body: await response.json() };
+    }
+
+    async function createProject(name: string, fileCount: number): Promise<string> {
+        const dir = path.join(tempDir, name);
+        await fs.mkdir(path.join(dir, 'src'), { recursive: true });
+        await fs.writeFile(path.join(dir, 'tsconfig.json'), JSON.stringify({ include: ['src'] }));
+        for (let i = 0; i < fileCount; i++) {
+            await fs.writeFile(path.join(dir, 'src', `file${i}.ts`), `export const value${i} = ${i};\n`);
+        }
+        return dir;
+    }
+
+    it('keeps the results of concurrent project analyses apart', async () => {
+        const [small, large] = await Promise.all([createProject('small', 1), createProject('large', 3)]);
+
+        const [smallResult, largeResult] = await Promise.all([
+            post('/api/analyze', { projectPath: small }),
+            post('/api/analyze', { projectPath: large })
+        ]);
+
+        const graphOf = (result: { body: any }): string[] => result.body.data.dependencies.graph.map((node: { id: string }) => node.id);
+        expect(smallResult.body.data.summary.analyzedFiles).toBe(1);
+        expect(graphOf(smallResult)).toEqual([path.join(small, 'src/file0.ts')]);
+        expect(largeResult.body.data.summary.analyzedFiles).toBe(3);
+        expect(graphOf(largeResult)).toHaveLength(3);
+    });
+
+    it('analyzes in-memory sources', async () => {
+        const { status, body } = await post('/api/analyze/sources', {
+            files: { 'src/a.ts': 'export const a = 1;\n' },
+            compilerOptions: { strict: true }
+        });
+
+        expect(status).toBe(200);
+        expect(body.data.summary.analyzedFiles).toBe(1);
+    });
+
+    it('rejects requests without files', async () => {
+        const { status, body } = await post('/api/analyze/sources', { files: {} });
+
+        expect(status).toBe(400);
+        expect(body.success).toBe(false);
+    });
+});
@@ -0,0 +1,141 @@
+import express from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import compression from 'compression';
+import morgan from 'morgan';
+import { Server } from 'http';
+import { ts } from 'ts-morph';
+import { CodeAnalyzer } from './analyzer/CodeAnalyzer.js';
+import { loadConfig } from './config/loader.js';
+import logger from './utils/logger.js';
+
+// Builds the HTTP API without listening, e.g. to mount it in another app
+export function createServer(): express.Express {
+    const app = express();
+
+    // Middleware
+    app.use(helmet()); // Security headers
+    app.use(compression()); // Compress responses
+    app.use(cors()); // Enable CORS
+    app.use(express.json()); // Parse JSON bodies
+    app.use(morgan('combined')); // HTTP request logging
+
+    // Routes
+    app.post('/api/analyze', async (req, res) => {
+        try {
+            const { projectPath } = req.body;
+
+            if (!projectPath) {
+                return res.status(400).json({
+                    success: false,
+                    error: 'Project path is required'
+                });
+            }
+
+            logger.info(`Starting analysis for project: ${projectPath}`);
+            const config = await loadConfig(projectPath);
+            // A CodeAnalyzer keeps the state of its current run, so concurrent
+            // requests must not share one
+            const results = await new CodeAnalyzer().analyzeProject(projectPath, config);
+
+            logger.info(`Analysis completed for project: ${projectPath}`);
+            res.json({
+                success: true,
+                data: results
+            });
+        } catch (error) {
+            logger.error('Analysis error:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Analysis failed',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
+
+    // Analyzes snippets sent in the request body: { files: { "src/a.ts": "..." },
+    // compilerOptions?: { ... } } with compiler options written as in tsconfig.json
+    app.post('/api/analyze/sources', async (req, res) => {
+        try {
+            const { files, compilerOptions = {} } = req.body ?? {};
+
+            if (!isPlainObject(files) || Object.keys(files).length === 0) {
+                return res.status(400).json({
+                    success: false,
+                    error: 'files must be an object mapping file names to source text'
+                });
+            }
+            const invalid = Object.keys(files).filter(name => typeof files[name] !== 'string');
+            if (invalid.length > 0) {
+                return res.status(400).json({
+                    success: false,
+                    error: `Source text must be a string: ${invalid.join(', ')}`
+                });
+            }
+            if (!isPlainObject(compilerOptions)) {
+                return res.status(400).json({
+                    success: false,
+                    error: 'compilerOptions must be an object'
+                });
+            }
+
+            const converted = ts.convertCompilerOptionsFromJson(compilerOptions, '/');
+            if (converted.errors.length > 0) {
+                return res.status(400).json({
+                    success: false,
+                    error: 'Invalid compilerOptions',
+                    message: converted.errors.map(error => ts.flattenDiagnosticMessageText(error.messageText, '\n')).join('\n')
+                });
+            }
+
+            logger.info(`Starting analysis of ${Object.keys(files).length} in-memory files`);
+            const results = await new CodeAnalyzer().analyzeSources(files as Record<string, string>, { compilerOptions: converted.options });
+
+            res.json({
+                success: true,
+                data: results
+            });
+        } catch (error) {
+            logger.error('Analysis error:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Analysis failed',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
+
+    app.get('/api/health', (req, res) => {
+        res.json({
+            success: true,
+            status: 'healthy',
+            timestamp: new Date().toISOString()
+        });
+    });
+
+    // Error handling middleware
+    app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+        logger.error('Unhandled error:', err);
+        res.status(500).json({
+            success: false,
+            error: 'Internal server error',
+            message: process.env.NODE_ENV === 'development' ? err.message : undefined
+        });
+    });
+
+    return app;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function startServer(port: number | string): Promise<Server> {
+    return new Promise((resolve, reject) => {
+        const server = createServer().listen(port, () => {
+            logger.info(`TypeScript Code Analyzer Pro running on port ${port}`);
+            resolve(server);
+        });
+        server.once('error', reject);
+    });
+}
@@ -0,0 +1,52 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import path from 'path';
+
+const execFileAsync = promisify(execFile);
+
+export interface ChangedFilesOptions {
+    // Files changed between the merge base with this ref and the working tree
+    since?: string;
+    // Files in the index (what a pre-commit hook is about to commit)
+    staged?: boolean;
+}
+
+async function git(args: string[], cwd: string): Promise<string> {
+    try {
+        const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 });
+        return stdout;
+    } catch (error) {
+        const stderr = (error as { stderr?: string }).stderr?.trim();
+        throw new Error(`git ${args.join(' ')} failed${stderr ? `: ${stderr}` : ''}`);
+    }
+}
+
+function parseFileList(output: string, root: string): string[] {
+    return output
+        .split('\n')
+        .map(line => line.trim())
+        .filter(Boolean)
+        .map(file => path.resolve(root, file));
+}
+
+// Returns absolute paths of added, copied, modified or renamed files.
+// Deleted files are left out since there is nothing to analyze.
+export async function getChangedFiles(cwd: string, options: ChangedFilesOptions): Promise<string[]> {
+    const root = (await git(['rev-parse', '--show-toplevel'], cwd)).trim();
+    const files = new Set<string>();
+
+    if (options.staged) {
+        const staged = await git(['diff', '--name-only', '--cached', '--diff-filter=ACMR'], root);
+        parseFileList(staged, root).forEach(file => files.add(file));
+    }
+
+    if (options.since) {
+        const mergeBase = (await git(['merge-base', options.since, 'HEAD'], root)).trim();
+        const changed = await git(['diff', '--name-only', '--diff-filter=ACMR', mergeBase], root);
+        const untracked = await git(['ls-files', '--others', '--exclude-standard'], root);
+        parseFileList(changed, root).forEach(file => files.add(file));
+        parseFileList(untracked, root).forEach(file => files.add(file));
+    }
+
+    return Array.from(files).sort();
+}
@@ -0,0 +1,34 @@
+import { createPathMatcher, globToRegExp } from './glob.js';
+
+describe('globToRegExp', () => {
+    it.each([
+        ['*.spec.ts', 'src/deep/a.spec.ts', true],
+        ['*.spec.ts', 'src/a.spec.tsx', false],
+        ['src/*.ts', 'src/a.ts', true],
+        ['src/*.ts', 'src/lib/a.ts', false],
+        ['src/**/*.ts', 'src/a.ts', true],
+        ['src/**/*.ts', 'src/lib/deep/a.ts', true],
+        ['src/**/*.ts', 'test/src/a.ts', false],
+        ['generated', 'src/generated/api.ts', true],
+        ['/generated', 'src/generated/api.ts', false],
+        ['./legacy/', 'legacy/old.ts', true],
+        ['file?.ts', 'file1.ts', true],
+        ['file?.ts', 'file10.ts', false],
+        ['*.{test,spec}.ts', 'a.spec.ts', true],
+        ['*.{test,spec}.ts', 'a.e2e.ts', false],
+        ['a+b.ts', 'a+b.ts', true],
+        ['a+b.ts', 'aab.ts', false]
+    ])('%s matching %s is %s', (pattern, relativePath, expected) => {
+        expect(globToRegExp(pattern).test(relativePath)).toBe(expected);
+    });
+});
+
+describe('createPathMatcher', () => {
+    it('matches absolute paths relative to the root', () => {
+        const isExcluded = createPathMatcher(['dist', '**/*.d.ts'], '/project');
+
+        expect(isExcluded('/project/dist/index.js')).toBe(true);
+        expect(isExcluded('/project/src/types/env.d.ts')).toBe(true);
+        expect(isExcluded('/project/src/index.ts')).toBe(false);
+    });
+});
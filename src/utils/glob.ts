@@ -0,0 +1,69 @@
+import path from 'path';
+
+// Converts a glob pattern into a regular expression matched against
+// forward-slash separated paths relative to the project root.
+// Supports `**`, `*`, `?` and `{a,b}` alternatives. Patterns without a
+// slash match at any depth, and patterns naming a directory match
+// everything below it (the same way .gitignore entries behave).
+export function globToRegExp(pattern: string): RegExp {
+    let glob = pattern.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/$/, '');
+    const anchored = glob.startsWith('/') || glob.slice(0, -1).includes('/');
+    glob = glob.replace(/^\//, '');
+
+    let source = '';
+    let inGroup = false;
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        switch (char) {
+            case '*':
+                if (glob[i + 1] === '*') {
+                    // `**/` matches zero or more directories
+                    if (glob[i + 2] === '/') {
+                        source += '(?:.*/)?';
+                        i += 2;
+                    } else {
+                        source += '.*';
+                        i++;
+                    }
+                } else {
+                    source += '[^/]*';
+                }
+                break;
+            case '?':
+                source += '[^/]';
+                break;
+            case '{':
+                inGroup = true;
+                source += '(?:';
+                break;
+            case '}':
+                inGroup = false;
+                source += ')';
+                break;
+            case ',':
+                source += inGroup ? '|' : ',';
+                break;
+            default:
+                source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+        }
+    }
+
+    const prefix = anchored ? '^' : '^(?:.*/)?';
+    return new RegExp(`${prefix}${source}(?:/.*)?$`);
+}
+
+export function createPathMatcher(patterns: string[], rootDir: string): (filePath: string) => boolean {
+    const expressions = patterns.map(globToRegExp);
+    return (filePath: string) => {
+        const relative = toPosix(path.relative(rootDir, filePath));
+        return expressions.some(expression => expression.test(relative));
+    };
+}
+
+export function hasGlobCharacters(pattern: string): boolean {
+    return /[*?{]/.test(pattern);
+}
+
+export function toPosix(filePath: string): string {
+    return filePath.split(path.sep).join('/');
+}
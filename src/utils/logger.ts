@@ -1,24 +1,35 @@
 import winston from 'winston';
 
+// Silent until enableLogging() is called, so that importing the library
+// neither prints nor creates log files. The CLI and the server enable it.
 const logger = winston.createLogger({
     level: 'info',
     format: winston.format.combine(
         winston.format.timestamp(),
         winston.format.json()
     ),
-    transports: [
-        new winston.transports.File({ filename: 'error.log', level: 'error' }),
-        new winston.transports.File({ filename: 'combined.log' })
-    ]
+    silent: true
 });
 
-if (process.env.NODE_ENV !== 'production') {
-    logger.add(new winston.transports.Console({
-        format: winston.format.combine(
-            winston.format.colorize(),
-            winston.format.simple()
-        )
-    }));
+export function enableLogging(): void {
+    if (!logger.silent) return;
+    logger.silent = false;
+
+    logger.add(new winston.transports.File({ filename: 'error.log', level: 'error' }));
+    logger.add(new winston.transports.File({ filename: 'combined.log' }));
+
+    if (process.env.NODE_ENV !== 'production') {
+        logger.add(new winston.transports.Console({
+            format: winston.format.combine(
+                winston.format.colorize(),
+                winston.format.simple()
+            )
+        }));
+    }
+}
+
+export function isLoggingEnabled(): boolean {
+    return !logger.silent;
 }
 
 export default logger;
@@ -1,16 +1,32 @@
 import fs from 'fs/promises';
 import path from 'path';
 import logger from './logger.js';
+import { formatLocation, Issue } from '../analyzer/Issue.js';
+import { PackageResult } from '../analyzer/CodeAnalyzer.js';
+import { PerformanceMetrics } from '../analyzer/PerformanceAnalyzer.js';
+import { METRIC_LABELS, MetricSortKey, rankByMetric } from '../analyzer/metrics/ranking.js';
 
-export async function generateReport(results: any, format: 'json' | 'html') {
+export interface ReportOptions {
+    // Initial order of the metrics tables, worst first; cyclomatic by default
+    sort?: MetricSortKey;
+    // Only list this many functions and files
+    top?: number;
+}
+
+// Writes the report into outputDir and returns the path of the written file
+export async function generateReport(
+    results: any,
+    format: 'json' | 'html',
+    outputDir: string = '.',
+    options: ReportOptions = {}
+): Promise<string> {
     try {
+        await fs.mkdir(outputDir, { recursive: true });
         switch (format) {
             case 'json':
-                await generateJsonReport(results);
-                break;
+                return await generateJsonReport(results, path.join(outputDir, 'tsa-report.json'));
             case 'html':
-                await generateHtmlReport(results);
-                break;
+                return await generateHtmlReport(results, path.join(outputDir, 'tsa-report.html'), options);
         }
     } catch (error) {
         logger.error('Error generating report:', error);
@@ -18,12 +34,13 @@ export async function generateReport(results: any, format: 'json' | 'html') {
     }
 }
 
-async function generateJsonReport(results: any) {
+async function generateJsonReport(results: any, filePath: string): Promise<string> {
     const content = JSON.stringify(results, null, 2);
-    await fs.writeFile('tsa-report.json', content);
+    await fs.writeFile(filePath, content);
+    return filePath;
 }
 
-async function generateHtmlReport(results: any) {
+async function generateHtmlReport(results: any, filePath: string, options: ReportOptions): Promise<string> {
     const html = `
 <!DOCTYPE html>
 <html lang="en">
@@ -65,6 +82,22 @@ async function generateHtmlReport(results: any) {
             color: #868e96;
             font-family: monospace;
         }
+        .rule {
+            color: #868e96;
+            font-size: 0.85em;
+        }
+        table {
+            border-collapse: collapse;
+            width: 100%;
+        }
+        th, td {
+            text-align: left;
+            padding: 6px 10px;
+            border-bottom: 1px solid #eee;
+        }
+        th[data-sortable] {
+            cursor: pointer;
+        }
         .summary {
             background: #e3fafc;
             padding: 15px;
@@ -79,10 +112,10 @@ async function generateHtmlReport(results: any) {
         
         ${results.performance ? `
         <h2>Performance Issues</h2>
-        ${results.performance.issues.map((issue: { description: any; location: any; suggestion: any; }) => `
+        ${results.performance.issues.map((issue: Issue) => `
             <div class="issue">
-                <strong>${issue.description}</strong>
-                <div class="location">${issue.location}</div>
+                <strong>${escapeHtml(issue.message)}</strong> <span class="rule">${issue.ruleId}</span>
+                <div class="location">${escapeHtml(formatLocation(issue))}</div>
                 <div class="suggestion">💡 ${issue.suggestion}</div>
             </div>
         `).join('')}
@@ -90,10 +123,10 @@ async function generateHtmlReport(results: any) {
 
         ${results.memoryLeaks ? `
         <h2>Memory Leak Risks</h2>
-        ${results.memoryLeaks.potentialLeaks.map((leak: { description: any; location: any; suggestion: any; }) => `
+        ${results.memoryLeaks.potentialLeaks.map((leak: Issue) => `
             <div class="issue">
-                <strong>${leak.description}</strong>
-                <div class="location">${leak.location}</div>
+                <strong>${escapeHtml(leak.message)}</strong> <span class="rule">${leak.ruleId}</span>
+                <div class="location">${escapeHtml(formatLocation(leak))}</div>
                 <div class="suggestion">💡 ${leak.suggestion}</div>
             </div>
         `).join('')}
@@ -101,29 +134,131 @@ async function generateHtmlReport(results: any) {
 
         ${results.dependencies ? `
         <h2>Dependency Analysis</h2>
-        ${results.dependencies.circularDependencies.length > 0 ? `
+        ${results.dependencies.issues.length > 0 ? `
             <div class="issue">
                 <strong>Circular Dependencies Found:</strong>
                 <ul>
-                    ${results.dependencies.circularDependencies.map((cycle: any[]) => `
-                        <li>${cycle.join(' → ')}</li>
+                    ${results.dependencies.issues.map((issue: Issue) => `
+                        <li>${escapeHtml(issue.message)} <span class="location">${escapeHtml(formatLocation(issue))}</span></li>
                     `).join('')}
                 </ul>
             </div>
         ` : '<p>No circular dependencies found.</p>'}
         ` : ''}
 
+        ${results.suppressions?.unused.length > 0 ? `
+        <h2>Unused Suppressions</h2>
+        ${results.suppressions.unused.map((issue: Issue) => `
+            <div class="issue">
+                <strong>${escapeHtml(issue.message)}</strong>
+                <div class="location">${escapeHtml(formatLocation(issue))}</div>
+            </div>
+        `).join('')}
+        ` : ''}
+
+        ${results.performance ? renderMetrics(results.performance.metrics, options) : ''}
+
+        ${results.packages ? `
+        <h2>Packages</h2>
+        <table>
+            <tr><th>Package</th><th>Directory</th><th>Files</th><th>Issues</th><th>Critical</th><th>Maintainability</th><th>Depends on</th></tr>
+            ${results.packages.map((pkg: PackageResult) => `
+            <tr>
+                <td>${escapeHtml(pkg.name)}</td>
+                <td class="location">${escapeHtml(pkg.dir)}</td>
+                <td>${pkg.summary.analyzedFiles}</td>
+                <td>${pkg.summary.totalIssues}</td>
+                <td>${pkg.summary.criticalIssues}</td>
+                <td>${pkg.metrics?.maintainabilityIndex ?? '-'}</td>
+                <td>${escapeHtml(pkg.dependencies.join(', ') || '-')}</td>
+            </tr>
+            `).join('')}
+        </table>
+        ` : ''}
+
         <div class="summary">
             <h2>Summary</h2>
             <p>Total Issues: ${results.summary.totalIssues}</p>
             <p>Critical Issues: ${results.summary.criticalIssues}</p>
+            ${results.suppressions?.suppressed.length > 0 ? `<p>Suppressed: ${results.suppressions.suppressed.length}</p>` : ''}
             <p>Overall Health: ${results.summary.overallHealth}</p>
             <p>Generated: ${new Date().toLocaleString()}</p>
         </div>
     </div>
+    <script>
+        // Click a column header to sort by it; click again to reverse
+        document.querySelectorAll('th[data-sortable]').forEach(header => {
+            header.addEventListener('click', () => {
+                const table = header.closest('table');
+                const column = Array.from(header.parentNode.children).indexOf(header);
+                const descending = header.dataset.order !== 'desc';
+                header.dataset.order = descending ? 'desc' : 'asc';
+                const rows = Array.from(table.querySelectorAll('tr')).slice(1);
+                rows.sort((a, b) => (Number(a.children[column].textContent) - Number(b.children[column].textContent)) * (descending ? -1 : 1));
+                rows.forEach(row => table.appendChild(row));
+            });
+        });
+    </script>
 </body>
 </html>
     `;
 
-    await fs.writeFile('tsa-report.html', html);
+    await fs.writeFile(filePath, html);
+    return filePath;
+}
+
+function renderMetrics(metrics: PerformanceMetrics, options: ReportOptions): string {
+    const sort = options.sort ?? 'cyclomatic';
+    const columns = ['Cyclomatic', 'Cognitive', 'Nesting', 'SLOC', 'Comments', 'Volume', 'Maintainability']
+        .map(name => `<th data-sortable>${name}</th>`).join('');
+
+    return `
+        <h2>Function Metrics</h2>
+        <p>${options.top ? `Top ${options.top} functions` : 'Functions'} by ${METRIC_LABELS[sort]}. Click a column to sort.</p>
+        <table>
+            <tr><th>Function</th><th>Location</th><th data-sortable>Params</th>${columns}</tr>
+            ${rankByMetric(metrics.functions, sort, options.top).map(fn => `
+            <tr>
+                <td>${escapeHtml(fn.name)}</td>
+                <td class="location">${escapeHtml(`${fn.file}:${fn.line}`)}</td>
+                <td>${fn.parameters}</td>
+                <td>${fn.cyclomaticComplexity}</td>
+                <td>${fn.cognitiveComplexity}</td>
+                <td>${fn.nestingDepth}</td>
+                <td>${fn.lines.source}</td>
+                <td>${fn.lines.comment}</td>
+                <td>${Math.round(fn.halsteadVolume)}</td>
+                <td>${fn.maintainabilityIndex}</td>
+            </tr>
+            `).join('')}
+        </table>
+
+        <h2>File Metrics</h2>
+        <p>${metrics.lines.source} source, ${metrics.lines.comment} comment and ${metrics.lines.blank} blank lines. Maintainability index ${metrics.maintainabilityIndex}.</p>
+        <table>
+            <tr><th>File</th><th data-sortable>Functions</th><th data-sortable>Params</th>${columns}</tr>
+            ${rankByMetric(metrics.files, sort, options.top).map(file => `
+            <tr>
+                <td class="location">${escapeHtml(file.file)}</td>
+                <td>${file.functions}</td>
+                <td>${file.parameters}</td>
+                <td>${file.cyclomaticComplexity}</td>
+                <td>${file.cognitiveComplexity}</td>
+                <td>${file.nestingDepth}</td>
+                <td>${file.lines.source}</td>
+                <td>${file.lines.comment}</td>
+                <td>${Math.round(file.halsteadVolume)}</td>
+                <td>${file.maintainabilityIndex}</td>
+            </tr>
+            `).join('')}
+        </table>
+    `;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
 }